@@ -1,11 +1,30 @@
-import { GameConfig, GameOptions, GameState, GameStatus, Vector2D, Platform, OrientationMode } from './types';
-import { EventEmitter } from './utils/eventEmitter';
+import { GameConfig, GameOptions, GameState, GameStatus, Vector2D, Platform, OrientationMode, Entity, RenderLayer, EngineEvents, ENGINE_EVENT_NAMES } from './types';
+import { EventEmitter, EventListener, EventName, Unsubscribe } from './utils/eventEmitter';
 import { AchievementSystem } from './systems/achievements';
 import { LeaderboardSystem } from './systems/leaderboard';
 import { StorageSystem } from './systems/storage';
 import { InputSystem } from './systems/input';
 import { AudioSystem } from './systems/audio';
 import { ParticleSystem } from './systems/particles';
+import { SceneManager } from './systems/scenes';
+import { World } from './systems/ecs';
+import { PhysicsSystem } from './systems/physics';
+import { Camera } from './systems/camera';
+import { AssetManager } from './systems/assets';
+import { ReplaySystem } from './systems/replay';
+import { AUTOSAVE_SLOT, SaveSystem } from './systems/saves';
+import { Broadphase, createBroadphase } from './utils/broadphase';
+import { getWorldCollider } from './utils/collision';
+
+/**
+ * Default render layers, drawn from lowest to highest order
+ */
+export const DEFAULT_RENDER_LAYERS: RenderLayer[] = [
+  { name: 'background', order: 0 },
+  { name: 'entities', order: 100 },
+  { name: 'particles', order: 200 },
+  { name: 'ui', order: 300, screenSpace: true }
+];
 
 /**
  * Core Game Engine class
@@ -13,18 +32,25 @@ import { ParticleSystem } from './systems/particles';
  * Provides cross-platform compatibility for mobile and desktop
  */
 export class GameEngine {
-  private config: GameConfig;
+  private config: Required<GameConfig>;
   private lastFrameTime: number = 0;
+  private accumulator: number = 0;
+  private alpha: number = 0;
   private animationFrameId: number = 0;
-  private events: EventEmitter;
+  private looping: boolean = false;
+  private destroyed: boolean = false;
+  private events: EventEmitter<EngineEvents>;
   private gameElement: HTMLElement | null = null;
   private canvas: HTMLCanvasElement | null = null;
   private context: CanvasRenderingContext2D | null = null;
   private resizeObserver: ResizeObserver | null = null;
+  private resizeHandler: (() => void) | null = null;
   private visibilityChangeHandler: () => void;
   private platform: Platform;
   private orientationHandler: () => void;
   private pixelRatio: number = 1;
+  private renderScale: number = 1;
+  private layers: RenderLayer[] = [];
   private paused: boolean = false;
   
   // Game state
@@ -37,6 +63,16 @@ export class GameEngine {
   input: InputSystem;
   audio: AudioSystem;
   particles: ParticleSystem;
+  scenes: SceneManager;
+  world: World;
+  physics: PhysicsSystem | null;
+  camera: Camera;
+  assets: AssetManager;
+  replay: ReplaySystem;
+  saves: SaveSystem;
+  
+  // Spatial index of entity colliders, rebuilt every step (null when disabled)
+  broadphase: Broadphase<Entity> | null;
   
   constructor(options: GameOptions) {
     // Set up configuration with defaults
@@ -46,6 +82,9 @@ export class GameEngine {
       width: options.width || 800,
       height: options.height || 600,
       fps: options.fps || 60,
+      capFrameRate: options.capFrameRate ?? false,
+      fixedUpdateRate: options.fixedUpdateRate || 60,
+      maxUpdatesPerFrame: options.maxUpdatesPerFrame || 5,
       debug: options.debug || false,
       pixelPerfect: options.pixelPerfect ?? true,
       persistState: options.persistState ?? true,
@@ -66,8 +105,8 @@ export class GameEngine {
       custom: {},
     };
     
-    // Set up event system
-    this.events = new EventEmitter();
+    // Set up event system (warns in development about listeners for events nothing emits)
+    this.events = new EventEmitter<EngineEvents>({ knownEvents: ENGINE_EVENT_NAMES });
     
     // Detect platform
     this.platform = this.detectPlatform();
@@ -75,6 +114,10 @@ export class GameEngine {
     // Store pixel ratio for rendering
     this.pixelRatio = this.config.pixelRatio;
     
+    // Set up render layers
+    this.layers = (options.renderLayers || DEFAULT_RENDER_LAYERS).map(layer => ({ visible: true, ...layer }));
+    this.sortLayers();
+    
     // Initialize the game element
     if (typeof options.element === 'string') {
       this.gameElement = document.getElementById(options.element);
@@ -90,31 +133,55 @@ export class GameEngine {
     // Initialize systems
     this.achievements = new AchievementSystem(this.events, options.achievements);
     this.leaderboard = new LeaderboardSystem(this.events, options.gameId);
-    this.storage = new StorageSystem(this.config.gameId, this.config.persistState);
+    this.storage = new StorageSystem(this.config.gameId, this.config.persistState, options.storage);
     this.input = new InputSystem(this.events, {
       preventDefaults: true,
       enableSwipe: true,
-      preventScroll: this.platform.isMobile
+      preventScroll: this.platform.isMobile,
+      ...options.inputOptions,
+      bindings: options.bindings || options.inputOptions?.bindings
     });
+    // Rebound controls are saved with the rest of the game's data
+    this.input.setStorage(this.storage);
     this.audio = new AudioSystem(this.events, {
       autoUnlock: true,
       autoSuspend: true,
       ...options.audioOptions
     });
     this.particles = new ParticleSystem();
+    this.assets = new AssetManager(this.events);
+    this.scenes = new SceneManager(this.events, this);
+    this.world = new World(this.events, this);
+    this.replay = new ReplaySystem(this.events, this);
+    this.saves = new SaveSystem(this.events, this, this.storage, options.saves);
+    this.camera = new Camera(this);
+    this.physics = options.physics
+      ? new PhysicsSystem(this.events, options.physics === true ? {} : options.physics)
+      : null;
+    this.broadphase = options.broadphase === false
+      ? null
+      : createBroadphase<Entity>(options.broadphase || {}, {
+          x: 0,
+          y: 0,
+          width: this.config.width,
+          height: this.config.height
+        });
+    
+    // Scenes keep the loop running outside of gameplay (title, pause, game over),
+    // including a fade into the first scene on an idle engine
+    this.events.on('scene:enter', () => this.startLoop());
+    this.events.on('scene:transition', () => this.startLoop());
     
-    // Try to restore previous state if persistence is enabled
+    // Restore the autosave (score, level, timer and custom data) if persistence is enabled,
+    // once storage has loaded and unless a game has already begun (save:loaded fires).
+    // A start() before storage.ready() resolves skips the restore, so games that resume
+    // should wait for it
     if (this.config.persistState) {
-      const savedState = this.storage.getItem('gameState');
-      if (savedState) {
-        try {
-          const parsedState = JSON.parse(savedState);
-          // Merge saved state with default state
-          this.state = { ...this.state, ...parsedState };
-        } catch (e) {
-          console.error('Failed to parse saved game state', e);
+      this.storage.ready().then(() => {
+        if (this.state.status === GameStatus.IDLE && !this.replay.isPlaying()) {
+          this.saves.load(AUTOSAVE_SLOT);
         }
-      }
+      });
     }
     
     // Set up window resize handling for responsive design
@@ -143,13 +210,17 @@ export class GameEngine {
       this.input.init(this.gameElement);
     }
     
-    // Initialize audio system
+    // Initialize audio system, decoding assets with its context and panning from the camera
     this.audio.init();
+    this.assets.setAudioContext(this.audio.getContext());
+    this.audio.setListener(() => this.camera.getView());
     
     // Initialize particle system with canvas if available
+    // The engine drives its updates and draws it in the particles layer
     if (this.canvas) {
-      this.particles.init(this.canvas);
+      this.particles.init(this.canvas, false);
     }
+    this.events.on('audio:beat', event => this.particles.onBeat(event));
     
     // Create virtual joystick for mobile if needed
     if (this.platform.isMobile && this.gameElement) {
@@ -247,7 +318,8 @@ export class GameEngine {
       this.resizeObserver.observe(this.gameElement);
     } else {
       // Fallback to window resize event
-      window.addEventListener('resize', () => this.resizeCanvas());
+      this.resizeHandler = () => this.resizeCanvas();
+      window.addEventListener('resize', this.resizeHandler);
     }
   }
   
@@ -409,17 +481,20 @@ export class GameEngine {
       const scale = this.pixelRatio;
       this.canvas.width = Math.floor(width * scale);
       this.canvas.height = Math.floor(height * scale);
-      
-      // Apply scale to context if we have one
-      if (this.context) {
-        this.context.setTransform(scale, 0, 0, scale, 0, 0);
-      }
     } else {
       // Just match the display size
       this.canvas.width = Math.floor(width);
       this.canvas.height = Math.floor(height);
     }
     
+    // Scale from game units (config width/height) to drawing buffer pixels
+    this.renderScale = this.config.width > 0 ? this.canvas.width / this.config.width : 1;
+    
+    // Apply scale to context if we have one
+    if (this.context) {
+      this.applyRenderTransform(this.context);
+    }
+    
     // Emit resize event
     this.events.emit('resize', { 
       width, 
@@ -435,11 +510,10 @@ export class GameEngine {
     if (this.state.status === GameStatus.RUNNING) return;
     
     this.state.status = GameStatus.RUNNING;
-    this.lastFrameTime = performance.now();
     this.events.emit('gameStart', {});
     
     // Start the game loop
-    this.gameLoop();
+    this.startLoop();
   }
   
   /**
@@ -451,9 +525,7 @@ export class GameEngine {
     this.state.status = GameStatus.PAUSED;
     this.events.emit('gamePause', {});
     
-    if (this.animationFrameId) {
-      cancelAnimationFrame(this.animationFrameId);
-    }
+    // The loop stops itself on the next frame unless a scene keeps it alive
   }
   
   /**
@@ -463,11 +535,10 @@ export class GameEngine {
     if (this.state.status !== GameStatus.PAUSED) return;
     
     this.state.status = GameStatus.RUNNING;
-    this.lastFrameTime = performance.now();
     this.events.emit('gameResume', {});
     
     // Resume the game loop
-    this.gameLoop();
+    this.startLoop();
   }
   
   /**
@@ -484,13 +555,9 @@ export class GameEngine {
     // Submit score to leaderboard
     this.leaderboard.submitScore(score);
     
-    if (this.animationFrameId) {
-      cancelAnimationFrame(this.animationFrameId);
-    }
-    
-    // Persist final game state if enabled
-    if (this.config.persistState) {
-      this.saveState();
+    // A finished game has nothing to resume, so clear the autosave (as reset does)
+    if (this.config.persistState && !this.replay.isPlaying()) {
+      this.saves.delete(AUTOSAVE_SLOT);
     }
   }
   
@@ -509,52 +576,166 @@ export class GameEngine {
     
     this.events.emit('gameReset', {});
     
-    // Clear stored state if persistence is enabled
-    if (this.config.persistState) {
-      this.storage.removeItem('gameState');
+    // Clear the autosave if persistence is enabled (replays reset the game to play from the start)
+    if (this.config.persistState && !this.replay.isPlaying()) {
+      this.saves.delete(AUTOSAVE_SLOT);
     }
   }
   
   /**
-   * Save the current game state
+   * Save the current game state to the autosave slot
    */
   saveState(): void {
     if (!this.config.persistState) return;
     
-    try {
-      // Clone the state and remove any circular references or functions
-      const stateCopy = JSON.parse(JSON.stringify(this.state));
-      this.storage.setItem('gameState', JSON.stringify(stateCopy));
-    } catch (e) {
-      console.error('Failed to save game state', e);
+    this.saves.save(AUTOSAVE_SLOT);
+  }
+  
+  /**
+   * Stop the loop, autosaving and the engine's DOM listeners, and release its audio and assets
+   * Call this when the game is unmounted; the engine can't be used afterwards
+   */
+  destroy(): void {
+    if (this.destroyed) return;
+    this.destroyed = true;
+
+    cancelAnimationFrame(this.animationFrameId);
+    this.looping = false;
+    this.replay.stop();
+
+    this.input.destroy();
+    this.audio.destroy();
+    this.particles.destroy();
+    this.saves.destroy();
+    this.assets.unloadAll();
+
+    if (this.resizeObserver) {
+      this.resizeObserver.disconnect();
+      this.resizeObserver = null;
+    }
+    if (this.resizeHandler) {
+      window.removeEventListener('resize', this.resizeHandler);
+      this.resizeHandler = null;
+    }
+    if (this.visibilityChangeHandler) {
+      document.removeEventListener('visibilitychange', this.visibilityChangeHandler);
+    }
+    if (this.orientationHandler) {
+      window.removeEventListener('orientationchange', this.orientationHandler);
+      window.removeEventListener('resize', this.orientationHandler);
+      this.hideOrientationMessage();
     }
   }
+
+  /**
+   * Start the frame loop if it isn't already running
+   */
+  private startLoop(): void {
+    if (this.looping) return;
+    
+    this.looping = true;
+    this.lastFrameTime = performance.now();
+    this.accumulator = 0;
+    this.gameLoop();
+  }
+  
+  /**
+   * Whether the loop has anything to do: gameplay, active scenes or a scene transition
+   */
+  private shouldLoop(): boolean {
+    if (this.destroyed) return false;
+    return this.state.status === GameStatus.RUNNING || this.scenes.hasScenes() || this.scenes.isTransitioning();
+  }
+  
+  /**
+   * Run one fixed step: gameplay (while running) and the active scene
+   */
+  private step(deltaTime: number): void {
+    this.update(deltaTime);
+    this.scenes.update(deltaTime);
+  }
   
   /**
    * Main game loop
+   * Runs fixed steps on a fixed timestep and render() once per displayed frame
    */
   private gameLoop(): void {
-    if (this.state.status !== GameStatus.RUNNING) return;
+    if (!this.shouldLoop()) {
+      this.looping = false;
+      return;
+    }
+    
+    // Schedule next frame
+    this.animationFrameId = requestAnimationFrame(() => this.gameLoop());
     
     const currentTime = performance.now();
-    const deltaTime = (currentTime - this.lastFrameTime) / 1000; // Convert to seconds
+    const frameTime = (currentTime - this.lastFrameTime) / 1000; // Convert to seconds
+    
+    // Skip this frame if it comes sooner than the fps cap allows
+    // (1ms of slack so a 60 fps cap doesn't drop frames on a 60 Hz display)
+    if (this.config.capFrameRate && frameTime < 1 / this.config.fps - 0.001) {
+      return;
+    }
+    
     this.lastFrameTime = currentTime;
+    // Replays can play slower or faster than real time
+    this.accumulator += frameTime * this.replay.getSpeed();
     
-    // Update game state
-    this.update(deltaTime);
+    // Run as many fixed updates as the elapsed time covers
+    const step = this.getFixedDeltaTime();
+    let updates = 0;
+    
+    while (this.accumulator >= step && updates < this.config.maxUpdatesPerFrame) {
+      this.step(step);
+      this.accumulator -= step;
+      updates++;
+    }
+    
+    // Drop time we couldn't catch up on (e.g. after a tab stall)
+    // instead of spiralling into ever longer frames
+    if (this.accumulator >= step) {
+      this.accumulator = this.accumulator % step;
+    }
+    
+    this.alpha = this.accumulator / step;
     
     // Render game
     this.render();
-    
-    // Schedule next frame
-    this.animationFrameId = requestAnimationFrame(() => this.gameLoop());
+  }
+  
+  /**
+   * Run fixed steps immediately without rendering (replays use this to seek)
+   */
+  advance(steps: number): void {
+    const step = this.getFixedDeltaTime();
+    for (let i = 0; i < steps; i++) {
+      this.step(step);
+    }
+  }
+  
+  /**
+   * Get the fixed update timestep in seconds
+   */
+  getFixedDeltaTime(): number {
+    return 1 / this.config.fixedUpdateRate;
+  }
+  
+  /**
+   * Get the interpolation factor (0-1) between the previous and current
+   * fixed update, for smoothing rendered positions
+   */
+  getInterpolationAlpha(): number {
+    return this.alpha;
   }
   
   /**
    * Update game state
    */
   update(deltaTime: number): void {
-    if (this.state.status !== GameStatus.RUNNING) return;
+    if (this.state.status !== GameStatus.RUNNING || this.replay.isPaused()) return;
+    
+    // Apply replayed input recorded before this step
+    this.replay.beginUpdate();
     
     // Update timer
     this.state.timer += deltaTime;
@@ -569,28 +750,223 @@ export class GameEngine {
       }
     }
     
-    // Update particle effects
-    this.particles.update(deltaTime);
+    // Step physics bodies
+    if (this.physics) {
+      this.physics.update(deltaTime);
+    }
+    
+    // Run ECS systems
+    this.world.update(deltaTime);
+    
+    // Find overlapping entities and notify both sides
+    this.detectCollisions();
+    
+    // Move the camera after everything it might follow
+    this.camera.update(deltaTime);
+    
+    // Emit music beats, so beat-synced effects start this step
+    this.audio.update();
+    
+    // Update particle effects (particles work in milliseconds)
+    this.particles.update(deltaTime * 1000);
     
     // Emit update event for game-specific logic
     this.events.emit('update', { deltaTime });
     
     // Check achievements
     this.achievements.check(this.state);
+    
+    // Count the step for recording and playback
+    this.replay.endUpdate();
+  }
+  
+  /**
+   * Re-index entity colliders and call onCollision on both entities of
+   * each overlapping pair
+   */
+  private detectCollisions(): void {
+    if (!this.broadphase) return;
+    
+    this.broadphase.clear();
+    
+    const sceneEntities = this.scenes.current()?.entities || [];
+    for (const entity of [...this.state.entities, ...sceneEntities]) {
+      if (entity.active === false) continue;
+      
+      const bounds = getWorldCollider(entity);
+      if (bounds) {
+        this.broadphase.insert(entity, bounds);
+      }
+    }
+    
+    for (const [a, b] of this.broadphase.getPairs()) {
+      if (a.onCollision) a.onCollision(b);
+      if (b.onCollision) b.onCollision(a);
+    }
   }
   
   /**
    * Render the game
+   * Clears the canvas, applies the camera, lets render listeners draw, then
+   * draws each visible layer in order: entities on their layer, particles on
+   * the particles layer. Screen-space layers, the scene transition and
+   * postRender ignore the camera.
    */
   render(): void {
+    const ctx = this.context;
+    if (!ctx || !this.canvas) return;
+    
+    const width = this.config.width;
+    const height = this.config.height;
+    
+    // Clear the whole drawing buffer before applying the game transform
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+    this.applyRenderTransform(ctx);
+    
+    // Everything up to the screen-space overlays is drawn through the camera
+    ctx.save();
+    this.camera.apply(ctx);
+    
     // Emit render event for game-specific rendering
-    this.events.emit('render', { context: null });
+    this.events.emit('render', { context: ctx, width, height, alpha: this.alpha });
+    
+    // Draw the active scene(s)
+    this.scenes.render(ctx);
+    
+    // Group visible entities by layer, sorted by zIndex
+    const entitiesByLayer = new Map<string, Entity[]>();
+    const entities = [...this.state.entities, ...this.scenes.getVisibleEntities()];
+    for (const entity of entities) {
+      if (!entity.render || entity.visible === false || entity.active === false) continue;
+      
+      const layerName = entity.layer || 'entities';
+      let list = entitiesByLayer.get(layerName);
+      if (!list) {
+        list = [];
+        entitiesByLayer.set(layerName, list);
+      }
+      list.push(entity);
+    }
+    
+    for (const layer of this.layers) {
+      if (layer.visible === false) continue;
+      
+      // Screen-space layers skip the camera transform
+      ctx.save();
+      if (layer.screenSpace) {
+        this.applyRenderTransform(ctx);
+      }
+      
+      const layerEntities = entitiesByLayer.get(layer.name);
+      if (layerEntities) {
+        layerEntities.sort((a, b) => (a.zIndex || 0) - (b.zIndex || 0));
+        for (const entity of layerEntities) {
+          ctx.save();
+          entity.render!(ctx);
+          ctx.restore();
+        }
+      }
+      
+      this.world.render(ctx, layer.name);
+      
+      if (layer.name === 'particles') {
+        this.particles.draw(ctx);
+      }
+      
+      this.events.emit('render:layer', { context: ctx, width, height, alpha: this.alpha, layer: layer.name });
+      ctx.restore();
+    }
+    
+    // Back to screen space
+    ctx.restore();
+    
+    // Fade overlay for scene transitions goes on top of everything
+    this.scenes.renderTransition(ctx, width, height);
+    
+    this.events.emit('postRender', { context: ctx, width, height, alpha: this.alpha });
+  }
+  
+  /**
+   * Convert InputSystem pointer coordinates (relative to the game element)
+   * to screen position in game units
+   */
+  pointerToScreen(point: Vector2D): Vector2D {
+    if (!this.canvas || !this.gameElement) return { ...point };
+    
+    const canvasRect = this.canvas.getBoundingClientRect();
+    const elementRect = this.gameElement.getBoundingClientRect();
+    if (canvasRect.width === 0 || canvasRect.height === 0) return { ...point };
+    
+    return {
+      x: (point.x - (canvasRect.left - elementRect.left)) * this.config.width / canvasRect.width,
+      y: (point.y - (canvasRect.top - elementRect.top)) * this.config.height / canvasRect.height
+    };
+  }
+  
+  /**
+   * Apply the game-to-canvas scale (including pixel ratio) to a context
+   */
+  private applyRenderTransform(ctx: CanvasRenderingContext2D): void {
+    ctx.setTransform(this.renderScale, 0, 0, this.renderScale, 0, 0);
+    ctx.imageSmoothingEnabled = !this.config.pixelPerfect;
+  }
+  
+  /**
+   * Add a render layer, or replace one with the same name
+   */
+  addLayer(layer: RenderLayer): void {
+    this.layers = this.layers.filter(l => l.name !== layer.name);
+    this.layers.push({ visible: true, ...layer });
+    this.sortLayers();
+  }
+  
+  /**
+   * Remove a render layer
+   */
+  removeLayer(name: string): void {
+    this.layers = this.layers.filter(l => l.name !== name);
+  }
+  
+  /**
+   * Change the draw order of a render layer
+   */
+  setLayerOrder(name: string, order: number): void {
+    const layer = this.layers.find(l => l.name === name);
+    if (!layer) return;
+    
+    layer.order = order;
+    this.sortLayers();
+  }
+  
+  /**
+   * Show or hide a render layer
+   */
+  setLayerVisible(name: string, visible: boolean): void {
+    const layer = this.layers.find(l => l.name === name);
+    if (layer) {
+      layer.visible = visible;
+    }
+  }
+  
+  /**
+   * Get the render layers in draw order
+   */
+  getLayers(): RenderLayer[] {
+    return this.layers.map(layer => ({ ...layer }));
+  }
+  
+  /**
+   * Keep layers sorted by draw order
+   */
+  private sortLayers(): void {
+    this.layers.sort((a, b) => a.order - b.order);
   }
   
   /**
    * Add an entity to the game
    */
-  addEntity(entity: any): void {
+  addEntity(entity: Entity): void {
     this.state.entities.push(entity);
     this.events.emit('entityAdded', { entity });
   }
@@ -598,7 +974,7 @@ export class GameEngine {
   /**
    * Remove an entity from the game
    */
-  removeEntity(entity: any): void {
+  removeEntity(entity: Entity): void {
     const index = this.state.entities.indexOf(entity);
     if (index !== -1) {
       this.state.entities.splice(index, 1);
@@ -608,22 +984,45 @@ export class GameEngine {
   
   /**
    * Register an event listener
+   * Accepts exact names and wildcards (`input:*`, `*`); returns an unsubscribe function
+   */
+  on<K extends EventName<EngineEvents>>(
+    event: K,
+    callback: EventListener<EngineEvents, K>,
+    priority: number = 0
+  ): Unsubscribe {
+    return this.events.on(event, callback, priority);
+  }
+  
+  /**
+   * Register a one-time event listener
    */
-  on(event: string, callback: Function): void {
-    this.events.on(event, callback);
+  once<K extends EventName<EngineEvents>>(
+    event: K,
+    callback: EventListener<EngineEvents, K>,
+    priority: number = 0
+  ): Unsubscribe {
+    return this.events.once(event, callback, priority);
   }
   
   /**
    * Remove an event listener
    */
-  off(event: string, callback: Function): void {
+  off<K extends EventName<EngineEvents>>(event: K, callback: EventListener<EngineEvents, K>): void {
     this.events.off(event, callback);
   }
   
+  /**
+   * Get the canvas the engine draws to
+   */
+  getCanvas(): HTMLCanvasElement | null {
+    return this.canvas;
+  }
+  
   /**
    * Get configuration
    */
-  getConfig(): GameConfig {
+  getConfig(): Required<GameConfig> {
     return { ...this.config };
   }
 }
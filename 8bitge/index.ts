@@ -11,14 +11,29 @@ export * from './types';
 
 // Systems
 export * from './systems/achievements';
+export * from './systems/assets';
+export * from './systems/ecs';
 export * from './systems/audio';
+export * from './systems/camera';
 export * from './systems/input';
 export * from './systems/leaderboard';
 export * from './systems/particles';
+export * from './systems/physics';
+export * from './systems/profile';
+export * from './systems/replay';
+export * from './systems/saves';
+export * from './systems/scenes';
+export * from './systems/sequencer';
 export * from './systems/storage';
+export * from './systems/tilemap';
 
 // Utilities
 export * from './utils/animation';
+export * from './utils/assetLoader';
+export * from './utils/broadphase';
 export * from './utils/collision';
 export * from './utils/eventEmitter';
+export * from './utils/gestures';
 export * from './utils/math';
+export * from './utils/random';
+export * from './utils/sfx';
@@ -4,7 +4,7 @@
  */
 
 import { EventEmitter } from '../utils/eventEmitter';
-import { Achievement, GameState } from '../types';
+import { Achievement, EngineEvents, GameState } from '../types';
 
 export interface AchievementEvent {
   type: string;
@@ -13,11 +13,11 @@ export interface AchievementEvent {
 
 export class AchievementSystem {
   private achievements: Map<string, Achievement> = new Map();
-  private events: EventEmitter;
+  private events: EventEmitter<EngineEvents>;
   private gameId: string;
   private storagePrefix = '8bitge_achievements_';
   
-  constructor(events: EventEmitter, achievements?: Achievement[]) {
+  constructor(events: EventEmitter<EngineEvents>, achievements?: Achievement[]) {
     this.gameId = 'default';
     this.events = events;
     
@@ -0,0 +1,345 @@
+/**
+ * Asset System for 8BitGE
+ * Loads a manifest of images, audio buffers, JSON, fonts and atlases into a
+ * cache shared by every AssetManager, with reference counting and progress events
+ */
+
+import type { GameEngine } from '../core';
+import type { Scene } from './scenes';
+import { EventEmitter } from '../utils/eventEmitter';
+import { AssetLoader, AtlasParseOptions, TextureAtlas } from '../utils/assetLoader';
+import { AssetProgressEvent, EngineEvents } from '../types';
+
+/**
+ * Loaded value for each asset type
+ */
+export interface AssetTypeMap {
+  image: HTMLImageElement;
+  audio: AudioBuffer;
+  json: any;
+  font: FontFace;
+  atlas: TextureAtlas;
+}
+
+export type AssetType = keyof AssetTypeMap;
+
+export interface AssetEntry {
+  /** Name used to look the asset up */
+  id: string;
+  type: AssetType;
+  url: string;
+  /** Atlas image, instead of the one named in the atlas JSON */
+  image?: string;
+  /** Atlas parsing options */
+  atlas?: AtlasParseOptions;
+  /** Font family name (defaults to the id) */
+  family?: string;
+  /** Font descriptors such as weight and style */
+  descriptors?: FontFaceDescriptors;
+}
+
+export type AssetManifest = AssetEntry[];
+
+interface CacheEntry {
+  type: AssetType;
+  promise: Promise<any>;
+  value?: any;
+  refs: number;
+}
+
+/** Cache shared by all managers, keyed by type and URL */
+const sharedCache: Map<string, CacheEntry> = new Map();
+
+let sharedAudioContext: AudioContext | null = null;
+
+export class AssetManager {
+  private events: EventEmitter<EngineEvents> | null;
+  private entries: Map<string, AssetEntry> = new Map();
+  private loaded: Map<string, string> = new Map();
+  private audioContext: AudioContext | null = null;
+
+  /**
+   * @param events Engine event bus for assets:progress / assets:complete (optional outside the engine)
+   */
+  constructor(events?: EventEmitter<EngineEvents>) {
+    this.events = events || null;
+  }
+
+  /**
+   * Use an existing AudioContext to decode audio (the engine passes its own)
+   */
+  setAudioContext(context: AudioContext | null): void {
+    this.audioContext = context;
+  }
+
+  /**
+   * Register manifest entries without loading them
+   */
+  add(manifest: AssetManifest | AssetEntry): void {
+    const entries = Array.isArray(manifest) ? manifest : [manifest];
+    entries.forEach(entry => this.entries.set(entry.id, entry));
+  }
+
+  /**
+   * Load a manifest (and any registered entries that are not loaded yet)
+   * Assets already in the shared cache resolve immediately. Failed assets are
+   * reported in the complete event instead of rejecting.
+   */
+  async load(manifest: AssetManifest = [], onProgress?: (progress: AssetProgressEvent) => void): Promise<void> {
+    this.add(manifest);
+
+    const pending = Array.from(this.entries.values()).filter(entry => !this.loaded.has(entry.id));
+    const total = pending.length;
+    const failed: string[] = [];
+    let done = 0;
+
+    const report = (id: string) => {
+      done++;
+      const progress: AssetProgressEvent = { id, loaded: done, total, progress: total > 0 ? done / total : 1 };
+      if (onProgress) onProgress(progress);
+      this.events?.emit('assets:progress', progress);
+    };
+
+    await Promise.all(pending.map(async entry => {
+      try {
+        await this.acquire(entry);
+      } catch (error) {
+        failed.push(entry.id);
+        console.error(`[8BitGE] Failed to load asset '${entry.id}':`, error);
+      }
+      report(entry.id);
+    }));
+
+    if (total === 0 && onProgress) {
+      onProgress({ id: '', loaded: 0, total: 0, progress: 1 });
+    }
+
+    this.events?.emit('assets:complete', { total, failed });
+  }
+
+  /**
+   * Get a loaded asset
+   */
+  get<T extends AssetType>(id: string, type?: T): AssetTypeMap[T] | undefined {
+    const key = this.loaded.get(id);
+    if (!key) return undefined;
+
+    const cached = sharedCache.get(key);
+    if (!cached || (type && cached.type !== type)) return undefined;
+    return cached.value;
+  }
+
+  /**
+   * Get a loaded image
+   */
+  getImage(id: string): HTMLImageElement | undefined {
+    return this.get(id, 'image');
+  }
+
+  /**
+   * Get a loaded audio buffer
+   */
+  getAudio(id: string): AudioBuffer | undefined {
+    return this.get(id, 'audio');
+  }
+
+  /**
+   * Get loaded JSON data
+   */
+  getJSON<T = any>(id: string): T | undefined {
+    return this.get(id, 'json');
+  }
+
+  /**
+   * Get a loaded font
+   */
+  getFont(id: string): FontFace | undefined {
+    return this.get(id, 'font');
+  }
+
+  /**
+   * Get a loaded atlas
+   */
+  getAtlas(id: string): TextureAtlas | undefined {
+    return this.get(id, 'atlas');
+  }
+
+  /**
+   * Check if an asset is loaded
+   */
+  isLoaded(id: string): boolean {
+    return this.loaded.has(id);
+  }
+
+  /**
+   * Release assets; each is dropped from the shared cache once no manager uses it
+   */
+  unload(ids: string | string[]): void {
+    const list = Array.isArray(ids) ? ids : [ids];
+
+    for (const id of list) {
+      const key = this.loaded.get(id);
+      this.loaded.delete(id);
+      this.entries.delete(id);
+      if (!key) continue;
+
+      const cached = sharedCache.get(key);
+      if (!cached) continue;
+
+      cached.refs--;
+      if (cached.refs <= 0) {
+        sharedCache.delete(key);
+        if (cached.type === 'font' && cached.value && typeof document !== 'undefined') {
+          document.fonts.delete(cached.value);
+        }
+      }
+    }
+  }
+
+  /**
+   * Release every asset this manager holds
+   */
+  unloadAll(): void {
+    this.unload(Array.from(this.loaded.keys()));
+    this.entries.clear();
+  }
+
+  /**
+   * Load an entry through the shared cache and take a reference to it
+   */
+  private async acquire(entry: AssetEntry): Promise<void> {
+    const key = `${entry.type}:${entry.url}`;
+    let cached = sharedCache.get(key);
+
+    if (!cached) {
+      const created: CacheEntry = { type: entry.type, promise: this.loadEntry(entry), refs: 0 };
+      sharedCache.set(key, created);
+      cached = created;
+
+      try {
+        created.value = await created.promise;
+      } catch (error) {
+        sharedCache.delete(key);
+        throw error;
+      }
+    } else {
+      await cached.promise;
+    }
+
+    // A concurrent load() on this manager may already hold a reference
+    if (!this.loaded.has(entry.id)) {
+      cached.refs++;
+      this.loaded.set(entry.id, key);
+    }
+  }
+
+  /**
+   * Run the loader for an entry's type
+   */
+  private loadEntry(entry: AssetEntry): Promise<any> {
+    switch (entry.type) {
+      // The shared cache already dedupes requests, so the loader's own cache is not kept
+      case 'image':
+        return new AssetLoader().loadImage(entry.url);
+      case 'atlas':
+        return new AssetLoader().loadAtlas(entry.url, entry.image, entry.atlas);
+      case 'json':
+        return this.fetchOk(entry.url).then(response => response.json());
+      case 'audio':
+        return this.loadAudio(entry.url);
+      case 'font':
+        return this.loadFont(entry);
+      default:
+        return Promise.reject(new Error(`Unknown asset type: ${(entry as AssetEntry).type}`));
+    }
+  }
+
+  /**
+   * Fetch a URL, failing on HTTP errors
+   */
+  private async fetchOk(url: string): Promise<Response> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load ${url} (${response.status})`);
+    }
+    return response;
+  }
+
+  /**
+   * Fetch and decode an audio file
+   */
+  private async loadAudio(url: string): Promise<AudioBuffer> {
+    const data = await (await this.fetchOk(url)).arrayBuffer();
+    return this.getAudioContext().decodeAudioData(data);
+  }
+
+  /**
+   * Load a font face and add it to the document
+   */
+  private async loadFont(entry: AssetEntry): Promise<FontFace> {
+    const font = new FontFace(entry.family || entry.id, `url(${entry.url})`, entry.descriptors);
+    await font.load();
+    document.fonts.add(font);
+    return font;
+  }
+
+  /**
+   * Get the AudioContext used for decoding
+   */
+  private getAudioContext(): AudioContext {
+    if (this.audioContext) return this.audioContext;
+
+    // Decoding works on a suspended context, so this needs no user gesture
+    if (!sharedAudioContext) {
+      sharedAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    }
+    return sharedAudioContext!;
+  }
+}
+
+export interface LoadingSceneOptions {
+  /** Scene id (defaults to 'loading') */
+  id?: string;
+  /** Assets to load */
+  manifest: AssetManifest;
+  /** Scene to switch to once loading completes */
+  next: string;
+  /** Custom drawing; receives progress from 0 to 1 */
+  render?: (context: CanvasRenderingContext2D, progress: number, engine: GameEngine) => void;
+}
+
+/**
+ * Create a scene that loads a manifest, draws a progress bar and then moves on
+ */
+export function createLoadingScene(options: LoadingSceneOptions): Scene {
+  let progress = 0;
+
+  return {
+    id: options.id || 'loading',
+    onEnter: (engine) => {
+      progress = 0;
+      engine.assets.load(options.manifest, event => {
+        progress = event.progress;
+      }).then(() => engine.scenes.replace(options.next));
+    },
+    render: (context, engine) => {
+      if (options.render) {
+        options.render(context, progress, engine);
+        return;
+      }
+
+      const { width, height } = engine.getConfig();
+      const barWidth = Math.floor(width * 0.6);
+      const barHeight = 8;
+      const x = Math.floor((width - barWidth) / 2);
+      const y = Math.floor(height / 2);
+
+      context.fillStyle = '#000';
+      context.fillRect(0, 0, width, height);
+      context.strokeStyle = '#fff';
+      context.strokeRect(x - 2, y - 2, barWidth + 4, barHeight + 4);
+      context.fillStyle = '#0ff';
+      context.fillRect(x, y, Math.floor(barWidth * progress), barHeight);
+    }
+  };
+}
@@ -1,37 +1,208 @@
 /**
  * Audio System for 8BitGE
- * Handles sound effects and background music
+ * Plays decoded audio buffers, sequencer songs and layered music cues through
+ * a Web Audio mixer with master, music, sfx and ui buses, per-sound voice
+ * limits, pitch variation and stereo panning
  */
 
 import { EventEmitter } from '../utils/eventEmitter';
-import { AudioOptions } from '../types';
+import { clamp } from '../utils/math';
+import { createSfxBuffer, resolveSfxParams } from '../utils/sfx';
+import { AssetManager } from './assets';
+import { Sequencer, Song } from './sequencer';
+import { AudioBus, AudioOptions, EngineEvents, Rect, SfxSource, Vector2D } from '../types';
+
+/**
+ * Which voice to cut when a sound is already playing its maximum number of voices
+ * 'none' drops the new voice instead
+ */
+export type VoiceStealing = 'oldest' | 'quietest' | 'none';
+
+export interface SoundOptions {
+  /** Bus the sound plays through (defaults to 'sfx') */
+  bus?: AudioBus;
+  /** Base volume (0-1) */
+  volume?: number;
+  /** Most voices of this sound playing at once (defaults to AudioOptions.maxVoices) */
+  maxVoices?: number;
+  /** Voice to cut when the limit is reached (defaults to 'oldest') */
+  stealing?: VoiceStealing;
+}
+
+export interface PlaySoundOptions {
+  /** Bus to play through instead of the sound's own */
+  bus?: AudioBus;
+  /** Volume (0-1), multiplied with the sound's base volume */
+  volume?: number;
+  /** Random volume change, as a fraction either way */
+  volumeVariation?: number;
+  /** Playback rate (1 is normal; also changes pitch) */
+  playbackRate?: number;
+  /** Pitch offset in semitones */
+  pitch?: number;
+  /** Random pitch change in semitones either way */
+  pitchVariation?: number;
+  /** Stereo pan from -1 (left) to 1 (right) */
+  pan?: number;
+  /** World position to pan from, relative to the listener's view */
+  position?: Vector2D;
+  /** Loop until stopped */
+  loop?: boolean;
+}
+
+/**
+ * A playing sound
+ */
+export interface SoundVoice {
+  readonly id: string;
+  readonly bus: AudioBus;
+  /** Volume the voice started with */
+  readonly volume: number;
+  /** AudioContext time the voice started at */
+  readonly startedAt: number;
+  /**
+   * Stop the voice, optionally fading out over a number of seconds
+   * @param at AudioContext time to start stopping at (defaults to now)
+   */
+  stop(fadeOut?: number, at?: number): void;
+}
+
+/**
+ * One layer of a music cue
+ */
+export interface MusicStem {
+  /** Looping audio file (URL or decoded buffer), for cues made of audio files */
+  source?: string | AudioBuffer;
+  /** Channels of the cue's song this stem controls */
+  channels?: number[];
+  /** Volume (0-1), or a function of the music parameters */
+  volume?: number | ((params: Record<string, number>) => number);
+}
+
+/**
+ * Music made of synchronized stems whose volumes follow game parameters
+ */
+export interface MusicCue {
+  /** Song whose channels the stems control; without one, stems are audio files */
+  song?: Song;
+  /** Tempo of the audio files, for beat events and quantized transitions */
+  bpm?: number;
+  /** Beats per bar (defaults to the song's, or 4) */
+  beatsPerBar?: number;
+  stems: Record<string, MusicStem>;
+  /** Seconds stems take to follow parameter changes (defaults to 0.5) */
+  fadeTime?: number;
+}
+
+export type MusicQuantize = 'none' | 'beat' | 'bar';
+
+export interface CueTransition {
+  /** Wait for the current music's next beat or bar (defaults to 'bar') */
+  quantize?: MusicQuantize;
+  /** Volume (0-1) */
+  volume?: number;
+  fadeIn?: number;
+  /** Fade for the outgoing music (defaults to fadeIn) */
+  fadeOut?: number;
+}
+
+interface SoundRecord {
+  buffer: AudioBuffer | null;
+  options: Required<SoundOptions>;
+  voices: SoundVoice[];
+}
+
+interface CueRecord {
+  cue: MusicCue;
+  buffers: Map<string, AudioBuffer | null>;
+  loaded: boolean;
+}
+
+interface CuePlayback {
+  record: CueRecord;
+  sequencer: Sequencer | null;
+  stems: Map<string, GainNode>;
+}
+
+/**
+ * Beat grid of the playing music, anchored at a known beat
+ */
+interface BeatClock {
+  /** Time and index of the anchor beat */
+  time: number;
+  beat: number;
+  /** Seconds per beat */
+  length: number;
+  beatsPerBar: number;
+  /** Next beat to emit */
+  next: number;
+  /** Time the music stops, after which no beats are emitted */
+  until: number | null;
+}
+
+interface BusState {
+  volume: number;
+  muted: boolean;
+}
+
+const BUSES: AudioBus[] = ['master', 'music', 'sfx', 'ui'];
+
+/** Fade applied to stolen and stopped voices, in seconds, to avoid clicks */
+const VOICE_FADE = 0.01;
+
+/** Gestures that can unlock audio on mobile */
+const UNLOCK_EVENTS = ['touchstart', 'touchend', 'mousedown', 'keydown'];
 
 export class AudioSystem {
-  private sounds: Map<string, HTMLAudioElement> = new Map();
-  private music: Map<string, HTMLAudioElement> = new Map();
-  private currentMusic: HTMLAudioElement | null = null;
-  private events: EventEmitter;
-  private options: Required<AudioOptions>;
+  private sounds: Map<string, SoundRecord> = new Map();
+  private music: Map<string, SoundRecord> = new Map();
+  private songs: Map<string, Song> = new Map();
+  private loadingSongs: Set<string> = new Set();
+  private sequencer: Sequencer | null = null;
+  private cues: Map<string, CueRecord> = new Map();
+  private cue: CuePlayback | null = null;
+  private musicParams: Record<string, number> = {};
+  private clocks: BeatClock[] = [];
+  private musicClock: BeatClock | null = null;
+  private currentMusic: SoundVoice | null = null;
+  private pendingMusic: { id: string; start: () => void } | null = null;
+  private events: EventEmitter<EngineEvents>;
+  private options: Required<Omit<AudioOptions, 'buses'>>;
   private audioContext: AudioContext | null = null;
+  private busNodes: Map<AudioBus, GainNode> = new Map();
+  private busState: Record<AudioBus, BusState>;
+  private loader: AssetManager = new AssetManager();
+  private listener: (() => Rect) | null = null;
   private unlocked: boolean = false;
-  
-  constructor(events: EventEmitter, options: AudioOptions = {}) {
+  private unlockHandler: (() => void) | null = null;
+
+  constructor(events: EventEmitter<EngineEvents>, options: AudioOptions = {}) {
     this.events = events;
-    
+
     // Set default options
     this.options = {
       muted: options.muted ?? false,
       volume: options.volume ?? 1.0,
       sounds: options.sounds || {},
       autoUnlock: options.autoUnlock ?? true,
-      autoSuspend: options.autoSuspend ?? true
+      autoSuspend: options.autoSuspend ?? true,
+      maxVoices: options.maxVoices ?? 4,
+      panSpread: options.panSpread ?? 0.8,
+      sfx: options.sfx || {}
+    };
+
+    this.busState = {
+      master: { volume: this.options.volume, muted: this.options.muted },
+      music: { volume: options.buses?.music ?? 1, muted: false },
+      sfx: { volume: options.buses?.sfx ?? 1, muted: false },
+      ui: { volume: options.buses?.ui ?? 1, muted: false }
     };
-    
+
     // Listen for game pause/resume events
     this.events.on('gamePause', () => this.handleGamePause());
     this.events.on('gameResume', () => this.handleGameResume());
   }
-  
+
   /**
    * Initialize the audio system
    */
@@ -39,193 +210,426 @@ export class AudioSystem {
     // Create AudioContext if Web Audio API is available
     if (window.AudioContext || (window as any).webkitAudioContext) {
       this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+      this.loader.setAudioContext(this.audioContext);
+      this.createBuses(this.audioContext);
+    } else {
+      console.warn('[8BitGE] Web Audio is not supported; audio is disabled');
     }
-    
+
     // Pre-load any sounds from options
     this.preloadSounds(this.options.sounds);
-    
+    Object.entries(this.options.sfx).forEach(([id, sfx]) => this.generateSound(id, sfx));
+
     // Set up audio unlock for mobile
     if (this.options.autoUnlock) {
       this.setupAudioUnlock();
     }
   }
-  
+
   /**
-   * Add a sound effect
+   * Get the Web Audio context, if the browser supports it
    */
-  addSound(id: string, url: string): void {
-    const audio = new Audio();
-    audio.src = url;
-    audio.preload = 'auto';
-    
-    this.sounds.set(id, audio);
+  getContext(): AudioContext | null {
+    return this.audioContext;
   }
-  
+
   /**
-   * Add background music
+   * Get a bus's gain node, for routing custom sources into the mixer
    */
-  addMusic(id: string, url: string): void {
-    const audio = new Audio();
-    audio.src = url;
-    audio.preload = 'auto';
-    audio.loop = true;
-    
-    this.music.set(id, audio);
+  getBus(bus: AudioBus): GainNode | null {
+    return this.busNodes.get(bus) || null;
   }
-  
+
   /**
-   * Play a sound effect
+   * Set the function that returns the visible world area, used to pan
+   * sounds played at a world position (the engine passes the camera view)
+   */
+  setListener(listener: (() => Rect) | null): void {
+    this.listener = listener;
+  }
+
+  /**
+   * Add a sound effect from a URL or an already decoded buffer
+   * Resolves once the sound can be played
    */
-  playSound(id: string, volume?: number): void {
-    if (this.options.muted) return;
-    
+  addSound(id: string, source: string | AudioBuffer, options: SoundOptions = {}): Promise<void> {
+    const sound = this.createRecord(source, {
+      bus: options.bus ?? 'sfx',
+      volume: options.volume ?? 1,
+      maxVoices: Math.max(1, options.maxVoices ?? this.options.maxVoices),
+      stealing: options.stealing ?? 'oldest'
+    });
+
+    this.removeSound(id);
+    this.sounds.set(id, sound);
+
+    return this.loadRecord(`sound:${id}`, sound, source);
+  }
+
+  /**
+   * Generate a chiptune sound effect and add it under an id
+   * Presets take a seed; the same seed always gives the same sound
+   */
+  generateSound(id: string, sfx: SfxSource, options: SoundOptions & { seed?: number } = {}): AudioBuffer | null {
+    const buffer = createSfxBuffer(resolveSfxParams(sfx, options.seed), this.audioContext);
+    if (!buffer) return null;
+
+    this.addSound(id, buffer, options);
+    return buffer;
+  }
+
+  /**
+   * Add background music from a URL or an already decoded buffer
+   */
+  addMusic(id: string, source: string | AudioBuffer, volume: number = 1): Promise<void> {
+    const music = this.createRecord(source, {
+      bus: 'music',
+      volume,
+      maxVoices: 1,
+      stealing: 'oldest'
+    });
+
+    this.music.set(id, music);
+
+    return this.loadRecord(`music:${id}`, music, source).then(() => {
+      // playMusic was called before the track finished loading
+      if (this.pendingMusic && this.pendingMusic.id === id && this.music.get(id) === music) {
+        this.pendingMusic.start();
+      }
+    });
+  }
+
+  /**
+   * Add a sequencer song, played with playMusic like any other track
+   */
+  addSong(id: string, song: Song): void {
+    this.songs.set(id, song);
+  }
+
+  /**
+   * Load a JSON song or a .mod file and add it under an id
+   */
+  async loadSong(id: string, url: string): Promise<void> {
+    this.loadingSongs.add(id);
+
+    try {
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Failed to load ${url} (${response.status})`);
+      }
+
+      this.addSong(id, /\.mod$/i.test(url)
+        ? Sequencer.parseMod(await response.arrayBuffer())
+        : Sequencer.parseSong(await response.json()));
+    } catch (error) {
+      console.error(`[8BitGE] Failed to load song '${id}':`, error);
+    } finally {
+      this.loadingSongs.delete(id);
+    }
+
+    // playMusic was called before the song finished loading
+    if (this.pendingMusic && this.pendingMusic.id === id && this.songs.has(id)) {
+      this.pendingMusic.start();
+    }
+  }
+
+  /**
+   * Get the sequencer playing the current song, e.g. to change its tempo
+   */
+  getSequencer(): Sequencer | null {
+    return this.sequencer;
+  }
+
+  /**
+   * Check if a sound effect has been added
+   */
+  hasSound(id: string): boolean {
+    return this.sounds.has(id);
+  }
+
+  /**
+   * Stop and remove a sound effect
+   */
+  removeSound(id: string): void {
     const sound = this.sounds.get(id);
     if (!sound) return;
-    
-    // Clone the audio to allow overlapping playback
-    const soundInstance = sound.cloneNode() as HTMLAudioElement;
-    soundInstance.volume = (volume !== undefined ? volume : this.options.volume);
-    
-    soundInstance.play().catch(err => {
-      console.warn(`[8BitGE] Could not play sound '${id}':`, err);
-      
-      // Try to unlock audio if it failed
-      if (!this.unlocked) {
-        this.unlockAudio();
-      }
+
+    [...sound.voices].forEach(voice => voice.stop());
+    this.sounds.delete(id);
+    this.loader.unload(`sound:${id}`);
+  }
+
+  /**
+   * Play a sound effect
+   * Returns the new voice, or null if nothing was played
+   */
+  playSound(id: string, options: number | PlaySoundOptions = {}): SoundVoice | null {
+    const settings: PlaySoundOptions = typeof options === 'number' ? { volume: options } : options;
+    const sound = this.sounds.get(id);
+    if (!sound || !sound.buffer || !this.audioContext) return null;
+
+    const bus = settings.bus ?? sound.options.bus;
+
+    // Muted buses would only waste voices
+    if (this.busState.master.muted || this.busState[bus].muted) return null;
+
+    const variation = settings.volumeVariation ? (Math.random() * 2 - 1) * settings.volumeVariation : 0;
+    const volume = Math.max(0, sound.options.volume * (settings.volume ?? 1) * (1 + variation));
+
+    // Make room under the polyphony limit
+    if (sound.voices.length >= sound.options.maxVoices) {
+      if (sound.options.stealing === 'none') return null;
+
+      const victim = sound.options.stealing === 'quietest'
+        ? sound.voices.reduce((quietest, voice) => voice.volume < quietest.volume ? voice : quietest)
+        : sound.voices[0];
+      victim.stop(VOICE_FADE);
+    }
+
+    const pitch = (settings.pitch ?? 0) +
+      (settings.pitchVariation ? (Math.random() * 2 - 1) * settings.pitchVariation : 0);
+    const pan = settings.pan ?? (settings.position ? this.panFromPosition(settings.position) : 0);
+
+    return this.startVoice(id, sound, bus, {
+      volume,
+      playbackRate: (settings.playbackRate ?? 1) * Math.pow(2, pitch / 12),
+      pan,
+      loop: settings.loop ?? false,
+      fadeIn: 0
+    });
+  }
+
+  /**
+   * Stop every playing sound effect, optionally only on one bus
+   */
+  stopAllSounds(bus?: AudioBus, fadeOut: number = 0): void {
+    this.sounds.forEach(sound => {
+      [...sound.voices]
+        .filter(voice => !bus || voice.bus === bus)
+        .forEach(voice => voice.stop(fadeOut));
     });
-    
-    // Remove from DOM when finished
-    soundInstance.onended = () => {
-      soundInstance.onended = null;
-    };
   }
-  
+
   /**
-   * Play background music
+   * Play background music, crossfading from the current track when fading in
+   * Music keeps playing while muted so unmuting brings it back
    */
   playMusic(id: string, volume?: number, fadeIn: number = 0): void {
-    if (this.options.muted) return;
-    
-    // Stop current music if playing
-    this.stopMusic();
-    
+    const song = this.songs.get(id);
     const music = this.music.get(id);
-    if (!music) return;
-    
-    // Set volume and play
-    music.volume = fadeIn > 0 ? 0 : (volume !== undefined ? volume : this.options.volume);
-    music.currentTime = 0;
-    this.currentMusic = music;
-    
-    music.play().catch(err => {
-      console.warn(`[8BitGE] Could not play music '${id}':`, err);
-      
-      // Try to unlock audio if it failed
-      if (!this.unlocked) {
-        this.unlockAudio();
-      }
-    });
-    
-    // Set up fade if requested
-    if (fadeIn > 0) {
-      this.fadeIn(music, volume !== undefined ? volume : this.options.volume, fadeIn);
+    if (!song && !music && !this.loadingSongs.has(id)) return;
+
+    // Stop current music if playing
+    this.stopMusic(fadeIn);
+
+    if (!this.audioContext || (!song && !music?.buffer)) {
+      // Start once the track has loaded
+      this.pendingMusic = { id, start: () => this.playMusic(id, volume, fadeIn) };
+      return;
+    }
+
+    if (song) {
+      this.currentMusic = this.startSong(id, song, volume ?? 1, fadeIn);
+    } else {
+      this.currentMusic = this.startVoice(id, music!, 'music', {
+        volume: music!.options.volume * (volume ?? 1),
+        playbackRate: 1,
+        pan: 0,
+        loop: true,
+        fadeIn
+      });
     }
-    
+
     // Emit event
     this.events.emit('audio:musicStarted', { id });
   }
-  
+
   /**
    * Stop background music
+   * @param quantize Keep playing until the next beat or bar
    */
-  stopMusic(fadeOut: number = 0): void {
-    if (!this.currentMusic) return;
-    
-    if (fadeOut > 0) {
-      this.fadeOut(this.currentMusic, fadeOut).then(() => {
-        if (this.currentMusic) {
-          this.currentMusic.pause();
-          this.currentMusic.currentTime = 0;
-        }
-      });
-    } else {
-      this.currentMusic.pause();
-      this.currentMusic.currentTime = 0;
+  stopMusic(fadeOut: number = 0, quantize: MusicQuantize = 'none'): void {
+    this.endMusic(fadeOut, this.nextBoundary(quantize));
+  }
+
+  /**
+   * Add a music cue, loading any stems given as URLs
+   */
+  async addCue(id: string, cue: MusicCue): Promise<void> {
+    const record: CueRecord = { cue, buffers: new Map(), loaded: false };
+    this.cues.set(id, record);
+
+    await Promise.all(Object.entries(cue.stems).map(async ([name, stem]) => {
+      if (stem.source === undefined) return;
+
+      const sound = this.createRecord(stem.source, { bus: 'music', volume: 1, maxVoices: 1, stealing: 'oldest' });
+      await this.loadRecord(`cue:${id}:${name}`, sound, stem.source);
+      record.buffers.set(name, sound.buffer);
+    }));
+
+    record.loaded = true;
+
+    // playCue was called before the stems finished loading
+    if (this.pendingMusic && this.pendingMusic.id === id && this.cues.get(id) === record) {
+      this.pendingMusic.start();
     }
-    
+  }
+
+  /**
+   * Play a music cue, switching from the current music on its next beat or bar
+   */
+  playCue(id: string, transition: CueTransition = {}): void {
+    const record = this.cues.get(id);
+    if (!record) return;
+
+    if (!this.audioContext || !record.loaded) {
+      // Keep the current music until the cue has loaded
+      this.pendingMusic = { id, start: () => this.playCue(id, transition) };
+      return;
+    }
+
+    const fadeIn = transition.fadeIn ?? 0;
+    const at = this.nextBoundary(transition.quantize ?? 'bar');
+
+    this.endMusic(transition.fadeOut ?? fadeIn, at);
+    this.currentMusic = this.startCue(id, record, transition.volume ?? 1, fadeIn, at);
+
     // Emit event
-    this.events.emit('audio:musicStopped', {});
+    this.events.emit('audio:musicStarted', { id });
   }
-  
+
   /**
-   * Pause all audio
+   * Set a music parameter; stems of the playing cue fade to their new volumes
    */
-  pauseAll(): void {
-    // Pause current music
-    if (this.currentMusic && !this.currentMusic.paused) {
-      this.currentMusic.pause();
+  setMusicParameter(name: string, value: number): void {
+    this.musicParams[name] = value;
+
+    if (this.cue) {
+      this.applyStemVolumes(this.cue, this.cue.record.cue.fadeTime ?? 0.5);
     }
-    
-    // Pause all playing sound effects
-    this.sounds.forEach(sound => {
-      if (!sound.paused) {
-        sound.pause();
+  }
+
+  /**
+   * Get a music parameter
+   */
+  getMusicParameter(name: string): number | undefined {
+    return this.musicParams[name];
+  }
+
+  /**
+   * Emit audio:beat and audio:bar for beats of the current music that have played
+   */
+  update(): void {
+    if (!this.audioContext || this.clocks.length === 0) return;
+
+    const now = this.audioContext.currentTime;
+
+    this.clocks = this.clocks.filter(clock => {
+      // After a long stall, skip to the current beat instead of replaying every missed one
+      const current = clock.beat + Math.floor((now - clock.time) / clock.length);
+      if (current - clock.next > clock.beatsPerBar) {
+        clock.next = current;
+      }
+
+      for (;;) {
+        const time = clock.time + (clock.next - clock.beat) * clock.length;
+        // The new music's clock takes over from its first beat
+        if (time > now || (clock.until !== null && time >= clock.until - 0.001)) break;
+
+        const bar = Math.floor(clock.next / clock.beatsPerBar);
+        const beatInBar = clock.next % clock.beatsPerBar;
+        if (beatInBar === 0) {
+          this.events.emit('audio:bar', { bar, time });
+        }
+        this.events.emit('audio:beat', { beat: clock.next, bar, beatInBar, time });
+        clock.next++;
       }
+
+      return clock.until === null || clock.until > now;
     });
-    
-    // Suspend audio context if available
-    if (this.options.autoSuspend && this.audioContext && this.audioContext.state === 'running') {
+  }
+
+  /**
+   * Pause all audio by suspending the audio context
+   */
+  pauseAll(): void {
+    if (this.audioContext && this.audioContext.state === 'running') {
       this.audioContext.suspend();
     }
   }
-  
+
   /**
    * Resume all audio
    */
   resumeAll(): void {
-    // Resume audio context if available
     if (this.audioContext && this.audioContext.state === 'suspended') {
       this.audioContext.resume();
     }
-    
-    // Resume current music
-    if (this.currentMusic && this.currentMusic.paused) {
-      this.currentMusic.play().catch(console.error);
+  }
+
+  /**
+   * Set a bus volume (0-1)
+   */
+  setBusVolume(bus: AudioBus, volume: number): void {
+    this.busState[bus].volume = clamp(volume, 0, 1);
+    this.applyBusGain(bus);
+
+    this.events.emit('audio:busVolumeChanged', { bus, volume: this.busState[bus].volume });
+    if (bus === 'master') {
+      this.options.volume = this.busState.master.volume;
+      this.events.emit('audio:volumeChanged', { volume: this.options.volume });
+    }
+  }
+
+  /**
+   * Get a bus volume
+   */
+  getBusVolume(bus: AudioBus): number {
+    return this.busState[bus].volume;
+  }
+
+  /**
+   * Mute or unmute a bus
+   */
+  setBusMuted(bus: AudioBus, muted: boolean): void {
+    this.busState[bus].muted = muted;
+    this.applyBusGain(bus);
+
+    this.events.emit('audio:busMutedChanged', { bus, muted });
+    if (bus === 'master') {
+      this.options.muted = muted;
+      this.events.emit('audio:mutedChanged', { muted });
     }
   }
-  
+
+  /**
+   * Check if a bus is muted
+   */
+  isBusMuted(bus: AudioBus): boolean {
+    return this.busState[bus].muted;
+  }
+
   /**
    * Set global volume
    */
   setVolume(volume: number): void {
-    this.options.volume = Math.max(0, Math.min(1, volume));
-    
-    // Update current music volume if playing
-    if (this.currentMusic) {
-      this.currentMusic.volume = this.options.volume;
-    }
-    
-    // Emit event
-    this.events.emit('audio:volumeChanged', { volume: this.options.volume });
+    this.setBusVolume('master', volume);
   }
-  
+
   /**
    * Mute/unmute all audio
    */
   setMuted(muted: boolean): void {
-    this.options.muted = muted;
-    
-    if (muted) {
-      this.pauseAll();
-    } else {
-      this.resumeAll();
-    }
-    
-    // Emit event
-    this.events.emit('audio:mutedChanged', { muted });
+    this.setBusMuted('master', muted);
   }
-  
+
+  /**
+   * Check if all audio is muted
+   */
+  isMuted(): boolean {
+    return this.options.muted;
+  }
+
   /**
    * Toggle mute state
    */
@@ -233,93 +637,104 @@ export class AudioSystem {
     this.setMuted(!this.options.muted);
     return this.options.muted;
   }
-  
+
   /**
    * Handle game pause event
    */
   private handleGamePause(): void {
     // Automatically pause audio when game is paused
-    this.pauseAll();
+    if (this.options.autoSuspend) {
+      this.pauseAll();
+    }
   }
-  
+
   /**
    * Handle game resume event
    */
   private handleGameResume(): void {
     // Automatically resume audio when game is resumed
-    if (!this.options.muted) {
+    if (this.options.autoSuspend) {
       this.resumeAll();
     }
   }
-  
+
   /**
    * Set up audio unlock for mobile devices
    */
   private setupAudioUnlock(): void {
-    const unlockEvents = ['touchstart', 'touchend', 'mousedown', 'keydown'];
-    
     const unlock = () => {
-      if (this.unlocked) return;
-      
-      // Create and play a silent audio element
-      const silentSound = new Audio();
-      silentSound.src = "data:audio/mp3;base64,SUQzBAAAAAABEUgAEgAAABdpZjE2LW1kYXQAAAADYXVkAAAAAA==";
-      silentSound.play().then(() => {
-        this.unlocked = true;
-        
-        // Also resume AudioContext if suspended
-        if (this.audioContext && this.audioContext.state === 'suspended') {
-          this.audioContext.resume();
-        }
-        
+      this.unlockAudio().then(() => {
         // Clean up event listeners
-        unlockEvents.forEach(event => {
-          document.body.removeEventListener(event, unlock);
-        });
-        
-        // Emit event
-        this.events.emit('audio:unlocked', {});
-      }).catch(err => {
-        console.warn('[8BitGE] Audio unlock failed:', err);
+        if (this.unlocked) this.removeUnlockListeners();
       });
     };
-    
+    this.unlockHandler = unlock;
+
     // Add event listeners for unlock
-    unlockEvents.forEach(event => {
+    UNLOCK_EVENTS.forEach(event => {
       document.body.addEventListener(event, unlock, false);
     });
   }
-  
+
   /**
-   * Attempt to unlock audio manually
+   * Stop listening for the gesture that unlocks audio
    */
-  unlockAudio(): void {
-    if (this.unlocked) return;
-    
-    // Try to play all audio elements briefly
-    this.sounds.forEach(sound => {
-      sound.play().then(() => {
-        sound.pause();
-        sound.currentTime = 0;
-      }).catch(() => {});
-    });
-    
-    this.music.forEach(music => {
-      music.play().then(() => {
-        music.pause();
-        music.currentTime = 0;
-      }).catch(() => {});
+  private removeUnlockListeners(): void {
+    const unlock = this.unlockHandler;
+    if (!unlock) return;
+
+    UNLOCK_EVENTS.forEach(event => {
+      document.body.removeEventListener(event, unlock);
     });
-    
-    // Try to resume audio context
-    if (this.audioContext && this.audioContext.state === 'suspended') {
-      this.audioContext.resume();
+    this.unlockHandler = null;
+  }
+
+  /**
+   * Stop all audio and close the audio context; the system can't play afterwards
+   */
+  destroy(): void {
+    this.removeUnlockListeners();
+    this.stopAllSounds();
+    // The sequencer schedules on a timer, which would outlive the context
+    this.sequencer?.disconnect();
+    this.sequencer = null;
+    this.clocks = [];
+    this.musicClock = null;
+    this.currentMusic = null;
+    this.pendingMusic = null;
+    this.cue = null;
+
+    if (this.audioContext && this.audioContext.state !== 'closed') {
+      this.audioContext.close();
     }
-    
-    this.unlocked = true;
-    this.events.emit('audio:unlocked', {});
+    this.audioContext = null;
+    this.busNodes.clear();
+  }
+
+  /**
+   * Attempt to unlock audio; must be called from a user gesture on mobile
+   */
+  unlockAudio(): Promise<void> {
+    if (this.unlocked || !this.audioContext) return Promise.resolve();
+
+    const context = this.audioContext;
+
+    // iOS only unlocks once a source has been started inside the gesture
+    const silent = context.createBufferSource();
+    silent.buffer = context.createBuffer(1, 1, 22050);
+    silent.connect(context.destination);
+    silent.start(0);
+
+    return context.resume().then(() => {
+      if (this.unlocked || context.state !== 'running') return;
+
+      this.unlocked = true;
+      this.events.emit('audio:unlocked', {});
+    }).catch(err => {
+      console.warn('[8BitGE] Audio unlock failed:', err);
+    });
   }
-  
+
   /**
    * Preload sounds from a dictionary
    */
@@ -328,50 +743,342 @@ export class AudioSystem {
       this.addSound(id, url);
     });
   }
-  
-  /**
-   * Fade in audio
-   */
-  private fadeIn(audio: HTMLAudioElement, targetVolume: number, duration: number): void {
-    const startTime = performance.now();
-    const initialVolume = audio.volume;
-    
-    const fade = () => {
-      const elapsed = (performance.now() - startTime) / 1000; // Convert to seconds
-      const progress = Math.min(elapsed / duration, 1);
-      
-      audio.volume = initialVolume + (targetVolume - initialVolume) * progress;
-      
-      if (progress < 1) {
-        requestAnimationFrame(fade);
+
+  /**
+   * Stop the current music from a time, ending its beats there
+   */
+  private endMusic(fadeOut: number, at: number): void {
+    this.pendingMusic = null;
+    if (!this.currentMusic) return;
+
+    this.currentMusic.stop(fadeOut, at);
+    this.currentMusic = null;
+
+    if (this.musicClock) {
+      this.musicClock.until = at;
+      this.musicClock = null;
+    }
+
+    // Emit event
+    this.events.emit('audio:musicStopped', {});
+  }
+
+  /**
+   * Get the time of the current music's next beat or bar (now when there is none)
+   */
+  private nextBoundary(quantize: MusicQuantize): number {
+    const now = this.audioContext ? this.audioContext.currentTime : 0;
+    const clock = this.musicClock;
+    if (quantize === 'none' || !clock) return now;
+
+    // Leave a moment to schedule the change
+    let beat = clock.beat + Math.ceil((now + 0.02 - clock.time) / clock.length);
+    if (quantize === 'bar') {
+      beat = Math.ceil(beat / clock.beatsPerBar) * clock.beatsPerBar;
+    }
+
+    return clock.time + (Math.max(beat, 0) - clock.beat) * clock.length;
+  }
+
+  /**
+   * Start a beat clock for the music starting at a time
+   */
+  private startClock(time: number, length: number, beatsPerBar: number): BeatClock {
+    const clock: BeatClock = { time, beat: 0, length, beatsPerBar, next: 0, until: null };
+    this.clocks.push(clock);
+    this.musicClock = clock;
+    return clock;
+  }
+
+  /**
+   * Keep a clock on the beats of a sequencer's rows, which follow tempo changes
+   */
+  private syncClock(clock: BeatClock, sequencer: Sequencer, song: Song): void {
+    sequencer.onRow = row => {
+      if (row.index % song.rowsPerBeat !== 0) return;
+
+      clock.time = row.time;
+      clock.beat = row.index / song.rowsPerBeat;
+      clock.length = sequencer.getRowDuration() * song.rowsPerBeat;
+    };
+  }
+
+  /**
+   * Create the master gain and the buses that feed it
+   */
+  private createBuses(context: AudioContext): void {
+    BUSES.forEach(bus => {
+      const node = context.createGain();
+      node.connect(bus === 'master' ? context.destination : this.busNodes.get('master')!);
+      this.busNodes.set(bus, node);
+      this.applyBusGain(bus, true);
+    });
+  }
+
+  /**
+   * Set a bus's gain node from its volume and mute state
+   */
+  private applyBusGain(bus: AudioBus, immediate: boolean = false): void {
+    const node = this.busNodes.get(bus);
+    if (!node || !this.audioContext) return;
+
+    const state = this.busState[bus];
+    const gain = state.muted ? 0 : state.volume;
+
+    if (immediate) {
+      node.gain.value = gain;
+    } else {
+      // A short glide avoids zipper noise
+      node.gain.setTargetAtTime(gain, this.audioContext.currentTime, VOICE_FADE);
+    }
+  }
+
+  /**
+   * Create a sound record, using the buffer straight away if one was given
+   */
+  private createRecord(source: string | AudioBuffer, options: Required<SoundOptions>): SoundRecord {
+    return {
+      buffer: typeof source === 'string' ? null : source,
+      options,
+      voices: []
+    };
+  }
+
+  /**
+   * Decode a record's URL through the shared asset cache
+   */
+  private async loadRecord(key: string, record: SoundRecord, source: string | AudioBuffer): Promise<void> {
+    if (typeof source !== 'string') return;
+
+    this.loader.unload(key);
+    await this.loader.load([{ id: key, type: 'audio', url: source }]);
+    record.buffer = this.loader.getAudio(key) || null;
+  }
+
+  /**
+   * Start a buffer source routed through a gain (and panner) into a bus
+   */
+  private startVoice(
+    id: string,
+    record: SoundRecord,
+    bus: AudioBus,
+    settings: { volume: number; playbackRate: number; pan: number; loop: boolean; fadeIn: number }
+  ): SoundVoice {
+    const context = this.audioContext!;
+    const now = context.currentTime;
+
+    const source = context.createBufferSource();
+    source.buffer = record.buffer;
+    source.loop = settings.loop;
+    source.playbackRate.value = settings.playbackRate;
+
+    const gain = context.createGain();
+    if (settings.fadeIn > 0) {
+      gain.gain.setValueAtTime(0, now);
+      gain.gain.linearRampToValueAtTime(settings.volume, now + settings.fadeIn);
+    } else {
+      gain.gain.value = settings.volume;
+    }
+    source.connect(gain);
+
+    // Older Safari has no StereoPannerNode, so panning is skipped there
+    let output: AudioNode = gain;
+    if (settings.pan !== 0 && typeof context.createStereoPanner === 'function') {
+      const panner = context.createStereoPanner();
+      panner.pan.value = clamp(settings.pan, -1, 1);
+      gain.connect(panner);
+      output = panner;
+    }
+    output.connect(this.busNodes.get(bus)!);
+
+    let stopped = false;
+    const release = () => {
+      const index = record.voices.indexOf(voice);
+      if (index !== -1) record.voices.splice(index, 1);
+    };
+
+    const voice: SoundVoice = {
+      id,
+      bus,
+      volume: settings.volume,
+      startedAt: now,
+      stop: (fadeOut: number = 0, at?: number) => {
+        if (stopped) return;
+        stopped = true;
+        release();
+
+        const time = Math.max(at ?? 0, context.currentTime);
+        if (fadeOut > 0) {
+          gain.gain.cancelScheduledValues(time);
+          gain.gain.setValueAtTime(gain.gain.value, time);
+          gain.gain.linearRampToValueAtTime(0, time + fadeOut);
+        }
+        source.stop(time + fadeOut);
+      }
+    };
+
+    source.onended = () => {
+      stopped = true;
+      release();
+      source.disconnect();
+      gain.disconnect();
+      if (output !== gain) output.disconnect();
+    };
+
+    record.voices.push(voice);
+    source.start();
+
+    return voice;
+  }
+
+  /**
+   * Start a song on its own sequencer, so a new song can crossfade with the old one
+   */
+  private startSong(id: string, song: Song, volume: number, fadeIn: number): SoundVoice {
+    const context = this.audioContext!;
+    const sequencer = new Sequencer(context, this.busNodes.get('music')!);
+
+    sequencer.load(song);
+    sequencer.setVolume(fadeIn > 0 ? 0 : volume);
+    const start = context.currentTime + 0.05;
+    sequencer.play(0, start);
+    if (fadeIn > 0) {
+      sequencer.setVolume(volume, fadeIn);
+    }
+
+    this.sequencer = sequencer;
+    const clock = this.startClock(start, sequencer.getRowDuration() * song.rowsPerBeat, song.beatsPerBar);
+    this.syncClock(clock, sequencer, song);
+
+    const voice: SoundVoice = {
+      id,
+      bus: 'music',
+      volume,
+      startedAt: context.currentTime,
+      stop: (fadeOut: number = 0, at?: number) => {
+        const time = Math.max(at ?? 0, context.currentTime);
+        sequencer.stop(fadeOut, time);
+        setTimeout(() => sequencer.disconnect(), (time + fadeOut - context.currentTime) * 1000 + 200);
+        if (this.sequencer === sequencer) this.sequencer = null;
+      }
+    };
+
+    sequencer.onEnd = () => {
+      if (this.currentMusic !== voice) return;
+      this.endMusic(0, context.currentTime);
+    };
+
+    return voice;
+  }
+
+  /**
+   * Start a cue's stems together at a time
+   */
+  private startCue(id: string, record: CueRecord, volume: number, fadeIn: number, at: number): SoundVoice {
+    const context = this.audioContext!;
+    const cue = record.cue;
+    const time = Math.max(at, context.currentTime);
+
+    const output = context.createGain();
+    output.connect(this.busNodes.get('music')!);
+    output.gain.setValueAtTime(fadeIn > 0 ? 0 : volume, time);
+    if (fadeIn > 0) {
+      output.gain.linearRampToValueAtTime(volume, time + fadeIn);
+    }
+
+    const playback: CuePlayback = { record, sequencer: null, stems: new Map() };
+    const sources: AudioBufferSourceNode[] = [];
+
+    if (cue.song) {
+      const sequencer = new Sequencer(context, output);
+      sequencer.load(cue.song);
+      sequencer.play(0, time);
+      playback.sequencer = sequencer;
+      this.sequencer = sequencer;
+
+      const clock = this.startClock(time, sequencer.getRowDuration() * cue.song.rowsPerBeat, cue.beatsPerBar ?? cue.song.beatsPerBar);
+      this.syncClock(clock, sequencer, cue.song);
+    } else if (cue.bpm) {
+      this.startClock(time, 60 / cue.bpm, cue.beatsPerBar ?? 4);
+    }
+
+    record.buffers.forEach((buffer, name) => {
+      if (!buffer) return;
+
+      const source = context.createBufferSource();
+      const gain = context.createGain();
+      source.buffer = buffer;
+      source.loop = true;
+      source.connect(gain);
+      gain.connect(output);
+      source.start(time);
+
+      sources.push(source);
+      playback.stems.set(name, gain);
+    });
+
+    this.cue = playback;
+    this.applyStemVolumes(playback, 0);
+
+    return {
+      id,
+      bus: 'music',
+      volume,
+      startedAt: time,
+      stop: (fadeOut: number = 0, stopAt?: number) => {
+        const end = Math.max(stopAt ?? 0, context.currentTime);
+
+        output.gain.cancelScheduledValues(end);
+        output.gain.setValueAtTime(output.gain.value, end);
+        output.gain.linearRampToValueAtTime(0, end + fadeOut);
+        sources.forEach(source => source.stop(end + fadeOut));
+        playback.sequencer?.stop(fadeOut, end);
+
+        setTimeout(() => {
+          playback.sequencer?.disconnect();
+          output.disconnect();
+        }, (end + fadeOut - context.currentTime) * 1000 + 200);
+
+        if (this.cue === playback) this.cue = null;
+        if (playback.sequencer && this.sequencer === playback.sequencer) this.sequencer = null;
       }
     };
-    
-    requestAnimationFrame(fade);
-  }
-  
-  /**
-   * Fade out audio
-   */
-  private fadeOut(audio: HTMLAudioElement, duration: number): Promise<void> {
-    return new Promise(resolve => {
-      const startTime = performance.now();
-      const initialVolume = audio.volume;
-      
-      const fade = () => {
-        const elapsed = (performance.now() - startTime) / 1000; // Convert to seconds
-        const progress = Math.min(elapsed / duration, 1);
-        
-        audio.volume = initialVolume * (1 - progress);
-        
-        if (progress < 1) {
-          requestAnimationFrame(fade);
+  }
+
+  /**
+   * Set each stem's volume from the music parameters
+   */
+  private applyStemVolumes(playback: CuePlayback, fadeTime: number): void {
+    const now = this.audioContext!.currentTime;
+
+    Object.entries(playback.record.cue.stems).forEach(([name, stem]) => {
+      const value = typeof stem.volume === 'function' ? stem.volume(this.musicParams) : (stem.volume ?? 1);
+      const volume = clamp(value, 0, 1);
+
+      const gain = playback.stems.get(name);
+      if (gain) {
+        gain.gain.cancelScheduledValues(now);
+        if (fadeTime > 0) {
+          gain.gain.setTargetAtTime(volume, now, fadeTime / 3);
         } else {
-          resolve();
+          gain.gain.setValueAtTime(volume, now);
         }
-      };
-      
-      requestAnimationFrame(fade);
+      }
+
+      stem.channels?.forEach(channel => playback.sequencer?.setChannelVolume(channel, volume, fadeTime));
     });
   }
-}
\ No newline at end of file
+
+  /**
+   * Pan for a world position: -1 at the left edge of the view, 1 at the right
+   */
+  private panFromPosition(position: Vector2D): number {
+    if (!this.listener) return 0;
+
+    const view = this.listener();
+    if (view.width <= 0) return 0;
+
+    const center = view.x + view.width / 2;
+    return clamp((position.x - center) / (view.width / 2), -1, 1) * this.options.panSpread;
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * Camera System for 8BitGE
+ * World-to-screen transform with target following, world bounds, zoom and
+ * trauma-based screen shake
+ */
+
+import type { GameEngine } from '../core';
+import { clamp, smoothDamp } from '../utils/math';
+import { Rect, Vector2D } from '../types';
+
+export interface CameraFollowOptions {
+  /** Screen-space box (in game units) the target can move in without the camera moving */
+  deadzone?: { width: number; height: number };
+  /** Approximate time in seconds to catch up with the target (0 snaps) */
+  smoothTime?: number;
+  /** Maximum camera speed in world units per second */
+  maxSpeed?: number;
+  /** Offset from the target to look at */
+  offset?: Vector2D;
+}
+
+export interface CameraShakeOptions {
+  /** Largest shake offset in game units at full trauma */
+  maxOffset?: number;
+  /** Largest shake rotation in degrees at full trauma */
+  maxAngle?: number;
+  /** Trauma lost per second */
+  decay?: number;
+  /** Shake speed */
+  frequency?: number;
+}
+
+type FollowTarget = Vector2D | { position: Vector2D };
+
+export class Camera {
+  /** World position at the center of the screen */
+  position: Vector2D;
+
+  private engine: GameEngine;
+  private zoom: number = 1;
+  private bounds: Rect | null = null;
+  private target: FollowTarget | null = null;
+  private follow: Required<Omit<CameraFollowOptions, 'deadzone'>> & { deadzone: { width: number; height: number } } = {
+    deadzone: { width: 0, height: 0 },
+    smoothTime: 0.15,
+    maxSpeed: Infinity,
+    offset: { x: 0, y: 0 }
+  };
+  private velocity = { x: { value: 0 }, y: { value: 0 } };
+  private trauma: number = 0;
+  private shake: Required<CameraShakeOptions> = {
+    maxOffset: 8,
+    maxAngle: 2,
+    decay: 1.5,
+    frequency: 20
+  };
+  private shakeTime: number = 0;
+  private shakeOffset: Vector2D = { x: 0, y: 0 };
+  private shakeAngle: number = 0;
+
+  constructor(engine: GameEngine) {
+    this.engine = engine;
+
+    // Centered on the default screen, so the camera starts as an identity transform
+    const { width, height } = engine.getConfig();
+    this.position = { x: width / 2, y: height / 2 };
+  }
+
+  /**
+   * Follow a point or entity
+   */
+  startFollow(target: FollowTarget, options: CameraFollowOptions = {}): void {
+    this.target = target;
+    this.follow = {
+      ...this.follow,
+      ...options,
+      deadzone: options.deadzone || this.follow.deadzone,
+      offset: options.offset || this.follow.offset
+    };
+    this.velocity.x.value = 0;
+    this.velocity.y.value = 0;
+  }
+
+  /**
+   * Stop following the current target
+   */
+  stopFollow(): void {
+    this.target = null;
+  }
+
+  /**
+   * Center the camera on a world position immediately
+   */
+  lookAt(point: Vector2D): void {
+    this.position = { x: point.x, y: point.y };
+    this.velocity.x.value = 0;
+    this.velocity.y.value = 0;
+    this.clampToBounds();
+  }
+
+  /**
+   * Limit the camera to a world area (null removes the limit)
+   */
+  setBounds(bounds: Rect | null): void {
+    this.bounds = bounds ? { ...bounds } : null;
+    this.clampToBounds();
+  }
+
+  /**
+   * Set the zoom level
+   * With pixelPerfect on, zoom snaps to whole multiples (or whole fractions below 1)
+   * so every world pixel covers the same number of screen pixels
+   */
+  setZoom(zoom: number): void {
+    zoom = Math.max(0.01, zoom);
+
+    if (this.engine.getConfig().pixelPerfect) {
+      zoom = zoom >= 1 ? Math.round(zoom) : 1 / Math.round(1 / zoom);
+    }
+
+    this.zoom = zoom;
+    this.clampToBounds();
+  }
+
+  /**
+   * Get the zoom level
+   */
+  getZoom(): number {
+    return this.zoom;
+  }
+
+  /**
+   * Configure screen shake
+   */
+  setShakeOptions(options: CameraShakeOptions): void {
+    this.shake = { ...this.shake, ...options };
+  }
+
+  /**
+   * Add trauma (0-1); shake strength grows with the square of trauma
+   */
+  addTrauma(amount: number): void {
+    this.trauma = clamp(this.trauma + amount, 0, 1);
+  }
+
+  /**
+   * Get the current trauma (0-1)
+   */
+  getTrauma(): number {
+    return this.trauma;
+  }
+
+  /**
+   * Get the world area visible on screen
+   */
+  getView(): Rect {
+    const { width, height } = this.engine.getConfig();
+    const viewWidth = width / this.zoom;
+    const viewHeight = height / this.zoom;
+
+    return {
+      x: this.position.x - viewWidth / 2,
+      y: this.position.y - viewHeight / 2,
+      width: viewWidth,
+      height: viewHeight
+    };
+  }
+
+  /**
+   * Follow the target, clamp to bounds and decay shake
+   * @param deltaTime Fixed timestep in seconds
+   */
+  update(deltaTime: number): void {
+    if (this.target) {
+      this.updateFollow(deltaTime);
+    }
+
+    this.clampToBounds();
+    this.updateShake(deltaTime);
+  }
+
+  /**
+   * Apply the world-to-screen transform to a context already scaled to game units
+   */
+  apply(context: CanvasRenderingContext2D): void {
+    const { width, height } = this.engine.getConfig();
+    let x = width / 2 - this.position.x * this.zoom;
+    let y = height / 2 - this.position.y * this.zoom;
+
+    // Keep world pixels on the pixel grid
+    if (this.engine.getConfig().pixelPerfect) {
+      x = Math.round(x);
+      y = Math.round(y);
+    }
+
+    context.translate(width / 2 + this.shakeOffset.x, height / 2 + this.shakeOffset.y);
+    context.rotate(this.shakeAngle);
+    context.translate(-width / 2, -height / 2);
+    context.translate(x, y);
+    context.scale(this.zoom, this.zoom);
+  }
+
+  /**
+   * Convert a world position to screen position (game units, ignoring shake)
+   */
+  worldToScreen(point: Vector2D): Vector2D {
+    const { width, height } = this.engine.getConfig();
+    return {
+      x: (point.x - this.position.x) * this.zoom + width / 2,
+      y: (point.y - this.position.y) * this.zoom + height / 2
+    };
+  }
+
+  /**
+   * Convert a screen position (game units) to world position, ignoring shake
+   */
+  screenToWorld(point: Vector2D): Vector2D {
+    const { width, height } = this.engine.getConfig();
+    return {
+      x: (point.x - width / 2) / this.zoom + this.position.x,
+      y: (point.y - height / 2) / this.zoom + this.position.y
+    };
+  }
+
+  /**
+   * Convert InputSystem pointer coordinates (mouse or touch) to world position
+   */
+  pointerToWorld(point: Vector2D): Vector2D {
+    return this.screenToWorld(this.engine.pointerToScreen(point));
+  }
+
+  /**
+   * Move towards the target, leaving it free to move inside the deadzone
+   */
+  private updateFollow(deltaTime: number): void {
+    const source = 'position' in this.target! ? this.target!.position : this.target!;
+    const target = {
+      x: source.x + this.follow.offset.x,
+      y: source.y + this.follow.offset.y
+    };
+
+    // Deadzone is in screen space, so it covers less of the world when zoomed in
+    const halfX = this.follow.deadzone.width / 2 / this.zoom;
+    const halfY = this.follow.deadzone.height / 2 / this.zoom;
+    const desired = { ...this.position };
+
+    if (target.x < this.position.x - halfX) desired.x = target.x + halfX;
+    else if (target.x > this.position.x + halfX) desired.x = target.x - halfX;
+    if (target.y < this.position.y - halfY) desired.y = target.y + halfY;
+    else if (target.y > this.position.y + halfY) desired.y = target.y - halfY;
+
+    if (this.follow.smoothTime <= 0) {
+      this.position = desired;
+      return;
+    }
+
+    this.position = {
+      x: smoothDamp(this.position.x, desired.x, this.velocity.x, this.follow.smoothTime, deltaTime, this.follow.maxSpeed),
+      y: smoothDamp(this.position.y, desired.y, this.velocity.y, this.follow.smoothTime, deltaTime, this.follow.maxSpeed)
+    };
+  }
+
+  /**
+   * Keep the view inside the bounds (centered when the bounds are smaller than the view)
+   */
+  private clampToBounds(): void {
+    if (!this.bounds) return;
+
+    const view = this.getView();
+    const halfWidth = view.width / 2;
+    const halfHeight = view.height / 2;
+
+    this.position.x = view.width >= this.bounds.width
+      ? this.bounds.x + this.bounds.width / 2
+      : clamp(this.position.x, this.bounds.x + halfWidth, this.bounds.x + this.bounds.width - halfWidth);
+    this.position.y = view.height >= this.bounds.height
+      ? this.bounds.y + this.bounds.height / 2
+      : clamp(this.position.y, this.bounds.y + halfHeight, this.bounds.y + this.bounds.height - halfHeight);
+  }
+
+  /**
+   * Decay trauma and compute this step's shake offset and angle
+   */
+  private updateShake(deltaTime: number): void {
+    this.trauma = Math.max(0, this.trauma - this.shake.decay * deltaTime);
+
+    if (this.trauma === 0) {
+      this.shakeOffset = { x: 0, y: 0 };
+      this.shakeAngle = 0;
+      return;
+    }
+
+    this.shakeTime += deltaTime * this.shake.frequency;
+    const strength = this.trauma * this.trauma;
+
+    this.shakeOffset = {
+      x: this.shake.maxOffset * strength * this.noise(1),
+      y: this.shake.maxOffset * strength * this.noise(2)
+    };
+    this.shakeAngle = this.shake.maxAngle * strength * this.noise(3) * Math.PI / 180;
+  }
+
+  /**
+   * Smooth pseudo-noise in -1..1 for one shake channel
+   */
+  private noise(seed: number): number {
+    const t = this.shakeTime + seed * 17.31;
+    return (Math.sin(t) + Math.sin(t * 2.17 + seed) * 0.5 + Math.sin(t * 4.73 + seed * 3) * 0.25) / 1.75;
+  }
+}
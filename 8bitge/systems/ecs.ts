@@ -0,0 +1,448 @@
+/**
+ * Entity-Component-System layer for 8BitGE
+ * Numeric entity ids, typed component stores and systems that run in ordered
+ * phases. Entities added through GameEngine.addEntity are mirrored into the
+ * world with components that share their position, velocity and collider.
+ */
+
+import type { GameEngine } from '../core';
+import { EventEmitter } from '../utils/eventEmitter';
+import { AnimationFrame, drawFrame } from '../utils/animation';
+import { EngineEvents, Entity, Rect, Vector2D } from '../types';
+
+export type EntityId = number;
+
+/**
+ * Token identifying a component type and the shape of its data
+ */
+export interface ComponentType<T> {
+  readonly name: string;
+  /** Phantom field carrying the data type; never set at runtime */
+  readonly __data?: T;
+}
+
+/**
+ * Define a new component type
+ */
+export function defineComponent<T>(name: string): ComponentType<T> {
+  return { name };
+}
+
+/**
+ * Order in which system phases run each step
+ */
+export enum SystemPhase {
+  PRE_UPDATE = 'preUpdate',
+  UPDATE = 'update',
+  POST_UPDATE = 'postUpdate',
+  RENDER = 'render'
+}
+
+const UPDATE_PHASES = [SystemPhase.PRE_UPDATE, SystemPhase.UPDATE, SystemPhase.POST_UPDATE];
+
+/**
+ * Components an entity must have (`all`) and must not have (`none`)
+ */
+export interface Query {
+  all: ComponentType<any>[];
+  none?: ComponentType<any>[];
+}
+
+export interface System {
+  /** Unique name of the system */
+  name: string;
+  /** Phase the system runs in (defaults to update) */
+  phase?: SystemPhase;
+  /** Order within the phase, lower runs first */
+  priority?: number;
+  /** Components the system operates on */
+  query: Query;
+  /** Called each fixed step with the matching entities */
+  update?: (entities: EntityId[], world: World, deltaTime: number) => void;
+  /** Called once per layer while rendering (render phase only) */
+  render?: (entities: EntityId[], world: World, context: CanvasRenderingContext2D, layer: string) => void;
+}
+
+// Built-in components
+
+export interface TransformComponent {
+  position: Vector2D;
+  /** Rotation in degrees */
+  rotation: number;
+  scale: Vector2D;
+}
+
+export interface SpriteComponent {
+  /** Image or spritesheet to draw from (a colored rect is drawn otherwise) */
+  image?: HTMLImageElement;
+  /** Source frame in the image (defaults to the whole image) */
+  frame?: AnimationFrame;
+  width: number;
+  height: number;
+  color?: string;
+  /** Render layer to draw on (defaults to entities) */
+  layer?: string;
+  zIndex?: number;
+  alpha?: number;
+  flipX?: boolean;
+  flipY?: boolean;
+  visible?: boolean;
+}
+
+export interface LifetimeComponent {
+  /** Seconds left before the entity is destroyed */
+  remaining: number;
+}
+
+export const Transform = defineComponent<TransformComponent>('transform');
+export const Velocity = defineComponent<Vector2D>('velocity');
+/** Collider rect, offset relative to the transform position */
+export const Collider = defineComponent<Rect>('collider');
+export const Sprite = defineComponent<SpriteComponent>('sprite');
+export const Lifetime = defineComponent<LifetimeComponent>('lifetime');
+/** Back-reference to an object entity added through GameEngine.addEntity */
+export const EntityRef = defineComponent<Entity>('entityRef');
+
+export class World {
+  private events: EventEmitter<EngineEvents>;
+  private engine: GameEngine;
+  private nextId: EntityId = 1;
+  private alive: Set<EntityId> = new Set();
+  private stores: Map<ComponentType<any>, Map<EntityId, any>> = new Map();
+  private systems: System[] = [];
+  private objectIds: Map<Entity, { id: EntityId; scene?: string }> = new Map();
+
+  constructor(events: EventEmitter<EngineEvents>, engine: GameEngine) {
+    this.events = events;
+    this.engine = engine;
+
+    // Mirror object entities as they are added to or removed from the engine
+    this.events.on('entityAdded', ({ entity, scene }) => this.attachObject(entity, scene));
+    this.events.on('entityRemoved', ({ entity }) => this.detachObject(entity));
+
+    // Resetting the engine drops its entity list without removal events
+    this.events.on('gameReset', () => this.detachEngineObjects());
+
+    this.addSystem(MovementSystem);
+    this.addSystem(LifetimeSystem);
+    this.addSystem(SpriteRenderSystem);
+  }
+
+  /**
+   * Create a new entity
+   */
+  createEntity(): EntityId {
+    const id = this.nextId++;
+    this.alive.add(id);
+    this.events.emit('ecs:entityCreated', { id });
+    return id;
+  }
+
+  /**
+   * Destroy an entity and all of its components
+   * Object entities are also removed from the engine (or their scene)
+   */
+  destroyEntity(id: EntityId): void {
+    if (!this.alive.has(id)) return;
+
+    const object = this.getComponent(id, EntityRef);
+    this.alive.delete(id);
+    this.stores.forEach(store => store.delete(id));
+
+    if (object) {
+      const mirror = this.objectIds.get(object);
+      this.objectIds.delete(object);
+
+      if (mirror?.scene) {
+        this.engine.scenes.removeEntity(object, mirror.scene);
+      } else {
+        this.engine.removeEntity(object);
+      }
+    }
+
+    this.events.emit('ecs:entityDestroyed', { id });
+  }
+
+  /**
+   * Check if an entity exists
+   */
+  exists(id: EntityId): boolean {
+    return this.alive.has(id);
+  }
+
+  /**
+   * Get the number of live entities
+   */
+  getEntityCount(): number {
+    return this.alive.size;
+  }
+
+  /**
+   * Attach a component to an entity, replacing any existing one of that type
+   */
+  addComponent<T>(id: EntityId, type: ComponentType<T>, data: T): T {
+    if (!this.alive.has(id)) {
+      throw new Error(`[8BitGE] Cannot add ${type.name} to missing entity ${id}`);
+    }
+
+    this.getStore(type).set(id, data);
+    return data;
+  }
+
+  /**
+   * Get an entity's component
+   */
+  getComponent<T>(id: EntityId, type: ComponentType<T>): T | undefined {
+    return this.stores.get(type)?.get(id);
+  }
+
+  /**
+   * Check if an entity has a component
+   */
+  hasComponent(id: EntityId, type: ComponentType<any>): boolean {
+    return this.stores.get(type)?.has(id) ?? false;
+  }
+
+  /**
+   * Remove a component from an entity
+   */
+  removeComponent(id: EntityId, type: ComponentType<any>): void {
+    this.stores.get(type)?.delete(id);
+  }
+
+  /**
+   * Get all entities matching a query
+   */
+  query(query: Query): EntityId[] {
+    if (query.all.length === 0) return [];
+
+    // Iterate the smallest store and check the rest against it
+    const stores = query.all.map(type => this.getStore(type));
+    stores.sort((a, b) => a.size - b.size);
+
+    const excluded = (query.none || []).map(type => this.getStore(type));
+    const result: EntityId[] = [];
+
+    stores[0].forEach((_, id) => {
+      for (let i = 1; i < stores.length; i++) {
+        if (!stores[i].has(id)) return;
+      }
+      for (const store of excluded) {
+        if (store.has(id)) return;
+      }
+      result.push(id);
+    });
+
+    return result;
+  }
+
+  /**
+   * Get the entity id mirroring an object entity
+   */
+  getEntityId(entity: Entity): EntityId | undefined {
+    return this.objectIds.get(entity)?.id;
+  }
+
+  /**
+   * Register a system, replacing any system with the same name
+   */
+  addSystem(system: System): void {
+    this.systems = this.systems.filter(s => s.name !== system.name);
+    this.systems.push(system);
+    this.systems.sort((a, b) => (a.priority || 0) - (b.priority || 0));
+  }
+
+  /**
+   * Remove a system by name
+   */
+  removeSystem(name: string): void {
+    this.systems = this.systems.filter(s => s.name !== name);
+  }
+
+  /**
+   * Get a registered system by name
+   */
+  getSystem(name: string): System | undefined {
+    return this.systems.find(s => s.name === name);
+  }
+
+  /**
+   * Run the update phases in order
+   * @param deltaTime Fixed timestep in seconds
+   */
+  update(deltaTime: number): void {
+    for (const phase of UPDATE_PHASES) {
+      for (const system of this.systems) {
+        if ((system.phase || SystemPhase.UPDATE) !== phase || !system.update) continue;
+        system.update(this.query(system.query), this, deltaTime);
+      }
+    }
+  }
+
+  /**
+   * Run render-phase systems for one render layer
+   */
+  render(context: CanvasRenderingContext2D, layer: string): void {
+    for (const system of this.systems) {
+      if (system.phase !== SystemPhase.RENDER || !system.render) continue;
+      system.render(this.query(system.query), this, context, layer);
+    }
+  }
+
+  /**
+   * Destroy every entity (object entities stay in the engine)
+   */
+  clear(): void {
+    this.alive.clear();
+    this.stores.forEach(store => store.clear());
+    this.objectIds.clear();
+  }
+
+  /**
+   * Get or create the store for a component type
+   */
+  private getStore<T>(type: ComponentType<T>): Map<EntityId, T> {
+    let store = this.stores.get(type);
+    if (!store) {
+      store = new Map();
+      this.stores.set(type, store);
+    }
+    return store;
+  }
+
+  /**
+   * Mirror an object entity with components that share its data
+   */
+  private attachObject(entity: Entity, scene?: string): void {
+    if (this.objectIds.has(entity)) return;
+
+    const id = this.createEntity();
+    this.objectIds.set(entity, { id, scene });
+    entity.entityId = id;
+
+    this.addComponent(id, EntityRef, entity);
+    this.addComponent(id, Transform, {
+      position: entity.position,
+      rotation: entity.rotation || 0,
+      scale: { x: 1, y: 1 }
+    });
+
+    if (entity.velocity) {
+      this.addComponent(id, Velocity, entity.velocity);
+    }
+    if (entity.collider) {
+      this.addComponent(id, Collider, entity.collider);
+    }
+  }
+
+  /**
+   * Drop the mirror of an object entity that left the engine
+   */
+  private detachObject(entity: Entity): void {
+    const mirror = this.objectIds.get(entity);
+    if (!mirror) return;
+
+    this.objectIds.delete(entity);
+    this.alive.delete(mirror.id);
+    this.stores.forEach(store => store.delete(mirror.id));
+    this.events.emit('ecs:entityDestroyed', { id: mirror.id });
+  }
+
+  /**
+   * Drop the mirrors of object entities that belonged to the engine rather than a scene
+   */
+  private detachEngineObjects(): void {
+    const detached: Entity[] = [];
+    this.objectIds.forEach((mirror, entity) => {
+      if (!mirror.scene) detached.push(entity);
+    });
+    detached.forEach(entity => this.detachObject(entity));
+  }
+}
+
+// Built-in systems
+
+/**
+ * Moves transforms by their velocity
+ * Object entities move themselves in their own update, so they are skipped
+ */
+export const MovementSystem: System = {
+  name: 'movement',
+  phase: SystemPhase.UPDATE,
+  query: { all: [Transform, Velocity], none: [EntityRef] },
+  update: (entities, world, deltaTime) => {
+    for (const id of entities) {
+      const transform = world.getComponent(id, Transform)!;
+      const velocity = world.getComponent(id, Velocity)!;
+      transform.position.x += velocity.x * deltaTime;
+      transform.position.y += velocity.y * deltaTime;
+    }
+  }
+};
+
+/**
+ * Counts down lifetimes and destroys expired entities
+ */
+export const LifetimeSystem: System = {
+  name: 'lifetime',
+  phase: SystemPhase.POST_UPDATE,
+  query: { all: [Lifetime] },
+  update: (entities, world, deltaTime) => {
+    for (const id of entities) {
+      const lifetime = world.getComponent(id, Lifetime)!;
+      lifetime.remaining -= deltaTime;
+      if (lifetime.remaining <= 0) {
+        world.destroyEntity(id);
+      }
+    }
+  }
+};
+
+/**
+ * Draws sprites at their transform on the sprite's layer
+ */
+export const SpriteRenderSystem: System = {
+  name: 'spriteRender',
+  phase: SystemPhase.RENDER,
+  query: { all: [Transform, Sprite] },
+  render: (entities, world, ctx, layer) => {
+    const sprites: Array<{ transform: TransformComponent; sprite: SpriteComponent }> = [];
+
+    for (const id of entities) {
+      const sprite = world.getComponent(id, Sprite)!;
+      if (sprite.visible === false || (sprite.layer || 'entities') !== layer) continue;
+      sprites.push({ transform: world.getComponent(id, Transform)!, sprite });
+    }
+
+    sprites.sort((a, b) => (a.sprite.zIndex || 0) - (b.sprite.zIndex || 0));
+
+    for (const { transform, sprite } of sprites) {
+      ctx.save();
+      ctx.globalAlpha = sprite.alpha ?? 1;
+      ctx.translate(transform.position.x, transform.position.y);
+      ctx.rotate(transform.rotation * Math.PI / 180);
+      ctx.scale(
+        transform.scale.x * (sprite.flipX ? -1 : 1),
+        transform.scale.y * (sprite.flipY ? -1 : 1)
+      );
+
+      const anchor = sprite.frame?.anchor ?? { x: 0.5, y: 0.5 };
+      const dx = -sprite.width * anchor.x;
+      const dy = -sprite.height * anchor.y;
+
+      if (sprite.image) {
+        const frame = sprite.frame;
+        if (frame) {
+          drawFrame(ctx, sprite.image, frame, dx, dy, sprite.width, sprite.height);
+        } else {
+          ctx.drawImage(sprite.image, dx, dy, sprite.width, sprite.height);
+        }
+      } else {
+        ctx.fillStyle = sprite.color || '#fff';
+        ctx.fillRect(dx, dy, sprite.width, sprite.height);
+      }
+
+      ctx.restore();
+    }
+  }
+};
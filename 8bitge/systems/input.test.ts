@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, expect, mock, test } from 'bun:test';
+import { InputSystem } from './input';
+import { EventEmitter } from '../utils/eventEmitter';
+import { EngineEvents, GamepadButton } from '../types';
+
+interface PadOptions {
+  id?: string;
+  mapping?: GamepadMappingType;
+  /** Button values by index (standard pads have 17) */
+  buttons?: number[];
+  axes?: number[];
+  actuator?: Partial<GamepadHapticActuator>;
+}
+
+/**
+ * A connected pad as navigator.getGamepads() would report it
+ */
+function createPad(index: number, options: PadOptions = {}): Gamepad {
+  const values = options.buttons || new Array(17).fill(0);
+  return {
+    index,
+    id: options.id || `Test Pad ${index}`,
+    connected: true,
+    mapping: options.mapping ?? 'standard',
+    timestamp: 0,
+    axes: options.axes || [0, 0, 0, 0],
+    buttons: values.map(value => ({ value, pressed: value > 0.5, touched: value > 0 })),
+    vibrationActuator: options.actuator
+  } as unknown as Gamepad;
+}
+
+/**
+ * Standard button values with the given buttons held
+ */
+function held(...buttons: GamepadButton[]): number[] {
+  const values = new Array(17).fill(0);
+  buttons.forEach(button => values[button] = 1);
+  return values;
+}
+
+describe('InputSystem gamepads', () => {
+  let pads: (Gamepad | null)[];
+  let events: EventEmitter<EngineEvents>;
+  let input: InputSystem;
+  const originalGetGamepads = navigator.getGamepads;
+
+  beforeEach(() => {
+    pads = [];
+    navigator.getGamepads = () => pads;
+    events = new EventEmitter<EngineEvents>();
+    input = new InputSystem(events);
+  });
+
+  afterEach(() => {
+    navigator.getGamepads = originalGetGamepads;
+  });
+
+  test('connects pads into free player slots and frees them on disconnect', () => {
+    const connected: EngineEvents['input:gamepadconnected'][] = [];
+    const disconnected: EngineEvents['input:gamepaddisconnected'][] = [];
+    events.on('input:gamepadconnected', event => connected.push(event));
+    events.on('input:gamepaddisconnected', event => disconnected.push(event));
+
+    pads = [createPad(0), createPad(1)];
+    input.update();
+    expect(connected).toEqual([
+      { index: 0, player: 0, id: 'Test Pad 0' },
+      { index: 1, player: 1, id: 'Test Pad 1' }
+    ]);
+    expect(input.getGamepads().map(pad => pad.index)).toEqual([0, 1]);
+
+    pads = [null, createPad(1)];
+    input.update();
+    expect(disconnected).toEqual([{ index: 0, player: 0, id: 'Test Pad 0' }]);
+    expect(input.getGamepad(0)).toBeNull();
+    expect(input.getGamepad(1)?.index).toBe(1);
+
+    // A new pad takes the first free slot
+    pads = [null, createPad(1), createPad(2)];
+    input.update();
+    expect(connected[2]).toEqual({ index: 2, player: 0, id: 'Test Pad 2' });
+  });
+
+  test('assignPlayer swaps two pads', () => {
+    pads = [createPad(0), createPad(1)];
+    input.update();
+
+    input.assignPlayer(1, 0);
+    expect(input.getGamepad(0)?.index).toBe(1);
+    expect(input.getGamepad(1)?.index).toBe(0);
+    expect(input.getGamepads().map(pad => pad.player)).toEqual([0, 1]);
+    expect(input.getGamepads().map(pad => pad.index)).toEqual([1, 0]);
+  });
+
+  test('applies a radial dead zone and rescales sticks to reach 1', () => {
+    // Inside the default 0.15 dead zone
+    pads = [createPad(0, { axes: [0.1, 0.1, 0, 0] })];
+    input.update();
+    expect(input.getGamepad(0)!.leftStick).toEqual({ x: 0, y: 0 });
+
+    // Outside it diagonally, though each axis alone is inside
+    pads = [createPad(0, { axes: [0.12, 0.12, 0, 0] })];
+    input.update();
+    const diagonal = (0.12 * Math.SQRT2 - 0.15) / 0.85 * Math.SQRT1_2;
+    expect(input.getGamepad(0)!.leftStick.x).toBeCloseTo(diagonal);
+    expect(input.getGamepad(0)!.leftStick.y).toBeCloseTo(diagonal);
+
+    pads = [createPad(0, { axes: [0.575, 0, 0, -1] })];
+    input.update();
+    const state = input.getGamepad(0)!;
+    expect(state.leftStick.x).toBeCloseTo(0.5);
+    expect(state.leftStick.y).toBe(0);
+    expect(state.rightStick.y).toBeCloseTo(-1);
+
+    // Diagonals are clamped to unit length
+    pads = [createPad(0, { axes: [1, 1, 0, 0] })];
+    input.update();
+    expect(input.getGamepad(0)!.leftStick.x).toBeCloseTo(Math.SQRT1_2);
+    expect(input.getGamepad(0)!.leftStick.y).toBeCloseTo(Math.SQRT1_2);
+  });
+
+  test('maps non-standard triggers, right stick and d-pad hat', () => {
+    // Left trigger released (-1), right stick x on axis 3, right trigger fully pulled, hat pushed up and right
+    pads = [createPad(0, { mapping: '', buttons: [0, 0, 0, 0], axes: [0, 0, -1, 1, 0, 1, 1, -1] })];
+    input.update();
+
+    const state = input.getGamepad(0)!;
+    expect(state.standard).toBe(false);
+    expect(state.leftTrigger).toBe(0);
+    expect(state.rightTrigger).toBe(1);
+    expect(state.rightStick).toEqual({ x: 1, y: 0 });
+    expect(state.buttons[GamepadButton.LEFT_TRIGGER]).toBe(false);
+    expect(state.buttons[GamepadButton.RIGHT_TRIGGER]).toBe(true);
+    expect(state.buttons[GamepadButton.DPAD_UP]).toBe(true);
+    expect(state.buttons[GamepadButton.DPAD_RIGHT]).toBe(true);
+    expect(state.buttons[GamepadButton.DPAD_DOWN]).toBe(false);
+    expect(state.buttons[GamepadButton.DPAD_LEFT]).toBe(false);
+    expect(state.buttons).toHaveLength(17);
+  });
+
+  test('reports button edges through wasPressed and wasReleased', () => {
+    pads = [createPad(0)];
+    input.update();
+    expect(input.wasPressed(`gamepad:${GamepadButton.A}`)).toBe(false);
+
+    pads = [createPad(0, { buttons: held(GamepadButton.A) })];
+    input.update();
+    expect(input.wasPressed(`gamepad:${GamepadButton.A}`)).toBe(true);
+    expect(input.isGamepadButtonDown(GamepadButton.A, 0)).toBe(true);
+
+    // Held, so not pressed again
+    input.update();
+    expect(input.wasPressed(`gamepad:${GamepadButton.A}`)).toBe(false);
+
+    pads = [createPad(0)];
+    input.update();
+    expect(input.wasReleased(`gamepad:${GamepadButton.A}`)).toBe(true);
+    expect(input.isGamepadButtonDown(GamepadButton.A)).toBe(false);
+  });
+
+  test('vibrate resolves false without an actuator', async () => {
+    pads = [createPad(0)];
+    input.update();
+    expect(input.getGamepad(0)!.vibration).toBe(false);
+    expect(await input.vibrate(0)).toBe(false);
+
+    // Empty player slot
+    expect(await input.vibrate(1)).toBe(false);
+  });
+
+  test('vibrate plays a dual-rumble effect on the actuator', async () => {
+    const playEffect = mock(() => Promise.resolve('complete' as GamepadHapticsResult));
+    pads = [createPad(0, { actuator: { playEffect } })];
+    input.update();
+
+    expect(input.getGamepad(0)!.vibration).toBe(true);
+    expect(await input.vibrate(0, { duration: 100 })).toBe(true);
+    expect(playEffect).toHaveBeenCalledWith('dual-rumble', {
+      startDelay: 0,
+      duration: 100,
+      strongMagnitude: 1,
+      weakMagnitude: 0.5
+    });
+  });
+});
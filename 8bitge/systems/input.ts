@@ -1,16 +1,43 @@
 /**
  * Input System for 8BitGE
- * Handles keyboard, mouse, touch, and gamepad input
+ * Handles keyboard, mouse, touch, and gamepad input, recognizes gestures,
+ * and maps input to named actions and axes that players can rebind
  */
 
 import { EventEmitter } from '../utils/eventEmitter';
-import { InputState, Vector2D } from '../types';
+import { GestureRecognizer, MOUSE_POINTER } from '../utils/gestures';
+import type { StorageSystem } from './storage';
+import {
+  ActionBinding,
+  ActionState,
+  AxisBinding,
+  EngineEvents,
+  GamepadButton,
+  GamepadState,
+  InputBindings,
+  InputOptions,
+  InputState,
+  Rect,
+  ReplayInput,
+  RumbleOptions,
+  SwipeDirection,
+  Vector2D
+} from '../types';
 
-export interface InputOptions {
-  preventDefaults?: boolean;
-  enableSwipe?: boolean;
-  preventScroll?: boolean;
-}
+/** Storage key for players' rebinds */
+const BINDINGS_KEY = 'inputBindings';
+
+/** How far a stick must be pushed to press an action bound to it */
+const AXIS_THRESHOLD = 0.5;
+
+/** Triggers pressed further than this count as pressed buttons */
+const TRIGGER_THRESHOLD = 0.1;
+
+/** Number of buttons in the standard gamepad mapping */
+const STANDARD_BUTTONS = 17;
+
+/** Mouse buttons by MouseEvent.button */
+const MOUSE_BUTTONS: Record<number, 'left' | 'middle' | 'right'> = { 0: 'left', 1: 'middle', 2: 'right' };
 
 export interface VirtualJoystickOptions {
   size: number;
@@ -20,7 +47,7 @@ export interface VirtualJoystickOptions {
 }
 
 export class InputSystem {
-  private events: EventEmitter;
+  private events: EventEmitter<EngineEvents>;
   private options: InputOptions;
   private inputState: InputState;
   private element: HTMLElement | null = null;
@@ -41,24 +68,63 @@ export class InputSystem {
   private boundHandleTouchStart: (e: TouchEvent) => void;
   private boundHandleTouchMove: (e: TouchEvent) => void;
   private boundHandleTouchEnd: (e: TouchEvent) => void;
-  private swipeData: {
-    startX: number;
-    startY: number;
-    startTime: number;
-    endX: number;
-    endY: number;
-    endTime: number;
-  } | null = null;
-  private swipeThreshold = 50; // Minimum distance for swipe
-  private swipeTimeThreshold = 300; // Maximum time for swipe (ms)
+  private gestures: GestureRecognizer;
+  
+  // Action mapping
+  private actions: Map<string, ActionBinding[]> = new Map();
+  private axes: Map<string, AxisBinding[]> = new Map();
+  private defaultBindings: { actions: Record<string, ActionBinding[]>; axes: Record<string, AxisBinding[]> } = { actions: {}, axes: {} };
+  private actionStates: Map<string, ActionState> = new Map();
+  private axisValues: Map<string, number> = new Map();
+  private storage: StorageSystem | null = null;
+  private capture: ((binding: ActionBinding | null) => void) | null = null;
+  // Presses and releases arrive between updates; each update takes the ones
+  // since the last, so taps shorter than a frame still register
+  private pendingPresses: Set<string> = new Set();
+  private pendingReleases: Set<string> = new Set();
+  private pendingTaps: Vector2D[] = [];
+  private pendingSwipes: Set<SwipeDirection> = new Set();
+  private presses: Set<string> = new Set();
+  private releases: Set<string> = new Set();
+  private taps: Vector2D[] = [];
+  private swipes: Set<SwipeDirection> = new Set();
+  private heldSince: Map<string, number> = new Map();
+  private buffer: Array<{ name: string; action: boolean; time: number }> = [];
   
-  constructor(events: EventEmitter, options: InputOptions = {}) {
+  // Gamepads by navigator index, and the pad index in each player slot
+  private gamepads: Map<number, { pad: Gamepad; state: GamepadState }> = new Map();
+  private players: Array<number | null> = [];
+  
+  // Recording and replay
+  private live: boolean = true;
+  private recorder: ((input: ReplayInput) => void) | null = null;
+  private clock: (() => number) | null = null;
+  private replayScale: Vector2D = { x: 1, y: 1 };
+  private replayPads: Map<number, Gamepad> = new Map();
+  private replayJoystick: Vector2D = { x: 0, y: 0 };
+  private recordedPads: Map<number, string> = new Map();
+  
+  constructor(events: EventEmitter<EngineEvents>, options: InputOptions = {}) {
     this.events = events;
     this.options = {
       preventDefaults: options.preventDefaults ?? true,
       enableSwipe: options.enableSwipe ?? true,
-      preventScroll: options.preventScroll ?? false
+      preventScroll: options.preventScroll ?? false,
+      gamepadDeadZone: options.gamepadDeadZone ?? 0.15,
+      maxPlayers: options.maxPlayers ?? 4,
+      bufferWindow: options.bufferWindow ?? 150
     };
+    this.players = new Array(this.options.maxPlayers).fill(null);
+    this.gestures = new GestureRecognizer(events, options.gestures, this.options.enableSwipe, direction => {
+      this.pendingSwipes.add(direction);
+      if (this.capture) {
+        this.capture({ type: 'swipe', direction });
+      }
+    });
+    
+    if (options.bindings) {
+      this.defineBindings(options.bindings);
+    }
     
     // Initialize input state
     this.inputState = {
@@ -72,7 +138,8 @@ export class InputSystem {
           right: false
         }
       },
-      touches: []
+      touches: [],
+      gamepads: []
     };
     
     // Bind event handlers to maintain context
@@ -136,13 +203,59 @@ export class InputSystem {
     
     // Remove virtual joystick if exists
     this.removeVirtualJoystick();
+    
+    // Drop pending long presses
+    this.gestures.destroy();
   }
   
   /**
-   * Update input state (called each frame)
+   * Update action and axis states (called each update step)
    */
   update(): void {
-    // No per-frame updates needed currently
+    this.pollGamepads();
+    this.gestures.update();
+    
+    this.presses = this.pendingPresses;
+    this.releases = this.pendingReleases;
+    this.taps = this.pendingTaps;
+    this.swipes = this.pendingSwipes;
+    this.pendingPresses = new Set();
+    this.pendingReleases = new Set();
+    this.pendingTaps = [];
+    this.pendingSwipes = new Set();
+    
+    this.actions.forEach((bindings, action) => {
+      const state = this.actionStates.get(action) || { pressed: false, justPressed: false, justReleased: false };
+      const pressed = bindings.some(binding => this.isBindingActive(binding));
+      
+      state.justPressed = pressed && !state.pressed;
+      state.justReleased = !pressed && state.pressed;
+      state.pressed = pressed;
+      this.actionStates.set(action, state);
+      
+      if (state.justPressed) {
+        this.buffer.push({ name: action, action: true, time: this.now() });
+      }
+      if (state.justPressed || state.justReleased) {
+        this.events.emit('input:action', { action, pressed });
+      }
+    });
+    
+    this.axes.forEach((bindings, axis) => {
+      // The binding pushed furthest wins
+      let value = 0;
+      for (const binding of bindings) {
+        const bindingValue = this.getBindingValue(binding);
+        if (Math.abs(bindingValue) > Math.abs(value)) {
+          value = bindingValue;
+        }
+      }
+      this.axisValues.set(axis, value);
+    });
+    
+    // Drop buffered presses that are too old to act on
+    const oldest = this.now() - this.options.bufferWindow!;
+    this.buffer = this.buffer.filter(entry => entry.time >= oldest);
   }
   
   /**
@@ -159,6 +272,54 @@ export class InputSystem {
     return !!this.inputState.keyboard[key];
   }
   
+  /**
+   * Check if an input was pressed since the last update
+   * Inputs are keys, 'mouse:left', 'mouse:middle', 'mouse:right', 'touch' and 'gamepad:<button>'
+   */
+  wasPressed(input: string): boolean {
+    return this.presses.has(input);
+  }
+  
+  /**
+   * Check if an input was released since the last update
+   */
+  wasReleased(input: string): boolean {
+    return this.releases.has(input);
+  }
+  
+  /**
+   * Get how long an input has been held in milliseconds (0 when not held)
+   */
+  getHeldDuration(input: string): number {
+    const since = this.heldSince.get(input);
+    return since !== undefined ? this.now() - since : 0;
+  }
+  
+  /**
+   * Take the oldest buffered press of any of the inputs
+   * Presses stay buffered for the buffer window, so one made slightly early
+   * (during a move or an animation) still counts, and every press of a fast
+   * double-tap is kept
+   */
+  consumePress(inputs: string | string[], window: number = this.options.bufferWindow!): boolean {
+    const names = Array.isArray(inputs) ? inputs : [inputs];
+    return this.consumeBuffered(entry => !entry.action && names.includes(entry.name), window);
+  }
+  
+  /**
+   * Take the oldest buffered press of an action
+   */
+  consumeAction(action: string, window: number = this.options.bufferWindow!): boolean {
+    return this.consumeBuffered(entry => entry.action && entry.name === action, window);
+  }
+  
+  /**
+   * Forget every buffered press
+   */
+  clearBuffer(): void {
+    this.buffer = [];
+  }
+  
   /**
    * Check if any key in the provided array is pressed
    */
@@ -166,11 +327,335 @@ export class InputSystem {
     return keys.some(key => this.isKeyDown(key));
   }
   
+  /**
+   * Define actions and axes with their default bindings
+   * Rebinds saved by the player are kept over the defaults
+   */
+  defineBindings(bindings: InputBindings): void {
+    Object.entries(bindings.actions || {}).forEach(([action, list]) => {
+      const normalized = list.map(binding => this.normalizeBinding(binding));
+      this.defaultBindings.actions[action] = normalized;
+      this.actions.set(action, [...normalized]);
+    });
+    
+    Object.entries(bindings.axes || {}).forEach(([axis, list]) => {
+      this.defaultBindings.axes[axis] = [...list];
+      this.axes.set(axis, [...list]);
+    });
+    
+    this.loadBindings();
+  }
+  
+  /**
+   * Persist rebinds through a storage system, loading any already saved
+   */
+  setStorage(storage: StorageSystem): void {
+    this.storage = storage;
+    storage.ready().then(() => {
+      if (this.storage === storage) this.loadBindings();
+    });
+  }
+  
+  /**
+   * Replace an action's bindings and save them
+   */
+  rebindAction(action: string, bindings: Array<ActionBinding | string>): void {
+    this.actions.set(action, bindings.map(binding => this.normalizeBinding(binding)));
+    this.saveBindings();
+  }
+  
+  /**
+   * Replace an axis's bindings and save them
+   */
+  rebindAxis(axis: string, bindings: AxisBinding[]): void {
+    this.axes.set(axis, [...bindings]);
+    this.saveBindings();
+  }
+  
+  /**
+   * Restore the default bindings of one action, or of every action and axis
+   */
+  resetBindings(action?: string): void {
+    if (action) {
+      this.actions.set(action, [...(this.defaultBindings.actions[action] || [])]);
+    } else {
+      Object.entries(this.defaultBindings.actions).forEach(([name, list]) => this.actions.set(name, [...list]));
+      Object.entries(this.defaultBindings.axes).forEach(([name, list]) => this.axes.set(name, [...list]));
+    }
+    this.saveBindings();
+  }
+  
+  /**
+   * Get the current bindings of every action and axis
+   */
+  getBindings(): { actions: Record<string, ActionBinding[]>; axes: Record<string, AxisBinding[]> } {
+    return {
+      actions: Object.fromEntries(Array.from(this.actions, ([name, list]) => [name, [...list]])),
+      axes: Object.fromEntries(Array.from(this.axes, ([name, list]) => [name, [...list]]))
+    };
+  }
+  
+  /**
+   * Wait for the next key, mouse button, swipe or gamepad button, for a rebinding menu
+   * Resolves null if Escape is pressed or another capture starts
+   */
+  captureBinding(): Promise<ActionBinding | null> {
+    if (this.capture) {
+      this.capture(null);
+    }
+    
+    return new Promise(resolve => {
+      this.capture = binding => {
+        this.capture = null;
+        resolve(binding);
+      };
+    });
+  }
+  
+  /**
+   * Check if an action is held
+   */
+  isActionPressed(action: string): boolean {
+    return !!this.actionStates.get(action)?.pressed;
+  }
+  
+  /**
+   * Check if an action was pressed this update
+   */
+  isActionJustPressed(action: string): boolean {
+    return !!this.actionStates.get(action)?.justPressed;
+  }
+  
+  /**
+   * Check if an action was released this update
+   */
+  isActionJustReleased(action: string): boolean {
+    return !!this.actionStates.get(action)?.justReleased;
+  }
+  
+  /**
+   * Get an action's state this update
+   */
+  getActionState(action: string): ActionState {
+    const state = this.actionStates.get(action);
+    return state ? { ...state } : { pressed: false, justPressed: false, justReleased: false };
+  }
+  
+  /**
+   * Get an axis value from -1 to 1
+   */
+  getAxis(axis: string): number {
+    return this.axisValues.get(axis) || 0;
+  }
+  
+  /**
+   * Get connected gamepads in player order
+   */
+  getGamepads(): GamepadState[] {
+    return [...this.inputState.gamepads];
+  }
+  
+  /**
+   * Get the gamepad in a player slot
+   */
+  getGamepad(player: number = 0): GamepadState | null {
+    const index = this.players[player];
+    return index !== null && index !== undefined ? this.gamepads.get(index)?.state || null : null;
+  }
+  
+  /**
+   * Check if a gamepad button is held, on a player's pad or on any pad
+   */
+  isGamepadButtonDown(button: GamepadButton | number, player?: number): boolean {
+    return this.getPlayerPads(player).some(state => state.buttons[button]);
+  }
+  
+  /**
+   * Move a gamepad to a player slot, swapping with the pad already there
+   */
+  assignPlayer(index: number, player: number): void {
+    const entry = this.gamepads.get(index);
+    if (!entry || player < 0 || player >= this.players.length) return;
+    
+    const previous = this.players[player];
+    const from = entry.state.player;
+    this.players[from] = previous;
+    this.players[player] = index;
+    
+    if (previous !== null) {
+      this.gamepads.get(previous)!.state.player = from;
+    }
+    entry.state.player = player;
+    this.sortGamepads();
+  }
+  
+  /**
+   * Rumble a player's gamepad where the browser supports it
+   * Resolves false when the pad can't vibrate
+   */
+  async vibrate(player: number = 0, options: RumbleOptions = {}): Promise<boolean> {
+    const index = this.players[player];
+    const actuator = index !== null && index !== undefined
+      ? this.gamepads.get(index)?.pad.vibrationActuator
+      : null;
+    if (!actuator || typeof actuator.playEffect !== 'function') return false;
+    
+    try {
+      await actuator.playEffect('dual-rumble', {
+        startDelay: 0,
+        duration: options.duration ?? 200,
+        strongMagnitude: options.strongMagnitude ?? 1,
+        weakMagnitude: options.weakMagnitude ?? 0.5
+      });
+      return true;
+    } catch (e) {
+      return false;
+    }
+  }
+  
+  /**
+   * Receive every input as it is applied, for recording replays (null to stop)
+   */
+  setRecorder(recorder: ((input: ReplayInput) => void) | null): void {
+    this.recorder = recorder;
+    this.recordedPads.clear();
+  }
+  
+  /**
+   * Ignore the player's devices and take input from applyInput instead
+   * @param size Element size the inputs were recorded at
+   */
+  startPlayback(size: { width: number; height: number }): void {
+    const current = this.getElementSize();
+    this.live = false;
+    this.replayScale = {
+      x: size.width > 0 && current.width > 0 ? current.width / size.width : 1,
+      y: size.height > 0 && current.height > 0 ? current.height / size.height : 1
+    };
+    this.reset();
+  }
+  
+  /**
+   * Go back to the player's devices
+   */
+  stopPlayback(): void {
+    if (this.live) return;
+    
+    this.live = true;
+    this.reset();
+  }
+  
+  /**
+   * Check whether input comes from the player's devices rather than a replay
+   */
+  isLive(): boolean {
+    return this.live;
+  }
+  
+  /**
+   * Apply a recorded input as if it had just happened
+   */
+  applyInput(input: ReplayInput): void {
+    const { x: scaleX, y: scaleY } = this.replayScale;
+    
+    switch (input[0]) {
+      case 'keydown':
+        this.keyDown(input[1]);
+        break;
+      case 'keyup':
+        this.keyUp(input[1]);
+        break;
+      case 'mousedown':
+        this.mouseDown(input[1] * scaleX, input[2] * scaleY, input[3]);
+        break;
+      case 'mousemove':
+        this.mouseMove(input[1] * scaleX, input[2] * scaleY);
+        break;
+      case 'mouseup':
+        this.mouseUp(input[1] * scaleX, input[2] * scaleY, input[3]);
+        break;
+      case 'touchstart':
+        this.touchStart(input[1], input[2] * scaleX, input[3] * scaleY);
+        break;
+      case 'touchmove':
+        this.touchMove(input[1], input[2] * scaleX, input[3] * scaleY);
+        break;
+      case 'touchend':
+      case 'touchcancel':
+        this.touchEnd(input[1], input[2] * scaleX, input[3] * scaleY, input[0] === 'touchcancel');
+        break;
+      case 'joystick':
+        this.replayJoystick = { x: input[1], y: input[2] };
+        this.events.emit('input:joystick', { ...this.replayJoystick });
+        break;
+      case 'gamepad': {
+        // Read on the next poll like a real pad
+        const [, index, id, mapping, values, axes, pressed] = input;
+        this.replayPads.set(index, {
+          index, id, mapping, axes, connected: true, timestamp: 0,
+          buttons: values.map((value, i) => ({ value, pressed: (pressed & (1 << i)) !== 0, touched: value > 0 }))
+        } as unknown as Gamepad);
+        break;
+      }
+      case 'gamepadoff':
+        this.replayPads.delete(input[1]);
+        break;
+    }
+  }
+  
+  /**
+   * Use another clock for held durations, the input buffer and gestures,
+   * in milliseconds (replays use frame time); null for the real clock
+   */
+  setClock(now: (() => number) | null): void {
+    this.clock = now;
+    this.gestures.setClock(now);
+  }
+  
+  /**
+   * Release every input and forget pads without emitting events,
+   * so recordings and replays start from the same state
+   */
+  reset(): void {
+    this.inputState.keyboard = {};
+    this.inputState.mouse.buttons = { left: false, middle: false, right: false };
+    this.inputState.touches = [];
+    this.inputState.gamepads = [];
+    this.gamepads.clear();
+    this.players.fill(null);
+    this.replayPads.clear();
+    this.replayJoystick = { x: 0, y: 0 };
+    this.gestures.destroy();
+    
+    this.pendingPresses = new Set();
+    this.pendingReleases = new Set();
+    this.pendingTaps = [];
+    this.pendingSwipes = new Set();
+    this.presses = new Set();
+    this.releases = new Set();
+    this.taps = [];
+    this.swipes = new Set();
+    this.heldSince.clear();
+    this.buffer = [];
+    this.actionStates.clear();
+    this.axisValues.clear();
+  }
+  
+  /**
+   * Get the game element's size in CSS pixels
+   */
+  getElementSize(): { width: number; height: number } {
+    return this.element
+      ? { width: this.element.clientWidth, height: this.element.clientHeight }
+      : { width: 0, height: 0 };
+  }
+  
   /**
    * Get virtual joystick value (normalized -1 to 1 for each axis)
    */
   getJoystickValue(): Vector2D | null {
-    return this.virtualJoystick ? { ...this.virtualJoystick.value } : null;
+    const value = this.getJoystick();
+    return value ? { ...value } : null;
   }
   
   /**
@@ -244,7 +729,7 @@ export class InputSystem {
    * Handle joystick touch start
    */
   private handleJoystickStart(e: TouchEvent): void {
-    if (!this.virtualJoystick) return;
+    if (!this.virtualJoystick || !this.live) return;
     
     e.preventDefault();
     const touch = e.touches[0];
@@ -269,7 +754,7 @@ export class InputSystem {
    * Handle joystick touch move
    */
   private handleJoystickMove(e: TouchEvent): void {
-    if (!this.virtualJoystick || !this.virtualJoystick.active) return;
+    if (!this.virtualJoystick || !this.virtualJoystick.active || !this.live) return;
     
     e.preventDefault();
     const touch = e.touches[0];
@@ -287,7 +772,7 @@ export class InputSystem {
    * Handle joystick touch end
    */
   private handleJoystickEnd(e: TouchEvent): void {
-    if (!this.virtualJoystick) return;
+    if (!this.virtualJoystick || !this.live) return;
     
     e.preventDefault();
     this.virtualJoystick.active = false;
@@ -345,6 +830,7 @@ export class InputSystem {
     };
     
     // Emit joystick event
+    this.record(['joystick', this.virtualJoystick.value.x, this.virtualJoystick.value.y]);
     this.events.emit('input:joystick', this.virtualJoystick.value);
   }
   
@@ -352,16 +838,18 @@ export class InputSystem {
    * Handle keyboard key down event
    */
   private handleKeyDown(e: KeyboardEvent): void {
+    if (!this.live) return;
+    
     const key = e.key.toLowerCase();
     
-    // Update state
-    if (!this.inputState.keyboard[key]) {
-      this.inputState.keyboard[key] = true;
-      
-      // Emit key down event
-      this.events.emit('input:keydown', { key, originalEvent: e });
+    if (this.capture) {
+      this.capture(key === 'escape' ? null : { type: 'key', key });
+      e.preventDefault();
+      return;
     }
     
+    this.keyDown(key, e);
+    
     // Prevent defaults if enabled
     if (this.options.preventDefaults) {
       // Don't prevent defaults for F keys, refresh, etc
@@ -378,44 +866,54 @@ export class InputSystem {
    * Handle keyboard key up event
    */
   private handleKeyUp(e: KeyboardEvent): void {
-    const key = e.key.toLowerCase();
+    if (!this.live) return;
     
-    // Update state
-    if (this.inputState.keyboard[key]) {
-      this.inputState.keyboard[key] = false;
-      
-      // Emit key up event
-      this.events.emit('input:keyup', { key, originalEvent: e });
-    }
+    this.keyUp(e.key.toLowerCase(), e);
+  }
+  
+  /**
+   * Press a key
+   */
+  private keyDown(key: string, originalEvent?: KeyboardEvent): void {
+    // Held keys repeat; only the first press counts
+    if (this.inputState.keyboard[key]) return;
+    
+    this.record(['keydown', key]);
+    this.inputState.keyboard[key] = true;
+    this.recordPress(key);
+    
+    // Emit key down event
+    this.events.emit('input:keydown', { key, originalEvent });
+  }
+  
+  /**
+   * Release a key
+   */
+  private keyUp(key: string, originalEvent?: KeyboardEvent): void {
+    if (!this.inputState.keyboard[key]) return;
+    
+    this.record(['keyup', key]);
+    this.inputState.keyboard[key] = false;
+    this.recordRelease(key);
+    
+    // Emit key up event
+    this.events.emit('input:keyup', { key, originalEvent });
   }
   
   /**
    * Handle mouse down event
    */
   private handleMouseDown(e: MouseEvent): void {
-    if (!this.element) return;
+    if (!this.element || !this.live) return;
     
     // Get relative coordinates in the element
     const rect = this.element.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
-    
-    // Update state
-    this.inputState.mouse.x = x;
-    this.inputState.mouse.y = y;
     
-    if (e.button === 0) {
-      this.inputState.mouse.buttons.left = true;
-    } else if (e.button === 1) {
-      this.inputState.mouse.buttons.middle = true;
-    } else if (e.button === 2) {
-      this.inputState.mouse.buttons.right = true;
+    const button = MOUSE_BUTTONS[e.button];
+    if (button && this.capture) {
+      this.capture({ type: 'mouse', button });
     }
-    
-    // Emit mouse down event
-    this.events.emit('input:mousedown', { 
-      x, y, button: e.button, originalEvent: e 
-    });
+    this.mouseDown(e.clientX - rect.left, e.clientY - rect.top, e.button, e);
     
     // Prevent default if enabled
     if (this.options.preventDefaults) {
@@ -427,46 +925,87 @@ export class InputSystem {
    * Handle mouse move event
    */
   private handleMouseMove(e: MouseEvent): void {
-    if (!this.element) return;
+    if (!this.element || !this.live) return;
+    
+    // Get relative coordinates in the element
+    const rect = this.element.getBoundingClientRect();
+    this.mouseMove(e.clientX - rect.left, e.clientY - rect.top, e);
+  }
+  
+  /**
+   * Handle mouse up event
+   */
+  private handleMouseUp(e: MouseEvent): void {
+    if (!this.element || !this.live) return;
     
     // Get relative coordinates in the element
     const rect = this.element.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    this.mouseUp(e.clientX - rect.left, e.clientY - rect.top, e.button, e);
+  }
+  
+  /**
+   * Press a mouse button at a point in element pixels
+   */
+  private mouseDown(x: number, y: number, buttonIndex: number, originalEvent?: MouseEvent): void {
+    this.record(['mousedown', x, y, buttonIndex]);
+    
+    // Update state
+    this.inputState.mouse.x = x;
+    this.inputState.mouse.y = y;
+    
+    const button = MOUSE_BUTTONS[buttonIndex];
+    if (button) {
+      this.inputState.mouse.buttons[button] = true;
+      this.recordPress(`mouse:${button}`);
+    }
+    
+    // The left button taps, long-presses and drags like a finger
+    if (button === 'left') {
+      this.gestures.pointerDown(MOUSE_POINTER, x, y);
+    }
+    
+    // Emit mouse down event
+    this.events.emit('input:mousedown', { 
+      x, y, button: buttonIndex, originalEvent 
+    });
+  }
+  
+  /**
+   * Move the mouse to a point in element pixels
+   */
+  private mouseMove(x: number, y: number, originalEvent?: MouseEvent): void {
+    this.record(['mousemove', x, y]);
     
     // Update state
     this.inputState.mouse.x = x;
     this.inputState.mouse.y = y;
+    this.gestures.pointerMove(MOUSE_POINTER, x, y);
     
     // Emit mouse move event
     this.events.emit('input:mousemove', { 
-      x, y, originalEvent: e 
+      x, y, originalEvent 
     });
   }
   
   /**
-   * Handle mouse up event
+   * Release a mouse button at a point in element pixels
    */
-  private handleMouseUp(e: MouseEvent): void {
-    if (!this.element) return;
-    
-    // Get relative coordinates in the element
-    const rect = this.element.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+  private mouseUp(x: number, y: number, buttonIndex: number, originalEvent?: MouseEvent): void {
+    this.record(['mouseup', x, y, buttonIndex]);
     
     // Update state
-    if (e.button === 0) {
-      this.inputState.mouse.buttons.left = false;
-    } else if (e.button === 1) {
-      this.inputState.mouse.buttons.middle = false;
-    } else if (e.button === 2) {
-      this.inputState.mouse.buttons.right = false;
+    const button = MOUSE_BUTTONS[buttonIndex];
+    if (button && this.inputState.mouse.buttons[button]) {
+      this.inputState.mouse.buttons[button] = false;
+      this.recordRelease(`mouse:${button}`);
+    }
+    if (button === 'left') {
+      this.gestures.pointerUp(MOUSE_POINTER, x, y);
     }
     
     // Emit mouse up event
     this.events.emit('input:mouseup', { 
-      x, y, button: e.button, originalEvent: e 
+      x, y, button: buttonIndex, originalEvent 
     });
   }
   
@@ -474,7 +1013,7 @@ export class InputSystem {
    * Handle touch start event
    */
   private handleTouchStart(e: TouchEvent): void {
-    if (!this.element) return;
+    if (!this.element || !this.live) return;
     
     // Prevent default if enabled
     if (this.options.preventDefaults) {
@@ -485,33 +1024,7 @@ export class InputSystem {
     for (let i = 0; i < e.changedTouches.length; i++) {
       const touch = e.changedTouches[i];
       const rect = this.element.getBoundingClientRect();
-      const x = touch.clientX - rect.left;
-      const y = touch.clientY - rect.top;
-      
-      // Store for swipe detection
-      if (this.options.enableSwipe && !this.swipeData) {
-        this.swipeData = {
-          startX: x,
-          startY: y,
-          startTime: Date.now(),
-          endX: x,
-          endY: y,
-          endTime: Date.now()
-        };
-      }
-      
-      // Add to touches list
-      this.inputState.touches.push({
-        id: touch.identifier,
-        x,
-        y,
-        active: true
-      });
-      
-      // Emit touch start event
-      this.events.emit('input:touchstart', { 
-        id: touch.identifier, x, y, originalEvent: e 
-      });
+      this.touchStart(touch.identifier, touch.clientX - rect.left, touch.clientY - rect.top, e);
     }
   }
   
@@ -519,7 +1032,7 @@ export class InputSystem {
    * Handle touch move event
    */
   private handleTouchMove(e: TouchEvent): void {
-    if (!this.element) return;
+    if (!this.element || !this.live) return;
     
     // Prevent scroll if enabled
     if (this.options.preventScroll) {
@@ -530,27 +1043,7 @@ export class InputSystem {
     for (let i = 0; i < e.changedTouches.length; i++) {
       const touch = e.changedTouches[i];
       const rect = this.element.getBoundingClientRect();
-      const x = touch.clientX - rect.left;
-      const y = touch.clientY - rect.top;
-      
-      // Update swipe data
-      if (this.options.enableSwipe && this.swipeData) {
-        this.swipeData.endX = x;
-        this.swipeData.endY = y;
-        this.swipeData.endTime = Date.now();
-      }
-      
-      // Update touch in input state
-      const touchIndex = this.inputState.touches.findIndex(t => t.id === touch.identifier);
-      if (touchIndex >= 0) {
-        this.inputState.touches[touchIndex].x = x;
-        this.inputState.touches[touchIndex].y = y;
-      }
-      
-      // Emit touch move event
-      this.events.emit('input:touchmove', { 
-        id: touch.identifier, x, y, originalEvent: e 
-      });
+      this.touchMove(touch.identifier, touch.clientX - rect.left, touch.clientY - rect.top, e);
     }
   }
   
@@ -558,82 +1051,439 @@ export class InputSystem {
    * Handle touch end/cancel event
    */
   private handleTouchEnd(e: TouchEvent): void {
-    if (!this.element) return;
+    if (!this.element || !this.live) return;
     
     // Process each touch
     for (let i = 0; i < e.changedTouches.length; i++) {
       const touch = e.changedTouches[i];
       const rect = this.element.getBoundingClientRect();
-      const x = touch.clientX - rect.left;
-      const y = touch.clientY - rect.top;
+      this.touchEnd(touch.identifier, touch.clientX - rect.left, touch.clientY - rect.top, e.type === 'touchcancel', e);
+    }
+  }
+  
+  /**
+   * Put a finger down at a point in element pixels
+   */
+  private touchStart(id: number, x: number, y: number, originalEvent?: TouchEvent): void {
+    this.record(['touchstart', id, x, y]);
+    
+    this.gestures.pointerDown(id, x, y);
+    this.pendingTaps.push({ x, y });
+    if (this.inputState.touches.length === 0) {
+      this.recordPress('touch');
+    }
+    
+    // Add to touches list
+    this.inputState.touches.push({
+      id,
+      x,
+      y,
+      active: true
+    });
+    
+    // Emit touch start event
+    this.events.emit('input:touchstart', { 
+      id, x, y, originalEvent 
+    });
+  }
+  
+  /**
+   * Move a finger to a point in element pixels
+   */
+  private touchMove(id: number, x: number, y: number, originalEvent?: TouchEvent): void {
+    this.record(['touchmove', id, x, y]);
+    
+    this.gestures.pointerMove(id, x, y);
+    
+    // Update touch in input state
+    const touchIndex = this.inputState.touches.findIndex(t => t.id === id);
+    if (touchIndex >= 0) {
+      this.inputState.touches[touchIndex].x = x;
+      this.inputState.touches[touchIndex].y = y;
+    }
+    
+    // Emit touch move event
+    this.events.emit('input:touchmove', { 
+      id, x, y, originalEvent 
+    });
+  }
+  
+  /**
+   * Lift a finger at a point in element pixels
+   */
+  private touchEnd(id: number, x: number, y: number, cancelled: boolean, originalEvent?: TouchEvent): void {
+    this.record([cancelled ? 'touchcancel' : 'touchend', id, x, y]);
+    
+    // Cancelled touches end without a gesture
+    if (cancelled) {
+      this.gestures.cancel(id);
+    } else {
+      this.gestures.pointerUp(id, x, y);
+    }
+    
+    // Remove touch from input state
+    const touchIndex = this.inputState.touches.findIndex(t => t.id === id);
+    if (touchIndex >= 0) {
+      this.inputState.touches.splice(touchIndex, 1);
+      if (this.inputState.touches.length === 0) {
+        this.recordRelease('touch');
+      }
+    }
+    
+    // Emit touch end event
+    this.events.emit('input:touchend', { 
+      id, x, y, originalEvent 
+    });
+  }
+  
+  /**
+   * Pass an input to the recorder
+   */
+  private record(input: ReplayInput): void {
+    if (this.recorder) {
+      this.recorder(input);
+    }
+  }
+  
+  /**
+   * Current time in milliseconds
+   */
+  private now(): number {
+    return this.clock ? this.clock() : performance.now();
+  }
+  
+  /**
+   * Joystick value from the on-screen joystick, or the replay
+   */
+  private getJoystick(): Vector2D | null {
+    if (!this.live) return this.replayJoystick;
+    return this.virtualJoystick ? this.virtualJoystick.value : null;
+  }
+  
+  /**
+   * Note an input going down, for edge detection, held time and the buffer
+   */
+  private recordPress(input: string): void {
+    const now = this.now();
+    this.pendingPresses.add(input);
+    if (!this.heldSince.has(input)) {
+      this.heldSince.set(input, now);
+    }
+    this.buffer.push({ name: input, action: false, time: now });
+  }
+  
+  /**
+   * Note an input going up
+   */
+  private recordRelease(input: string): void {
+    this.pendingReleases.add(input);
+    this.heldSince.delete(input);
+  }
+  
+  /**
+   * Remove and report the oldest buffered press matching a test within a window
+   */
+  private consumeBuffered(test: (entry: { name: string; action: boolean; time: number }) => boolean, window: number): boolean {
+    const oldest = this.now() - window;
+    const index = this.buffer.findIndex(entry => entry.time >= oldest && test(entry));
+    if (index < 0) return false;
+    
+    this.buffer.splice(index, 1);
+    return true;
+  }
+  
+  /**
+   * Check if a binding is held, or was pressed since the last update
+   */
+  private isBindingActive(binding: ActionBinding): boolean {
+    switch (binding.type) {
+      case 'key':
+        return !!this.inputState.keyboard[binding.key] || this.presses.has(binding.key);
+      case 'mouse':
+        return this.inputState.mouse.buttons[binding.button] || this.presses.has(`mouse:${binding.button}`);
+      case 'touch':
+        return this.inputState.touches.some(touch => this.inZone(touch, binding.zone)) ||
+          this.taps.some(point => this.inZone(point, binding.zone));
+      case 'swipe':
+        return this.swipes.has(binding.direction);
+      case 'joystick': {
+        const value = this.getJoystick()?.[binding.axis] ?? 0;
+        return value * binding.direction >= (binding.threshold ?? AXIS_THRESHOLD);
+      }
+      case 'gamepad':
+        return this.isGamepadButtonDown(binding.button, binding.player);
+      case 'gamepadAxis':
+        return this.getPlayerPads(binding.player).some(state =>
+          (state.axes[binding.axis] ?? 0) * binding.direction >= (binding.threshold ?? AXIS_THRESHOLD)
+        );
+    }
+  }
+  
+  /**
+   * Get an axis binding's value from -1 to 1
+   */
+  private getBindingValue(binding: AxisBinding): number {
+    switch (binding.type) {
+      case 'buttons':
+        return (this.isBindingActive(this.normalizeBinding(binding.positive)) ? 1 : 0) -
+          (this.isBindingActive(this.normalizeBinding(binding.negative)) ? 1 : 0);
+      case 'joystick': {
+        const value = this.getJoystick()?.[binding.axis] ?? 0;
+        return binding.invert ? -value : value;
+      }
+      case 'gamepadAxis': {
+        let value = 0;
+        for (const state of this.getPlayerPads(binding.player)) {
+          const padValue = state.axes[binding.axis] ?? 0;
+          if (Math.abs(padValue) > Math.abs(value)) value = padValue;
+        }
+        return binding.invert ? -value : value;
+      }
+    }
+  }
+  
+  /**
+   * Turn key shorthands into bindings, lowercasing keys to match the keyboard state
+   */
+  private normalizeBinding(binding: ActionBinding | string): ActionBinding {
+    if (typeof binding === 'string') {
+      return { type: 'key', key: binding.toLowerCase() };
+    }
+    return binding.type === 'key' ? { type: 'key', key: binding.key.toLowerCase() } : binding;
+  }
+  
+  /**
+   * Check if a point in element pixels is inside a zone given as fractions of the element
+   */
+  private inZone(point: Vector2D, zone: Rect): boolean {
+    if (!this.element) return false;
+    
+    const x = point.x / (this.element.clientWidth || 1);
+    const y = point.y / (this.element.clientHeight || 1);
+    return x >= zone.x && x < zone.x + zone.width && y >= zone.y && y < zone.y + zone.height;
+  }
+  
+  /**
+   * Get the pad in a player slot, or every connected pad
+   */
+  private getPlayerPads(player?: number): GamepadState[] {
+    if (player === undefined) return this.inputState.gamepads;
+    const state = this.getGamepad(player);
+    return state ? [state] : [];
+  }
+  
+  /**
+   * Read navigator.getGamepads(), tracking connections and button changes
+   * Browsers only update pad state when polled, so this runs every update
+   */
+  private pollGamepads(): void {
+    const pads = this.live ? this.readNavigatorGamepads() : Array.from(this.replayPads.values());
+    const seen = new Set<number>();
+    
+    for (const pad of pads) {
+      seen.add(pad.index);
+      this.recordGamepad(pad);
+      let entry = this.gamepads.get(pad.index);
       
-      // Finalize swipe detection
-      if (this.options.enableSwipe && this.swipeData) {
-        this.swipeData.endX = x;
-        this.swipeData.endY = y;
-        this.swipeData.endTime = Date.now();
+      if (!entry) {
+        const player = this.players.indexOf(null);
+        if (player < 0) continue; // Every slot is taken
         
-        // Check for swipe
-        this.detectSwipe();
-        this.swipeData = null;
+        entry = { pad, state: this.createGamepadState(pad, player) };
+        this.gamepads.set(pad.index, entry);
+        this.players[player] = pad.index;
+        this.sortGamepads();
+        this.events.emit('input:gamepadconnected', { index: pad.index, player, id: pad.id });
       }
       
-      // Remove touch from input state
-      const touchIndex = this.inputState.touches.findIndex(t => t.id === touch.identifier);
-      if (touchIndex >= 0) {
-        this.inputState.touches.splice(touchIndex, 1);
-      }
+      const previous = entry.state.buttons;
+      entry.pad = pad;
+      this.readGamepad(pad, entry.state);
       
-      // Emit touch end event
-      this.events.emit('input:touchend', { 
-        id: touch.identifier, x, y, originalEvent: e 
+      entry.state.buttons.forEach((down, button) => {
+        if (down === !!previous[button]) return;
+        
+        const event = { index: pad.index, player: entry!.state.player, button };
+        if (down) {
+          if (this.capture) {
+            this.capture({ type: 'gamepad', button });
+          }
+          this.recordPress(`gamepad:${button}`);
+          this.events.emit('input:gamepadbuttondown', event);
+        } else {
+          this.recordRelease(`gamepad:${button}`);
+          this.events.emit('input:gamepadbuttonup', event);
+        }
       });
     }
+    
+    this.gamepads.forEach((entry, index) => {
+      if (seen.has(index)) return;
+      
+      if (this.recordedPads.delete(index)) {
+        this.record(['gamepadoff', index]);
+      }
+      this.gamepads.delete(index);
+      this.players[entry.state.player] = null;
+      this.sortGamepads();
+      this.events.emit('input:gamepaddisconnected', { index, player: entry.state.player, id: entry.state.id });
+    });
   }
   
   /**
-   * Detect swipe gesture
+   * Connected pads from navigator.getGamepads()
    */
-  private detectSwipe(): void {
-    if (!this.swipeData) return;
+  private readNavigatorGamepads(): Gamepad[] {
+    if (typeof navigator === 'undefined' || typeof navigator.getGamepads !== 'function') return [];
+    return Array.from(navigator.getGamepads() || []).filter((pad): pad is Gamepad => !!pad && pad.connected);
+  }
+  
+  /**
+   * Record a pad's raw buttons and axes when they change
+   */
+  private recordGamepad(pad: Gamepad): void {
+    if (!this.recorder) return;
     
-    const dx = this.swipeData.endX - this.swipeData.startX;
-    const dy = this.swipeData.endY - this.swipeData.startY;
-    const duration = this.swipeData.endTime - this.swipeData.startTime;
+    const values = pad.buttons.map(button => button.value);
+    const pressed = pad.buttons.reduce((mask, button, i) => button.pressed ? mask | (1 << i) : mask, 0);
+    const input: ReplayInput = ['gamepad', pad.index, pad.id, pad.mapping, values, Array.from(pad.axes), pressed];
     
-    // Check if duration is within threshold
-    if (duration > this.swipeTimeThreshold) return;
+    const snapshot = JSON.stringify(input);
+    if (this.recordedPads.get(pad.index) === snapshot) return;
     
-    // Get distance
-    const distance = Math.sqrt(dx * dx + dy * dy);
+    this.recordedPads.set(pad.index, snapshot);
+    this.recorder(input);
+  }
+  
+  /**
+   * Create state for a newly connected pad
+   */
+  private createGamepadState(pad: Gamepad, player: number): GamepadState {
+    return {
+      index: pad.index,
+      player,
+      id: pad.id,
+      standard: pad.mapping === 'standard',
+      buttons: [],
+      values: [],
+      leftStick: { x: 0, y: 0 },
+      rightStick: { x: 0, y: 0 },
+      leftTrigger: 0,
+      rightTrigger: 0,
+      axes: [0, 0, 0, 0, 0, 0],
+      // Typed as always present, but missing where the browser can't rumble
+      vibration: !!pad.vibrationActuator
+    };
+  }
+  
+  /**
+   * Normalize a pad's buttons and axes to the standard mapping
+   */
+  private readGamepad(pad: Gamepad, state: GamepadState): void {
+    const values = pad.buttons.map(button => button.value || (button.pressed ? 1 : 0));
+    const axes = pad.axes;
+    let left = { x: axes[0] ?? 0, y: axes[1] ?? 0 };
+    let right = { x: axes[2] ?? 0, y: axes[3] ?? 0 };
+    let leftTrigger = values[GamepadButton.LEFT_TRIGGER] ?? 0;
+    let rightTrigger = values[GamepadButton.RIGHT_TRIGGER] ?? 0;
+    
+    if (pad.mapping !== 'standard' && axes.length >= 6) {
+      // Common raw layout: triggers on axes 2 and 5 (-1 released), right stick on 3 and 4,
+      // d-pad as a hat on 6 and 7
+      right = { x: axes[3], y: axes[4] };
+      leftTrigger = (axes[2] + 1) / 2;
+      rightTrigger = (axes[5] + 1) / 2;
+      
+      if (axes.length >= 8) {
+        values[GamepadButton.DPAD_UP] = axes[7] < -0.5 ? 1 : 0;
+        values[GamepadButton.DPAD_DOWN] = axes[7] > 0.5 ? 1 : 0;
+        values[GamepadButton.DPAD_LEFT] = axes[6] < -0.5 ? 1 : 0;
+        values[GamepadButton.DPAD_RIGHT] = axes[6] > 0.5 ? 1 : 0;
+      }
+    }
     
-    // Check if distance meets threshold
-    if (distance < this.swipeThreshold) return;
+    values[GamepadButton.LEFT_TRIGGER] = leftTrigger;
+    values[GamepadButton.RIGHT_TRIGGER] = rightTrigger;
+    for (let i = values.length; i < STANDARD_BUTTONS; i++) values[i] = 0;
     
-    // Determine direction
-    let direction = '';
-    const angle = Math.atan2(dy, dx) * 180 / Math.PI;
+    left = this.applyDeadZone(left);
+    right = this.applyDeadZone(right);
     
-    if (angle > -45 && angle <= 45) {
-      direction = 'right';
-    } else if (angle > 45 && angle <= 135) {
-      direction = 'down';
-    } else if (angle > 135 || angle <= -135) {
-      direction = 'left';
-    } else {
-      direction = 'up';
-    }
-    
-    // Emit swipe event
-    this.events.emit('input:swipe', { 
-      direction, 
-      distance,
-      duration,
-      velocity: distance / (duration / 1000),
-      startX: this.swipeData.startX,
-      startY: this.swipeData.startY,
-      endX: this.swipeData.endX,
-      endY: this.swipeData.endY
+    state.values = values;
+    state.buttons = values.map((value, button) =>
+      button === GamepadButton.LEFT_TRIGGER || button === GamepadButton.RIGHT_TRIGGER
+        ? value > TRIGGER_THRESHOLD
+        : value > 0.5 || !!pad.buttons[button]?.pressed
+    );
+    state.leftStick = left;
+    state.rightStick = right;
+    state.leftTrigger = leftTrigger;
+    state.rightTrigger = rightTrigger;
+    state.axes = [left.x, left.y, right.x, right.y, leftTrigger, rightTrigger];
+  }
+  
+  /**
+   * Radial dead zone: ignore small stick movements in any direction and
+   * rescale the rest so values still reach 1
+   */
+  private applyDeadZone(stick: Vector2D): Vector2D {
+    const deadZone = this.options.gamepadDeadZone!;
+    const magnitude = Math.sqrt(stick.x * stick.x + stick.y * stick.y);
+    if (magnitude <= deadZone) return { x: 0, y: 0 };
+    
+    const scaled = Math.min(1, (magnitude - deadZone) / (1 - deadZone));
+    return { x: stick.x / magnitude * scaled, y: stick.y / magnitude * scaled };
+  }
+  
+  /**
+   * Keep the input state's gamepad list in player order
+   */
+  private sortGamepads(): void {
+    this.inputState.gamepads = Array.from(this.gamepads.values())
+      .map(entry => entry.state)
+      .sort((a, b) => a.player - b.player);
+  }
+  
+  /**
+   * Apply rebinds saved in storage over the defaults
+   */
+  private loadBindings(): void {
+    if (!this.storage) return;
+    
+    const saved = this.storage.loadObject<InputBindings>(BINDINGS_KEY);
+    if (!saved) return;
+    
+    // Only actions and axes the game defines, so renamed ones don't linger
+    Object.entries(saved.actions || {}).forEach(([action, list]) => {
+      if (this.actions.has(action) && Array.isArray(list)) {
+        this.actions.set(action, list.map(binding => this.normalizeBinding(binding)));
+      }
     });
+    Object.entries(saved.axes || {}).forEach(([axis, list]) => {
+      if (this.axes.has(axis) && Array.isArray(list)) {
+        this.axes.set(axis, list);
+      }
+    });
+  }
+  
+  /**
+   * Save the bindings that differ from the defaults
+   */
+  private saveBindings(): void {
+    if (!this.storage) return;
+    
+    const saved: InputBindings = { actions: {}, axes: {} };
+    this.actions.forEach((list, action) => {
+      if (JSON.stringify(list) !== JSON.stringify(this.defaultBindings.actions[action])) {
+        saved.actions![action] = list;
+      }
+    });
+    this.axes.forEach((list, axis) => {
+      if (JSON.stringify(list) !== JSON.stringify(this.defaultBindings.axes[axis])) {
+        saved.axes![axis] = list;
+      }
+    });
+    
+    this.storage.saveObject(BINDINGS_KEY, saved);
   }
 }
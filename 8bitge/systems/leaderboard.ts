@@ -4,16 +4,16 @@
  */
 
 import { EventEmitter } from '../utils/eventEmitter';
-import { LeaderboardEntry } from '../types';
+import { EngineEvents, LeaderboardEntry } from '../types';
 
 export class LeaderboardSystem {
   private gameId: string;
-  private events: EventEmitter;
+  private events: EventEmitter<EngineEvents>;
   private storagePrefix = '8bitge_leaderboard_';
   private localLeaderboard: LeaderboardEntry[] = [];
   private apiEndpoint = 'https://api.8bitpixel.io/leaderboard'; // Example API endpoint
   
-  constructor(events: EventEmitter, gameId: string) {
+  constructor(events: EventEmitter<EngineEvents>, gameId: string) {
     this.events = events;
     this.gameId = gameId;
     
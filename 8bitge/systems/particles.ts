@@ -4,8 +4,10 @@
  * Works across both desktop and mobile devices
  */
 
-import { Vector2D } from '../types';
-import { random, lerp, clamp } from '../utils/math';
+import { BeatEvent, Vector2D } from '../types';
+import { getRandom, lerp, clamp } from '../utils/math';
+import { Random } from '../utils/random';
+import { AssetManager } from './assets';
 
 export enum ParticleBlendMode {
   NORMAL = 'source-over',
@@ -377,6 +379,8 @@ export interface EmitterOptions {
   lifetimeVariance?: number;
   /** Random variance to apply to particle color (hue shift degrees) */
   colorVariance?: number;
+  /** Burst burstCount particles (at least one) on each music beat or bar */
+  beatSync?: 'beat' | 'bar';
 }
 
 export class ParticleEmitter {
@@ -393,13 +397,19 @@ export class ParticleEmitter {
   sizeVariance: number;
   lifetimeVariance: number;
   colorVariance: number;
+  beatSync: 'beat' | 'bar' | null;
   
   private active: boolean = false;
   private age: number = 0;
   private emissionAccumulator: number = 0;
   private particles: Particle[] = [];
+  private random: Random;
 
-  constructor(options: EmitterOptions) {
+  /**
+   * @param random Generator for the variances (defaults to a stream split from the shared one)
+   */
+  constructor(options: EmitterOptions, random: Random = getRandom().split()) {
+    this.random = random;
     this.position = { ...options.position };
     this.followTarget = options.followTarget || false;
     this.emissionRate = options.emissionRate;
@@ -413,6 +423,7 @@ export class ParticleEmitter {
     this.sizeVariance = options.sizeVariance || 0;
     this.lifetimeVariance = options.lifetimeVariance || 0;
     this.colorVariance = options.colorVariance || 0;
+    this.beatSync = options.beatSync || null;
   }
 
   /**
@@ -449,6 +460,17 @@ export class ParticleEmitter {
     }
   }
 
+  /**
+   * Burst on a music beat if the emitter is synced to it
+   */
+  onBeat(isBar: boolean): void {
+    if (!this.active || !this.beatSync) return;
+    
+    if (this.beatSync === 'beat' || isBar) {
+      this.burst(Math.max(this.burstCount, 1));
+    }
+  }
+
   /**
    * Update emitter and all its particles
    */
@@ -548,8 +570,8 @@ export class ParticleEmitter {
   private emitParticle(): void {
     // Apply position variance
     const position = {
-      x: this.position.x + random(-this.positionVariance.x, this.positionVariance.x),
-      y: this.position.y + random(-this.positionVariance.y, this.positionVariance.y),
+      x: this.position.x + this.random.float(-this.positionVariance.x, this.positionVariance.x),
+      y: this.position.y + this.random.float(-this.positionVariance.y, this.positionVariance.y),
     };
     
     // Clone base particle options
@@ -558,8 +580,8 @@ export class ParticleEmitter {
     // Apply velocity variance if defined
     if (baseOptions.velocity && this.velocityVariance) {
       baseOptions.velocity = {
-        x: baseOptions.velocity.x + random(-this.velocityVariance.x, this.velocityVariance.x),
-        y: baseOptions.velocity.y + random(-this.velocityVariance.y, this.velocityVariance.y),
+        x: baseOptions.velocity.x + this.random.float(-this.velocityVariance.x, this.velocityVariance.x),
+        y: baseOptions.velocity.y + this.random.float(-this.velocityVariance.y, this.velocityVariance.y),
       };
     }
     
@@ -567,17 +589,17 @@ export class ParticleEmitter {
     if (this.sizeVariance > 0) {
       if (Array.isArray(baseOptions.size)) {
         baseOptions.size = [
-          baseOptions.size[0] * random(1 - this.sizeVariance, 1 + this.sizeVariance),
-          baseOptions.size[1] * random(1 - this.sizeVariance, 1 + this.sizeVariance),
+          baseOptions.size[0] * this.random.float(1 - this.sizeVariance, 1 + this.sizeVariance),
+          baseOptions.size[1] * this.random.float(1 - this.sizeVariance, 1 + this.sizeVariance),
         ];
       } else if (baseOptions.size !== undefined) {
-        baseOptions.size = baseOptions.size * random(1 - this.sizeVariance, 1 + this.sizeVariance);
+        baseOptions.size = baseOptions.size * this.random.float(1 - this.sizeVariance, 1 + this.sizeVariance);
       }
     }
     
     // Apply lifetime variance if defined
     if (this.lifetimeVariance > 0 && baseOptions.lifetime !== undefined) {
-      baseOptions.lifetime = baseOptions.lifetime * random(1 - this.lifetimeVariance, 1 + this.lifetimeVariance);
+      baseOptions.lifetime = baseOptions.lifetime * this.random.float(1 - this.lifetimeVariance, 1 + this.lifetimeVariance);
     }
     
     // Create the particle
@@ -603,20 +625,31 @@ export class ParticleSystem {
   private canvas: HTMLCanvasElement | null = null;
   private ctx: CanvasRenderingContext2D | null = null;
   private lastUpdateTime: number = 0;
-  private images: Map<string, HTMLImageElement> = new Map();
+  private assets: AssetManager = new AssetManager();
   private autoResizeObserver: ResizeObserver | null = null;
+  private standalone: boolean = true;
+  private animationFrameId: number = 0;
+  private random: Random;
 
   constructor() {
+    // Effects draw from their own stream, so they don't shift a seeded game's draws
+    this.random = getRandom().split();
+    
     // Register default presets
     this.registerDefaultPresets();
   }
 
   /**
    * Initialize the particle system with a canvas
+   * In standalone mode the system sizes, clears and draws to the canvas on its
+   * own loop; otherwise the owner calls update() and draw() (see GameEngine)
    */
-  init(canvas: HTMLCanvasElement): void {
+  init(canvas: HTMLCanvasElement, standalone: boolean = true): void {
     this.canvas = canvas;
     this.ctx = canvas.getContext('2d');
+    this.standalone = standalone;
+    
+    if (!standalone) return;
     
     // Ensure canvas is sized correctly
     this.resizeCanvas();
@@ -629,14 +662,14 @@ export class ParticleSystem {
     
     // Start the update loop
     this.lastUpdateTime = performance.now();
-    this.update();
+    this.tick();
   }
 
   /**
    * Create a new emitter with the given options
    */
   createEmitter(id: string, options: EmitterOptions): ParticleEmitter {
-    const emitter = new ParticleEmitter(options);
+    const emitter = new ParticleEmitter(options, this.random);
     this.emitters.set(id, emitter);
     return emitter;
   }
@@ -671,8 +704,36 @@ export class ParticleSystem {
 
   /**
    * Update all emitters
+   * @param deltaTime Elapsed time in milliseconds
+   */
+  update(deltaTime: number): void {
+    this.emitters.forEach(emitter => {
+      emitter.update(deltaTime);
+    });
+  }
+
+  /**
+   * Burst beat-synced emitters (the engine calls this on audio:beat)
+   */
+  onBeat(event: BeatEvent): void {
+    this.emitters.forEach(emitter => {
+      emitter.onBeat(event.beatInBar === 0);
+    });
+  }
+
+  /**
+   * Draw all emitters to a canvas context
+   */
+  draw(ctx: CanvasRenderingContext2D): void {
+    this.emitters.forEach(emitter => {
+      emitter.draw(ctx);
+    });
+  }
+
+  /**
+   * Standalone update loop
    */
-  private update(): void {
+  private tick(): void {
     const now = performance.now();
     const deltaTime = now - this.lastUpdateTime;
     this.lastUpdateTime = now;
@@ -682,36 +743,38 @@ export class ParticleSystem {
       this.ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
       
       // Update and draw all emitters
-      this.emitters.forEach(emitter => {
-        emitter.update(deltaTime);
-        emitter.draw(this.ctx!);
-      });
+      this.update(deltaTime);
+      this.draw(this.ctx);
     }
     
     // Request next frame
-    requestAnimationFrame(() => this.update());
+    this.animationFrameId = requestAnimationFrame(() => this.tick());
   }
 
   /**
-   * Load an image for use with image particles
+   * Load an image for use with image particles (through the shared asset cache)
    */
-  loadImage(id: string, src: string): Promise<HTMLImageElement> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.onload = () => {
-        this.images.set(id, img);
-        resolve(img);
-      };
-      img.onerror = () => reject(new Error(`Failed to load particle image: ${src}`));
-      img.src = src;
-    });
+  async loadImage(id: string, src: string): Promise<HTMLImageElement> {
+    await this.assets.load([{ id, type: 'image', url: src }]);
+    const img = this.assets.getImage(id);
+    if (!img) {
+      throw new Error(`Failed to load particle image: ${src}`);
+    }
+    return img;
   }
 
   /**
    * Get a loaded image by ID
    */
   getImage(id: string): HTMLImageElement | undefined {
-    return this.images.get(id);
+    return this.assets.getImage(id);
+  }
+
+  /**
+   * Release a loaded image
+   */
+  unloadImage(id: string): void {
+    this.assets.unload(id);
   }
 
   /**
@@ -916,6 +979,11 @@ export class ParticleSystem {
    * Clean up resources
    */
   destroy(): void {
+    // Stop the standalone loop if running
+    if (this.standalone && this.animationFrameId) {
+      cancelAnimationFrame(this.animationFrameId);
+    }
+    
     // Stop resize observer if exists
     if (this.autoResizeObserver && this.canvas) {
       this.autoResizeObserver.unobserve(this.canvas);
@@ -925,7 +993,7 @@ export class ParticleSystem {
     // Clear all emitters
     this.emitters.clear();
     
-    // Clean up images
-    this.images.clear();
+    // Release images
+    this.assets.unloadAll();
   }
 }
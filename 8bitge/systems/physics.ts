@@ -0,0 +1,430 @@
+/**
+ * Physics System for 8BitGE
+ * Lightweight rigid-body physics for rects and circles: gravity, restitution,
+ * friction, mass, collision layers and trigger volumes, stepped on a fixed timestep
+ */
+
+import { EventEmitter } from '../utils/eventEmitter';
+import { UniformGrid } from '../utils/broadphase';
+import { CollisionManifold, aabbVsAabb, circleVsAabb, circleVsCircle } from '../utils/collision';
+import {
+  BodyOptions,
+  BodyShape,
+  BodyType,
+  EngineEvents,
+  Entity,
+  PhysicsBody,
+  PhysicsOptions,
+  Rect,
+  Vector2D
+} from '../types';
+
+/** Penetration allowed before positional correction kicks in */
+const PENETRATION_SLOP = 0.01;
+/** Share of the remaining penetration corrected each step */
+const CORRECTION_PERCENT = 0.8;
+
+interface Contact {
+  a: PhysicsBody;
+  b: PhysicsBody;
+  manifold: CollisionManifold;
+}
+
+export class PhysicsSystem {
+  private events: EventEmitter<EngineEvents>;
+  private gravity: Vector2D;
+  private timestep: number;
+  private maxSteps: number;
+  private iterations: number;
+  private bodies: PhysicsBody[] = [];
+  private grid: UniformGrid<PhysicsBody>;
+  private accumulator: number = 0;
+  private nextId: number = 1;
+  private triggerPairs: Map<string, { trigger: PhysicsBody; body: PhysicsBody }> = new Map();
+
+  constructor(events: EventEmitter<EngineEvents>, options: PhysicsOptions = {}) {
+    this.events = events;
+    this.gravity = options.gravity ? { ...options.gravity } : { x: 0, y: 980 };
+    this.timestep = options.timestep || 1 / 60;
+    this.maxSteps = options.maxSteps || 5;
+    this.iterations = options.iterations || 4;
+    this.grid = new UniformGrid<PhysicsBody>(options.cellSize || 64);
+
+    // Bodies follow their entities out of the game
+    this.events.on('entityRemoved', ({ entity }) => {
+      const body = this.getBody(entity);
+      if (body) this.removeBody(body);
+    });
+  }
+
+  /**
+   * Create a standalone body
+   */
+  createBody(options: BodyOptions): PhysicsBody {
+    const body: PhysicsBody = {
+      id: this.nextId++,
+      type: options.type || BodyType.DYNAMIC,
+      position: options.position || { x: 0, y: 0 },
+      velocity: options.velocity || { x: 0, y: 0 },
+      shape: options.shape || { type: 'rect', width: 16, height: 16 },
+      mass: options.mass ?? 1,
+      restitution: options.restitution ?? 0,
+      friction: options.friction ?? 0.2,
+      gravityScale: options.gravityScale ?? 1,
+      layer: options.layer ?? 1,
+      mask: options.mask ?? 0xffffffff,
+      isTrigger: options.isTrigger ?? false,
+      userData: options.userData
+    };
+
+    this.bodies.push(body);
+    return body;
+  }
+
+  /**
+   * Create a body that moves an entity
+   * The body shares the entity's position and velocity, and uses its
+   * collider as the shape unless one is given
+   */
+  attach(entity: Entity, options: BodyOptions = {}): PhysicsBody {
+    const existing = this.getBody(entity);
+    if (existing) return existing;
+
+    if (!entity.velocity) {
+      entity.velocity = { x: 0, y: 0 };
+    }
+
+    const collider = entity.collider;
+    const shape: BodyShape = options.shape || (collider
+      ? { type: 'rect', offset: { x: collider.x, y: collider.y }, width: collider.width, height: collider.height }
+      : { type: 'rect', width: 16, height: 16 });
+
+    const body = this.createBody({
+      ...options,
+      shape,
+      position: entity.position,
+      velocity: entity.velocity
+    });
+    body.entity = entity;
+
+    return body;
+  }
+
+  /**
+   * Get the body attached to an entity
+   */
+  getBody(entity: Entity): PhysicsBody | undefined {
+    return this.bodies.find(body => body.entity === entity);
+  }
+
+  /**
+   * Remove a body, ending any trigger overlaps it was part of
+   */
+  removeBody(body: PhysicsBody): void {
+    const index = this.bodies.indexOf(body);
+    if (index === -1) return;
+
+    this.bodies.splice(index, 1);
+
+    this.triggerPairs.forEach((pair, key) => {
+      if (pair.trigger === body || pair.body === body) {
+        this.triggerPairs.delete(key);
+        this.events.emit('physics:exit', pair);
+      }
+    });
+  }
+
+  /**
+   * Get all bodies
+   */
+  getBodies(): PhysicsBody[] {
+    return [...this.bodies];
+  }
+
+  /**
+   * Set world gravity in pixels per second squared
+   */
+  setGravity(gravity: Vector2D): void {
+    this.gravity = { ...gravity };
+  }
+
+  /**
+   * Get world gravity
+   */
+  getGravity(): Vector2D {
+    return { ...this.gravity };
+  }
+
+  /**
+   * Apply an instant change in momentum to a dynamic body
+   */
+  applyImpulse(body: PhysicsBody, impulse: Vector2D): void {
+    if (body.type !== BodyType.DYNAMIC || body.mass <= 0) return;
+
+    body.velocity.x += impulse.x / body.mass;
+    body.velocity.y += impulse.y / body.mass;
+  }
+
+  /**
+   * Get the world-space bounding rect of a body
+   */
+  getBounds(body: PhysicsBody): Rect {
+    const shape = body.shape;
+    const offsetX = shape.offset?.x || 0;
+    const offsetY = shape.offset?.y || 0;
+
+    if (shape.type === 'circle') {
+      return {
+        x: body.position.x + offsetX - shape.radius,
+        y: body.position.y + offsetY - shape.radius,
+        width: shape.radius * 2,
+        height: shape.radius * 2
+      };
+    }
+
+    return {
+      x: body.position.x + offsetX,
+      y: body.position.y + offsetY,
+      width: shape.width,
+      height: shape.height
+    };
+  }
+
+  /**
+   * Advance the simulation in fixed steps
+   * @param deltaTime Time since the last update in seconds
+   */
+  update(deltaTime: number): void {
+    this.accumulator += deltaTime;
+
+    let steps = 0;
+    while (this.accumulator >= this.timestep && steps < this.maxSteps) {
+      this.step(this.timestep);
+      this.accumulator -= this.timestep;
+      steps++;
+    }
+
+    // Drop time we could not catch up on rather than spiralling
+    if (steps === this.maxSteps) {
+      this.accumulator = 0;
+    }
+  }
+
+  /**
+   * Remove every body
+   */
+  clear(): void {
+    this.bodies = [];
+    this.triggerPairs.clear();
+    this.accumulator = 0;
+  }
+
+  /**
+   * Run a single physics step
+   */
+  private step(dt: number): void {
+    this.integrate(dt);
+
+    const contacts = this.findContacts();
+
+    // Impacts slower than a couple of steps of gravity are resting contacts and should not bounce
+    const restingSpeed = Math.sqrt(this.gravity.x * this.gravity.x + this.gravity.y * this.gravity.y) * dt * 2;
+
+    for (let i = 0; i < this.iterations; i++) {
+      for (const contact of contacts) {
+        this.resolveVelocity(contact, restingSpeed);
+      }
+    }
+
+    for (const contact of contacts) {
+      this.correctPosition(contact);
+    }
+  }
+
+  /**
+   * Apply gravity and move bodies by their velocity
+   */
+  private integrate(dt: number): void {
+    for (const body of this.bodies) {
+      if (body.type === BodyType.STATIC) continue;
+
+      if (body.type === BodyType.DYNAMIC) {
+        body.velocity.x += this.gravity.x * body.gravityScale * dt;
+        body.velocity.y += this.gravity.y * body.gravityScale * dt;
+      }
+
+      body.position.x += body.velocity.x * dt;
+      body.position.y += body.velocity.y * dt;
+    }
+  }
+
+  /**
+   * Find touching pairs, emitting trigger events and returning solid contacts
+   */
+  private findContacts(): Contact[] {
+    this.grid.clear();
+    for (const body of this.bodies) {
+      this.grid.insert(body, this.getBounds(body));
+    }
+
+    const contacts: Contact[] = [];
+    const touchingTriggers = new Set<string>();
+
+    for (const [a, b] of this.grid.getPairs()) {
+      if (!this.canCollide(a, b)) continue;
+
+      const manifold = this.testShapes(a, b);
+      if (!manifold) continue;
+
+      if (a.isTrigger || b.isTrigger) {
+        const trigger = a.isTrigger ? a : b;
+        const body = trigger === a ? b : a;
+        const key = `${trigger.id}:${body.id}`;
+        touchingTriggers.add(key);
+
+        if (!this.triggerPairs.has(key)) {
+          const pair = { trigger, body };
+          this.triggerPairs.set(key, pair);
+          this.events.emit('physics:enter', pair);
+        }
+        continue;
+      }
+
+      contacts.push({ a, b, manifold });
+    }
+
+    this.triggerPairs.forEach((pair, key) => {
+      if (!touchingTriggers.has(key)) {
+        this.triggerPairs.delete(key);
+        this.events.emit('physics:exit', pair);
+      }
+    });
+
+    return contacts;
+  }
+
+  /**
+   * Check layers, masks and body types to see if a pair can interact
+   */
+  private canCollide(a: PhysicsBody, b: PhysicsBody): boolean {
+    if (!(a.layer & b.mask) || !(b.layer & a.mask)) return false;
+
+    // Triggers see every body; solid pairs need something that can be pushed
+    if (a.isTrigger || b.isTrigger) return true;
+    return a.type === BodyType.DYNAMIC || b.type === BodyType.DYNAMIC;
+  }
+
+  /**
+   * Run the narrow-phase test for a pair of shapes
+   * The normal points from `a` towards `b`
+   */
+  private testShapes(a: PhysicsBody, b: PhysicsBody): CollisionManifold | null {
+    if (a.shape.type === 'circle' && b.shape.type === 'circle') {
+      return circleVsCircle(this.getCircle(a), this.getCircle(b));
+    }
+
+    if (a.shape.type === 'circle') {
+      return circleVsAabb(this.getCircle(a), this.getBounds(b));
+    }
+
+    if (b.shape.type === 'circle') {
+      const manifold = circleVsAabb(this.getCircle(b), this.getBounds(a));
+      if (!manifold) return null;
+      return {
+        ...manifold,
+        normal: { x: -manifold.normal.x, y: -manifold.normal.y }
+      };
+    }
+
+    return aabbVsAabb(this.getBounds(a), this.getBounds(b));
+  }
+
+  /**
+   * Get the world-space circle of a circle body
+   */
+  private getCircle(body: PhysicsBody): { x: number; y: number; radius: number } {
+    const shape = body.shape as Extract<BodyShape, { type: 'circle' }>;
+    return {
+      x: body.position.x + (shape.offset?.x || 0),
+      y: body.position.y + (shape.offset?.y || 0),
+      radius: shape.radius
+    };
+  }
+
+  /**
+   * Inverse mass (0 for bodies that cannot be pushed)
+   */
+  private getInverseMass(body: PhysicsBody): number {
+    return body.type === BodyType.DYNAMIC && body.mass > 0 ? 1 / body.mass : 0;
+  }
+
+  /**
+   * Apply bounce and friction impulses to a contact
+   */
+  private resolveVelocity({ a, b, manifold }: Contact, restingSpeed: number): void {
+    const invMassA = this.getInverseMass(a);
+    const invMassB = this.getInverseMass(b);
+    const invMassSum = invMassA + invMassB;
+    if (invMassSum === 0) return;
+
+    const normal = manifold.normal;
+    const relative = {
+      x: b.velocity.x - a.velocity.x,
+      y: b.velocity.y - a.velocity.y
+    };
+    const velocityAlongNormal = relative.x * normal.x + relative.y * normal.y;
+
+    // Already separating
+    if (velocityAlongNormal > 0) return;
+
+    const restitution = -velocityAlongNormal > restingSpeed ? Math.max(a.restitution, b.restitution) : 0;
+    const j = -(1 + restitution) * velocityAlongNormal / invMassSum;
+
+    a.velocity.x -= normal.x * j * invMassA;
+    a.velocity.y -= normal.y * j * invMassA;
+    b.velocity.x += normal.x * j * invMassB;
+    b.velocity.y += normal.y * j * invMassB;
+
+    // Friction along the contact tangent, clamped by the Coulomb cone
+    const after = {
+      x: b.velocity.x - a.velocity.x,
+      y: b.velocity.y - a.velocity.y
+    };
+    const alongNormal = after.x * normal.x + after.y * normal.y;
+    const tangent = {
+      x: after.x - normal.x * alongNormal,
+      y: after.y - normal.y * alongNormal
+    };
+    const tangentLength = Math.sqrt(tangent.x * tangent.x + tangent.y * tangent.y);
+    if (tangentLength < 1e-6) return;
+
+    tangent.x /= tangentLength;
+    tangent.y /= tangentLength;
+
+    const friction = Math.sqrt(a.friction * b.friction);
+    let jt = -(after.x * tangent.x + after.y * tangent.y) / invMassSum;
+    jt = Math.max(-j * friction, Math.min(j * friction, jt));
+
+    a.velocity.x -= tangent.x * jt * invMassA;
+    a.velocity.y -= tangent.y * jt * invMassA;
+    b.velocity.x += tangent.x * jt * invMassB;
+    b.velocity.y += tangent.y * jt * invMassB;
+  }
+
+  /**
+   * Push overlapping bodies apart in proportion to their inverse mass
+   */
+  private correctPosition({ a, b, manifold }: Contact): void {
+    const invMassA = this.getInverseMass(a);
+    const invMassB = this.getInverseMass(b);
+    const invMassSum = invMassA + invMassB;
+    if (invMassSum === 0) return;
+
+    const amount = Math.max(manifold.penetration - PENETRATION_SLOP, 0) / invMassSum * CORRECTION_PERCENT;
+
+    a.position.x -= manifold.normal.x * amount * invMassA;
+    a.position.y -= manifold.normal.y * amount * invMassA;
+    b.position.x += manifold.normal.x * amount * invMassB;
+    b.position.y += manifold.normal.y * amount * invMassB;
+  }
+}
@@ -0,0 +1,353 @@
+/**
+ * Profile System for 8BitGE
+ * Gathers everything a player has stored (player id, leaderboards,
+ * achievements, game storage and games' own best scores) into one file
+ * with an integrity checksum, and merges such a file into this browser's data
+ */
+
+import { createStorageAdapter } from './storage';
+import {
+  Achievement,
+  LeaderboardEntry,
+  ProfileData,
+  ProfileFile,
+  ProfileImportOptions,
+  ProfileImportResult,
+  ProfileOptions,
+  SaveFile,
+  StorageAdapter
+} from '../types';
+
+/** Current profile file version */
+export const PROFILE_VERSION = 1;
+
+/** Keys the leaderboard and achievement systems keep in localStorage */
+const PLAYER_ID_KEY = '8bitge_player_id';
+const LEADERBOARD_PREFIX = '8bitge_leaderboard_';
+const ACHIEVEMENTS_PREFIX = '8bitge_achievements_';
+
+/** Prefix shared by every StorageSystem key */
+const STORAGE_PREFIX = '8bitge_';
+
+/** Entries LeaderboardSystem keeps per game */
+const LEADERBOARD_LIMIT = 100;
+
+/** Save slot keys within a game's storage: 8bitge_<gameId>_save:<slot> */
+const SAVE_KEY = /^(8bitge_.+?_)save:(.+)$/;
+
+export class ProfileSystem {
+  private scoreKeys: string[];
+  private secret: string;
+  private adapter: StorageAdapter;
+
+  constructor(options: ProfileOptions = {}) {
+    this.scoreKeys = options.scoreKeys || [];
+    this.secret = options.secret || '8bitge-profile';
+    this.adapter = typeof options.adapter === 'object' ? options.adapter : createStorageAdapter(options.adapter);
+  }
+
+  /**
+   * Gather the player's data into a checksummed profile
+   */
+  async createProfile(): Promise<ProfileFile> {
+    const profile: ProfileData = {
+      playerId: localStorage.getItem(PLAYER_ID_KEY),
+      leaderboards: {},
+      achievements: {},
+      storage: {},
+      scores: {}
+    };
+
+    this.localKeys(LEADERBOARD_PREFIX).forEach(key => {
+      const entries = this.readJSON<LeaderboardEntry[]>(key);
+      if (Array.isArray(entries)) profile.leaderboards[key.slice(LEADERBOARD_PREFIX.length)] = entries;
+    });
+    this.localKeys(ACHIEVEMENTS_PREFIX).forEach(key => {
+      const achievements = this.readJSON<Achievement[]>(key);
+      if (Array.isArray(achievements)) profile.achievements[key.slice(ACHIEVEMENTS_PREFIX.length)] = achievements;
+    });
+    this.scoreKeys.forEach(key => {
+      const value = localStorage.getItem(key);
+      if (value !== null) profile.scores[key] = value;
+    });
+
+    // Keys a game hasn't moved out of localStorage yet, then the backend's (which win)
+    if (this.adapter.name !== 'localstorage') {
+      this.localKeys(STORAGE_PREFIX).filter(key => this.isStorageKey(key)).forEach(key => {
+        profile.storage[key] = localStorage.getItem(key)!;
+      });
+    }
+    const keys = (await this.adapter.keys(STORAGE_PREFIX)).filter(key => this.isStorageKey(key));
+    const values = await Promise.all(keys.map(key => this.adapter.get(key)));
+    keys.forEach((key, i) => {
+      if (values[i] !== null) profile.storage[key] = values[i]!;
+    });
+
+    return {
+      format: '8bitge-profile',
+      version: PROFILE_VERSION,
+      exportedAt: Date.now(),
+      signature: await this.checksum(profile),
+      profile
+    };
+  }
+
+  /**
+   * Export the profile as a file, gzipped when asked and the browser supports it
+   */
+  async exportProfile(compress: boolean = false): Promise<Blob> {
+    const text = JSON.stringify(await this.createProfile());
+    const blob = new Blob([text], { type: 'application/json' });
+    if (!compress || typeof CompressionStream === 'undefined') return blob;
+
+    const compressed = await new Response(blob.stream().pipeThrough(new CompressionStream('gzip'))).arrayBuffer();
+    return new Blob([compressed], { type: 'application/gzip' });
+  }
+
+  /**
+   * Read a profile file (plain or gzipped) and check its checksum
+   * Throws if it isn't a profile, is from a newer version or was changed
+   */
+  async readProfile(source: Blob | string): Promise<ProfileFile> {
+    let text: string;
+    if (typeof source === 'string') {
+      text = source;
+    } else {
+      const bytes = new Uint8Array(await source.slice(0, 2).arrayBuffer());
+      if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+        if (typeof DecompressionStream === 'undefined') {
+          throw new Error('[8BitGE] This browser can\'t read compressed profiles');
+        }
+        text = await new Response(source.stream().pipeThrough(new DecompressionStream('gzip'))).text();
+      } else {
+        text = await source.text();
+      }
+    }
+
+    let file: ProfileFile;
+    try {
+      file = JSON.parse(text);
+    } catch (e) {
+      throw new Error('[8BitGE] Not a profile file');
+    }
+
+    if (!file || file.format !== '8bitge-profile' || !file.profile || typeof file.profile !== 'object') {
+      throw new Error('[8BitGE] Not a profile file');
+    }
+    if (!Number.isInteger(file.version) || file.version > PROFILE_VERSION) {
+      throw new Error(`[8BitGE] Unsupported profile version: ${file.version}`);
+    }
+    if (file.signature !== await this.checksum(file.profile)) {
+      throw new Error('[8BitGE] Profile checksum doesn\'t match; the file was changed or damaged');
+    }
+    return file;
+  }
+
+  /**
+   * Merge a profile file into this browser's data
+   * Best scores and leaderboards keep the higher scores, achievements are
+   * combined, save slots keep the newer save, and other stored values keep
+   * this browser's copy unless overwrite is set. Reload running games afterwards,
+   * as they hold their data in memory.
+   */
+  async importProfile(source: Blob | string, options: ProfileImportOptions = {}): Promise<ProfileImportResult> {
+    const { profile } = await this.readProfile(source);
+    const result: ProfileImportResult = { scores: 0, achievements: 0, values: 0, conflicts: 0 };
+
+    // Imported scores become this player's
+    let playerId = localStorage.getItem(PLAYER_ID_KEY);
+    if (!playerId && profile.playerId) {
+      playerId = profile.playerId;
+      localStorage.setItem(PLAYER_ID_KEY, playerId);
+    }
+
+    Object.entries(profile.leaderboards || {}).forEach(([gameId, entries]) => {
+      if (!Array.isArray(entries)) return;
+      const key = LEADERBOARD_PREFIX + gameId;
+      const local = this.readJSON<LeaderboardEntry[]>(key) || [];
+      const seen = new Set(local.map(entry => this.entryKey(entry)));
+
+      entries.forEach(entry => {
+        const imported = profile.playerId && entry.playerId === profile.playerId && playerId
+          ? { ...entry, playerId }
+          : entry;
+        if (seen.has(this.entryKey(imported))) return;
+        seen.add(this.entryKey(imported));
+        local.push(imported);
+        result.scores++;
+      });
+
+      local.sort((a, b) => b.score - a.score);
+      localStorage.setItem(key, JSON.stringify(local.slice(0, LEADERBOARD_LIMIT)));
+    });
+
+    Object.entries(profile.achievements || {}).forEach(([gameId, achievements]) => {
+      if (!Array.isArray(achievements)) return;
+      const key = ACHIEVEMENTS_PREFIX + gameId;
+      const local = this.readJSON<Achievement[]>(key) || [];
+
+      achievements.forEach(imported => {
+        const achievement = local.find(entry => entry.id === imported.id);
+        if (!achievement) {
+          local.push(imported);
+          if (imported.unlocked) result.achievements++;
+          return;
+        }
+
+        if (imported.unlocked) {
+          if (!achievement.unlocked) result.achievements++;
+          const dates = [achievement.unlocked && achievement.unlockDate, imported.unlockDate]
+            .filter(Boolean)
+            .map(date => new Date(date as Date).getTime());
+          achievement.unlocked = true;
+          achievement.unlockDate = dates.length ? new Date(Math.min(...dates)) : undefined;
+        }
+        if (imported.progress && achievement.progress) {
+          achievement.progress.current = Math.max(achievement.progress.current, imported.progress.current);
+        }
+      });
+
+      localStorage.setItem(key, JSON.stringify(local));
+    });
+
+    Object.entries(profile.scores || {}).forEach(([key, value]) => {
+      const local = localStorage.getItem(key);
+      if (typeof value !== 'string' || local === value) return;
+      // Non-numeric values never count as higher
+      if (local !== null && !(Number(value) > Number(local))) {
+        result.conflicts++;
+        return;
+      }
+      localStorage.setItem(key, value);
+      result.values++;
+    });
+
+    await this.importStorage(profile.storage || {}, options, result);
+    return result;
+  }
+
+  /**
+   * Merge imported StorageSystem values, rebuilding the save slot lists of
+   * games whose slots changed
+   */
+  private async importStorage(storage: Record<string, string>, options: ProfileImportOptions, result: ProfileImportResult): Promise<void> {
+    const changedGames = new Set<string>();
+
+    for (const [key, value] of Object.entries(storage)) {
+      if (!this.isStorageKey(key) || typeof value !== 'string') continue;
+
+      const local = await this.adapter.get(key);
+      if (local === value) continue;
+
+      const slot = key.match(SAVE_KEY);
+      if (slot) {
+        if (local !== null && this.saveTime(local) >= this.saveTime(value)) {
+          result.conflicts++;
+          continue;
+        }
+        // The slot's thumbnail goes with it
+        const thumbnailKey = `${slot[1]}screenshot:${slot[2]}`;
+        if (storage[thumbnailKey]) {
+          await this.adapter.set(thumbnailKey, storage[thumbnailKey]);
+        } else {
+          await this.adapter.delete(thumbnailKey);
+        }
+        changedGames.add(slot[1]);
+      } else if (/_(saves|screenshot:.*)$/.test(key.slice(STORAGE_PREFIX.length))) {
+        // Rebuilt from the slots / moved with them
+        continue;
+      } else if (local !== null && !options.overwrite) {
+        result.conflicts++;
+        continue;
+      }
+
+      await this.adapter.set(key, value);
+      result.values++;
+    }
+
+    for (const prefix of changedGames) {
+      const keys = (await this.adapter.keys(`${prefix}save:`)).filter(key => SAVE_KEY.test(key));
+      const files = await Promise.all(keys.map(key => this.adapter.get(key)));
+      const index = files
+        .map(text => this.parseSave(text))
+        .filter((file): file is SaveFile => file !== null)
+        .map(file => file.info);
+      await this.adapter.set(`${prefix}saves`, JSON.stringify(index));
+    }
+  }
+
+  /**
+   * Checksum a profile with HMAC-SHA-256
+   * The key ships with the game, so this catches damaged and hand-edited files,
+   * not forgeries
+   */
+  private async checksum(profile: ProfileData): Promise<string> {
+    // crypto.subtle is undefined outside secure contexts (plain http:// pages)
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+      throw new Error('[8BitGE] Profiles can only be exported and imported on a secure (https://) page');
+    }
+
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(this.secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(JSON.stringify(profile)));
+    return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * Check if a localStorage-style key belongs to a game's StorageSystem
+   */
+  private isStorageKey(key: string): boolean {
+    return key.startsWith(STORAGE_PREFIX) && key !== PLAYER_ID_KEY &&
+      !key.startsWith(LEADERBOARD_PREFIX) && !key.startsWith(ACHIEVEMENTS_PREFIX);
+  }
+
+  /**
+   * localStorage keys starting with a prefix
+   */
+  private localKeys(prefix: string): string[] {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(prefix)) keys.push(key);
+    }
+    return keys;
+  }
+
+  /**
+   * Read a JSON value from localStorage (null if missing or unreadable)
+   */
+  private readJSON<T>(key: string): T | null {
+    try {
+      const text = localStorage.getItem(key);
+      return text ? JSON.parse(text) : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  /**
+   * Parse a save slot file (null if it isn't one)
+   */
+  private parseSave(text: string | null): SaveFile | null {
+    try {
+      const file = text ? JSON.parse(text) : null;
+      return file && file.info && typeof file.info === 'object' ? file : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  /**
+   * When a save slot was written (0 if unreadable)
+   */
+  private saveTime(text: string): number {
+    return this.parseSave(text)?.info.timestamp || 0;
+  }
+
+  /**
+   * Identify a leaderboard entry, to skip ones already present
+   */
+  private entryKey(entry: LeaderboardEntry): string {
+    return `${entry.playerId}:${entry.score}:${entry.date}`;
+  }
+}
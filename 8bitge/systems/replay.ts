@@ -0,0 +1,325 @@
+/**
+ * Replay System for 8BitGE
+ * Records the random seed and every input against the fixed update it arrived
+ * before, and plays recordings back deterministically with pause, seek and speed control
+ */
+
+import type { GameEngine } from '../core';
+import { EventEmitter } from '../utils/eventEmitter';
+import { setRandomSeed } from '../utils/math';
+import { createSeed } from '../utils/random';
+import { EngineEvents, ReplayData } from '../types';
+
+/** Current replay format version */
+export const REPLAY_VERSION = 1;
+
+/** Storage key prefix of saved replays (evicted first when storage is full) */
+const REPLAY_KEY = 'replay:';
+
+/**
+ * Turn a replay into a string for saving or sharing
+ */
+export function serializeReplay(replay: ReplayData): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Read a replay saved with serializeReplay (null if it isn't one)
+ */
+export function parseReplay(text: string): ReplayData | null {
+  try {
+    const replay = JSON.parse(text);
+    if (!replay || typeof replay !== 'object' || typeof replay.seed !== 'number' ||
+        typeof replay.frames !== 'number' || !Array.isArray(replay.inputs)) {
+      console.error('[8BitGE] Not a replay file');
+      return null;
+    }
+    return replay as ReplayData;
+  } catch (e) {
+    console.error('[8BitGE] Failed to parse replay', e);
+    return null;
+  }
+}
+
+export class ReplaySystem {
+  private events: EventEmitter<EngineEvents>;
+  private engine: GameEngine;
+  /** Fixed updates run since recording or playback started */
+  private frame: number = 0;
+  private recording: ReplayData | null = null;
+  private playback: ReplayData | null = null;
+  /** Next input to apply during playback */
+  private cursor: number = 0;
+  private paused: boolean = false;
+  private speed: number = 1;
+
+  constructor(events: EventEmitter<EngineEvents>, engine: GameEngine) {
+    this.events = events;
+    this.engine = engine;
+  }
+
+  /**
+   * Seed the random generator and start recording input
+   * Call this before generating the level and starting the game, so playback
+   * draws the same random numbers
+   */
+  startRecording(seed: number = createSeed()): void {
+    this.stop();
+    if (this.recording) this.stopRecording();
+
+    const config = this.engine.getConfig();
+    const { width, height } = this.engine.input.getElementSize();
+
+    setRandomSeed(seed);
+    this.frame = 0;
+    this.recording = {
+      version: REPLAY_VERSION,
+      gameId: config.gameId,
+      seed: seed >>> 0,
+      updateRate: config.fixedUpdateRate,
+      frames: 0,
+      width,
+      height,
+      inputs: []
+    };
+
+    this.engine.input.reset();
+    this.engine.input.setClock(() => this.getTime());
+    this.engine.input.setRecorder(input => this.recording!.inputs.push([this.frame, input]));
+    this.events.emit('replay:recordStarted', { seed: this.recording.seed });
+  }
+
+  /**
+   * Stop recording and get the replay (null if nothing was being recorded)
+   */
+  stopRecording(): ReplayData | null {
+    const replay = this.recording;
+    if (!replay) return null;
+
+    replay.frames = this.frame;
+    this.recording = null;
+    this.engine.input.setRecorder(null);
+    this.engine.input.setClock(null);
+    this.events.emit('replay:recordStopped', { frames: replay.frames });
+    return replay;
+  }
+
+  /**
+   * Check if input is being recorded
+   */
+  isRecording(): boolean {
+    return this.recording !== null;
+  }
+
+  /**
+   * Reset the game and play a replay from the start
+   * The game should rebuild its state on gameReset / gameStart the same way it
+   * did when the replay was recorded. Returns false if the replay can't be played.
+   */
+  play(replay: ReplayData): boolean {
+    const config = this.engine.getConfig();
+
+    if (replay.version !== REPLAY_VERSION) {
+      console.error(`[8BitGE] Unsupported replay version: ${replay.version}`);
+      return false;
+    }
+    if (replay.gameId !== config.gameId) {
+      console.error(`[8BitGE] Replay was recorded for '${replay.gameId}', not '${config.gameId}'`);
+      return false;
+    }
+    if (replay.updateRate !== config.fixedUpdateRate) {
+      console.warn(`[8BitGE] Replay was recorded at ${replay.updateRate} updates per second; it may play back differently`);
+    }
+
+    if (this.recording) this.stopRecording();
+    this.stop();
+
+    this.playback = replay;
+    this.engine.input.startPlayback({ width: replay.width, height: replay.height });
+    this.engine.input.setClock(() => this.getTime());
+    this.restart();
+
+    this.events.emit('replay:started', { frames: replay.frames });
+    return true;
+  }
+
+  /**
+   * Stop playback and give input back to the player
+   */
+  stop(): void {
+    if (!this.playback) return;
+
+    this.playback = null;
+    this.paused = false;
+    this.speed = 1;
+    this.engine.input.stopPlayback();
+    this.engine.input.setClock(null);
+  }
+
+  /**
+   * Check if a replay is playing (or paused)
+   */
+  isPlaying(): boolean {
+    return this.playback !== null;
+  }
+
+  /**
+   * Pause playback; the game keeps rendering but doesn't update
+   */
+  pause(): void {
+    if (this.playback) this.paused = true;
+  }
+
+  /**
+   * Resume playback (restarting a replay that reached its end)
+   */
+  resume(): void {
+    if (!this.playback) return;
+
+    if (this.frame >= this.playback.frames) {
+      this.seek(0);
+    }
+    this.paused = false;
+  }
+
+  /**
+   * Check if playback is paused (always false outside playback)
+   */
+  isPaused(): boolean {
+    return this.playback !== null && this.paused;
+  }
+
+  /**
+   * Set the playback speed (e.g. 0.5 or 2)
+   */
+  setSpeed(speed: number): void {
+    this.speed = Math.max(0.1, speed);
+  }
+
+  /**
+   * Get the playback speed (1 outside playback)
+   */
+  getSpeed(): number {
+    return this.playback ? this.speed : 1;
+  }
+
+  /**
+   * Jump to a frame of the replay
+   * Going back replays from the start, so the game is reset; skipped frames
+   * are simulated without rendering and with sound effects muted
+   */
+  seek(frame: number): void {
+    if (!this.playback) return;
+
+    const target = Math.max(0, Math.min(Math.floor(frame), this.playback.frames));
+    const paused = this.paused;
+    if (target < this.frame) {
+      this.restart();
+    }
+
+    const audio = this.engine.audio;
+    const muted = audio.isBusMuted('sfx');
+    this.paused = false;
+    if (!muted) audio.setBusMuted('sfx', true);
+
+    this.engine.advance(target - this.frame);
+
+    if (!muted) audio.setBusMuted('sfx', false);
+    this.paused = paused || this.frame >= this.playback.frames;
+    this.events.emit('replay:seeked', { frame: this.frame });
+  }
+
+  /**
+   * Get the current frame of the recording or replay
+   */
+  getFrame(): number {
+    return this.frame;
+  }
+
+  /**
+   * Get the length of the replay in frames (or of the recording so far)
+   */
+  getLength(): number {
+    if (this.playback) return this.playback.frames;
+    return this.recording ? this.frame : 0;
+  }
+
+  /**
+   * Store a replay under a name
+   * Resolves false if it couldn't be stored; old replays may be evicted to make room
+   */
+  saveReplay(id: string, replay: ReplayData): Promise<boolean> {
+    return this.engine.storage.set(REPLAY_KEY + id, serializeReplay(replay));
+  }
+
+  /**
+   * Load a replay stored with saveReplay (null if it's missing or invalid)
+   */
+  async loadReplay(id: string): Promise<ReplayData | null> {
+    const text = await this.engine.storage.get(REPLAY_KEY + id);
+    return text ? parseReplay(text) : null;
+  }
+
+  /**
+   * List the names of stored replays
+   */
+  async listReplays(): Promise<string[]> {
+    const keys = await this.engine.storage.keys(REPLAY_KEY);
+    return keys.map(key => key.slice(REPLAY_KEY.length));
+  }
+
+  /**
+   * Delete a stored replay
+   */
+  deleteReplay(id: string): Promise<void> {
+    return this.engine.storage.delete(REPLAY_KEY + id);
+  }
+
+  /**
+   * Apply the replay's inputs for the coming update (called by the engine)
+   */
+  beginUpdate(): void {
+    const replay = this.playback;
+    if (!replay) return;
+
+    while (this.cursor < replay.inputs.length && replay.inputs[this.cursor][0] <= this.frame) {
+      this.engine.input.applyInput(replay.inputs[this.cursor][1]);
+      this.cursor++;
+    }
+  }
+
+  /**
+   * Count a finished update, pausing when the replay runs out (called by the engine)
+   */
+  endUpdate(): void {
+    if (!this.playback && !this.recording) return;
+
+    this.frame++;
+    if (this.playback && this.frame >= this.playback.frames && !this.paused) {
+      this.paused = true;
+      this.events.emit('replay:ended', { frames: this.frame });
+    }
+  }
+
+  /**
+   * Reset the game and seed the random generator for a run from frame 0
+   */
+  private restart(): void {
+    const replay = this.playback!;
+
+    this.frame = 0;
+    this.cursor = 0;
+    this.paused = false;
+    setRandomSeed(replay.seed);
+    this.engine.input.reset();
+    this.engine.reset();
+    this.engine.start();
+  }
+
+  /**
+   * Game time in milliseconds, counted in fixed updates
+   */
+  private getTime(): number {
+    return this.frame * this.engine.getFixedDeltaTime() * 1000;
+  }
+}
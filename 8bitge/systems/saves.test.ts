@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'bun:test';
+import type { GameEngine } from '../core';
+import { SaveSystem } from './saves';
+import { MemoryStorageAdapter, StorageSystem } from './storage';
+import { EventEmitter } from '../utils/eventEmitter';
+import { EngineEvents, GameStatus, SaveSlotInfo } from '../types';
+
+const PREFIX = '8bitge_test_';
+const EARLIER: SaveSlotInfo = { slot: 'earlier', name: 'Earlier', timestamp: 1, level: 3, score: 300, version: 1 };
+
+/**
+ * A backend already holding one save slot from an earlier session
+ */
+async function createStoredAdapter(): Promise<MemoryStorageAdapter> {
+  const adapter = new MemoryStorageAdapter();
+  const state = { score: 300, level: 3, timer: 0, custom: {} };
+  await adapter.set(`${PREFIX}save:earlier`, JSON.stringify({ info: EARLIER, state }));
+  await adapter.set(`${PREFIX}saves`, JSON.stringify([EARLIER]));
+  return adapter;
+}
+
+function createSaves(storage: StorageSystem): SaveSystem {
+  const engine = {
+    state: { status: GameStatus.RUNNING, score: 50, level: 1, timer: 0, entities: [], custom: {} },
+    replay: { isPlaying: () => false },
+    getCanvas: () => null
+  } as unknown as GameEngine;
+  return new SaveSystem(new EventEmitter<EngineEvents>(), engine, storage, { autosave: false });
+}
+
+describe('SaveSystem', () => {
+  test('a save made before storage has loaded keeps the stored slots listed', async () => {
+    const storage = new StorageSystem('test', true, { adapter: await createStoredAdapter() });
+    const saves = createSaves(storage);
+
+    saves.save('quick');
+    await storage.ready();
+    await Promise.resolve();
+
+    expect(saves.list().map(info => info.slot).sort()).toEqual(['earlier', 'quick']);
+  });
+
+  test('a delete made before storage has loaded keeps the other stored slots listed', async () => {
+    const adapter = await createStoredAdapter();
+    const other: SaveSlotInfo = { slot: 'other', name: 'Other', timestamp: 2, level: 1, score: 0, version: 1 };
+    await adapter.set(`${PREFIX}save:other`, JSON.stringify({ info: other, state: {} }));
+    await adapter.set(`${PREFIX}saves`, JSON.stringify([EARLIER, other]));
+
+    const storage = new StorageSystem('test', true, { adapter });
+    const saves = createSaves(storage);
+
+    saves.delete('other');
+    await storage.ready();
+    await Promise.resolve();
+
+    expect(saves.list().map(info => info.slot)).toEqual(['earlier']);
+  });
+
+  test('saves made after loading are listed right away', async () => {
+    const storage = new StorageSystem('test', true, { adapter: await createStoredAdapter() });
+    await storage.ready();
+    const saves = createSaves(storage);
+
+    saves.save('quick');
+    expect(saves.list().map(info => info.slot).sort()).toEqual(['earlier', 'quick']);
+  });
+});
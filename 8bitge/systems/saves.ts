@@ -0,0 +1,357 @@
+/**
+ * Save System for 8BitGE
+ * Named save slots with metadata and thumbnails, versioned schemas with a
+ * migration chain, validation of loaded data, and autosave
+ */
+
+import type { GameEngine } from '../core';
+import type { StorageSystem } from './storage';
+import { EventEmitter } from '../utils/eventEmitter';
+import { EngineEvents, GameStatus, SaveFile, SaveOptions, SavedState, SaveSlotInfo } from '../types';
+
+/** Slot written by autosave and GameEngine.saveState */
+export const AUTOSAVE_SLOT = 'autosave';
+
+/** Storage key listing the slots */
+const INDEX_KEY = 'saves';
+
+/** Key the engine saved its state under before save slots */
+const LEGACY_KEY = 'gameState';
+
+export class SaveSystem {
+  private events: EventEmitter<EngineEvents>;
+  private engine: GameEngine;
+  private storage: StorageSystem;
+  private options: Required<Omit<SaveOptions, 'validate'>> & Pick<SaveOptions, 'validate'>;
+  private visibilityHandler: (() => void) | null = null;
+  /** State written by the last autosave, to skip unchanged ones */
+  private lastAutosave: string | null = null;
+
+  constructor(events: EventEmitter<EngineEvents>, engine: GameEngine, storage: StorageSystem, options: SaveOptions = {}) {
+    this.events = events;
+    this.engine = engine;
+    this.storage = storage;
+    this.options = {
+      version: options.version ?? 1,
+      migrations: options.migrations || {},
+      validate: options.validate,
+      autosave: options.autosave ?? true,
+      thumbnailWidth: options.thumbnailWidth ?? 160
+    };
+
+    this.storage.ready().then(() => this.importLegacy());
+
+    if (this.options.autosave) {
+      this.events.on('gamePause', () => this.autosave());
+      if (typeof document !== 'undefined') {
+        this.visibilityHandler = () => {
+          if (document.hidden) this.autosave();
+        };
+        document.addEventListener('visibilitychange', this.visibilityHandler);
+      }
+    }
+  }
+
+  /**
+   * Write the current game state to a slot
+   * Returns null when persistence is disabled or the state can't be saved
+   */
+  save(slot: string = AUTOSAVE_SLOT, name?: string): SaveSlotInfo | null {
+    if (!this.storage.isEnabled()) return null;
+
+    const state = this.getSavedState();
+    if (!state) return null;
+
+    const info: SaveSlotInfo = {
+      slot,
+      name: name || this.readInfo(slot)?.name || slot,
+      timestamp: Date.now(),
+      level: state.level,
+      score: state.score,
+      version: this.options.version
+    };
+
+    this.storage.setItem(this.slotKey(slot), JSON.stringify({ info, state }));
+    // Thumbnails are stored apart, so they can be evicted when storage is full
+    const thumbnail = this.captureThumbnail();
+    if (thumbnail) {
+      this.storage.setItem(this.thumbnailKey(slot), thumbnail);
+    } else {
+      this.storage.removeItem(this.thumbnailKey(slot));
+    }
+    this.updateIndex(list => [...list.filter(entry => entry.slot !== slot), info]);
+    this.events.emit('save:saved', { slot, info });
+    return info;
+  }
+
+  /**
+   * Load a slot into the game state (status and entities are left alone)
+   * Returns false if the slot is missing or was rejected
+   */
+  load(slot: string = AUTOSAVE_SLOT): boolean {
+    const file = this.read(slot);
+    if (!file) return false;
+
+    this.engine.state = { ...this.engine.state, ...file.state };
+    this.events.emit('save:loaded', { slot, info: file.info });
+    return true;
+  }
+
+  /**
+   * Read, upgrade and validate a slot without loading it
+   * Upgraded saves are written back; corrupt ones are reported and left untouched
+   */
+  read(slot: string): SaveFile | null {
+    const text = this.storage.getItem(this.slotKey(slot));
+    if (!text) return null;
+
+    let file: SaveFile;
+    try {
+      file = JSON.parse(text);
+    } catch (e) {
+      return this.reject(slot, 'not valid JSON');
+    }
+
+    if (!file || typeof file !== 'object' || !file.info || typeof file.info !== 'object') {
+      return this.reject(slot, 'missing slot info');
+    }
+
+    let version = file.info.version;
+    if (!Number.isInteger(version) || version < 1) {
+      return this.reject(slot, `invalid version ${version}`);
+    }
+    if (version > this.options.version) {
+      return this.reject(slot, `saved by a newer version (${version} > ${this.options.version})`);
+    }
+
+    let state = file.state;
+    const upgraded = version < this.options.version;
+    while (version < this.options.version) {
+      const migrate = this.options.migrations[version];
+      if (!migrate) {
+        return this.reject(slot, `no migration from version ${version}`);
+      }
+      try {
+        state = migrate(state);
+      } catch (e) {
+        return this.reject(slot, `migration from version ${version} failed: ${e}`);
+      }
+      version++;
+    }
+
+    if (!this.isValidState(state)) {
+      return this.reject(slot, 'invalid state');
+    }
+
+    const result: SaveFile = {
+      info: { ...file.info, slot, version, level: state.level, score: state.score },
+      state
+    };
+    if (upgraded) {
+      this.storage.setItem(this.slotKey(slot), JSON.stringify(result));
+    }
+    return result;
+  }
+
+  /**
+   * Delete a slot
+   */
+  delete(slot: string): void {
+    this.storage.removeItem(this.slotKey(slot));
+    this.storage.removeItem(this.thumbnailKey(slot));
+    this.updateIndex(list => list.filter(entry => entry.slot !== slot));
+    if (slot === AUTOSAVE_SLOT) this.lastAutosave = null;
+    this.events.emit('save:deleted', { slot });
+  }
+
+  /**
+   * Check if a slot has been written
+   */
+  has(slot: string): boolean {
+    return this.storage.getItem(this.slotKey(slot)) !== null;
+  }
+
+  /**
+   * Get a slot's thumbnail as a PNG data URL (null if none was taken or it was evicted)
+   */
+  getThumbnail(slot: string): string | null {
+    return this.storage.getItem(this.thumbnailKey(slot));
+  }
+
+  /**
+   * List saved slots, newest first (thumbnails come from getThumbnail)
+   */
+  list(): SaveSlotInfo[] {
+    const index = this.storage.loadObject<SaveSlotInfo[]>(INDEX_KEY);
+    if (!Array.isArray(index)) return [];
+
+    return index
+      .filter(info => info && typeof info.slot === 'string' && this.has(info.slot))
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * Save to the autosave slot if a game is in progress and its state changed
+   */
+  autosave(): void {
+    const status = this.engine.state.status;
+    if (status !== GameStatus.RUNNING && status !== GameStatus.PAUSED) return;
+    // A replay's state isn't the player's
+    if (this.engine.replay.isPlaying()) return;
+
+    const saved = this.getSavedState();
+    if (!saved) return;
+
+    const state = JSON.stringify(saved);
+    if (state === this.lastAutosave) return;
+
+    if (this.save(AUTOSAVE_SLOT)) {
+      this.lastAutosave = state;
+    }
+  }
+
+  /**
+   * Get the current schema version
+   */
+  getVersion(): number {
+    return this.options.version;
+  }
+
+  /**
+   * Stop autosaving when the page is hidden
+   */
+  destroy(): void {
+    if (this.visibilityHandler) {
+      document.removeEventListener('visibilitychange', this.visibilityHandler);
+      this.visibilityHandler = null;
+    }
+  }
+
+  /**
+   * Copy the saved part of the game state (dropping functions)
+   */
+  private getSavedState(): SavedState | null {
+    const { score, level, timer, custom } = this.engine.state;
+    try {
+      return JSON.parse(JSON.stringify({ score, level, timer, custom }));
+    } catch (e) {
+      console.error('[8BitGE] Failed to save game state (circular custom data?)', e);
+      return null;
+    }
+  }
+
+  /**
+   * Check the engine's fields, then the game's own validation
+   */
+  private isValidState(state: any): state is SavedState {
+    if (!state || typeof state !== 'object') return false;
+    if (!Number.isFinite(state.score) || !Number.isFinite(state.level) || !Number.isFinite(state.timer)) return false;
+    if (!state.custom || typeof state.custom !== 'object' || Array.isArray(state.custom)) return false;
+
+    try {
+      return this.options.validate ? this.options.validate(state) !== false : true;
+    } catch (e) {
+      return false;
+    }
+  }
+
+  /**
+   * Report a slot that can't be loaded
+   */
+  private reject(slot: string, reason: string): null {
+    console.error(`[8BitGE] Rejected save slot '${slot}': ${reason}`);
+    this.events.emit('save:rejected', { slot, reason });
+    return null;
+  }
+
+  /**
+   * Read a slot's info without upgrading it
+   */
+  private readInfo(slot: string): SaveSlotInfo | null {
+    return this.list().find(info => info.slot === slot) || null;
+  }
+
+  /**
+   * Change the slot list, once stored values have loaded
+   */
+  private updateIndex(change: (list: SaveSlotInfo[]) => SaveSlotInfo[]): void {
+    if (this.storage.isReady()) {
+      this.storage.saveObject(INDEX_KEY, change(this.list()));
+      return;
+    }
+
+    // Writing now would replace the stored list with one holding only this session's slots
+    this.storage.ready().then(() => this.storage.saveObject(INDEX_KEY, change(this.list())));
+  }
+
+  /**
+   * Scale the canvas down to a PNG data URL
+   */
+  private captureThumbnail(): string | undefined {
+    const canvas = this.engine.getCanvas();
+    const width = this.options.thumbnailWidth;
+    if (!canvas || width <= 0 || canvas.width === 0 || typeof document === 'undefined') return undefined;
+
+    try {
+      const thumbnail = document.createElement('canvas');
+      thumbnail.width = width;
+      thumbnail.height = Math.max(1, Math.round(canvas.height * width / canvas.width));
+      const context = thumbnail.getContext('2d');
+      if (!context) return undefined;
+
+      context.imageSmoothingEnabled = false;
+      context.drawImage(canvas, 0, 0, thumbnail.width, thumbnail.height);
+      return thumbnail.toDataURL('image/png');
+    } catch (e) {
+      // Tainted canvases can't be exported
+      return undefined;
+    }
+  }
+
+  /**
+   * Move a state saved under the old single key into the autosave slot
+   */
+  private importLegacy(): void {
+    const text = this.storage.getItem(LEGACY_KEY);
+    if (!text) return;
+
+    this.storage.removeItem(LEGACY_KEY);
+    if (this.has(AUTOSAVE_SLOT)) return;
+
+    try {
+      const legacy = JSON.parse(text);
+      const state = {
+        score: legacy.score ?? 0,
+        level: legacy.level ?? 1,
+        timer: legacy.timer ?? 0,
+        custom: legacy.custom ?? {}
+      };
+      const info: SaveSlotInfo = {
+        slot: AUTOSAVE_SLOT,
+        name: AUTOSAVE_SLOT,
+        timestamp: Date.now(),
+        level: state.level,
+        score: state.score,
+        version: 1
+      };
+      this.storage.setItem(this.slotKey(AUTOSAVE_SLOT), JSON.stringify({ info, state }));
+      this.updateIndex(list => [...list, info]);
+    } catch (e) {
+      console.warn('[8BitGE] Dropped an unreadable saved game state', e);
+    }
+  }
+
+  /**
+   * Storage key of a slot
+   */
+  private slotKey(slot: string): string {
+    return `save:${slot}`;
+  }
+
+  /**
+   * Storage key of a slot's thumbnail
+   */
+  private thumbnailKey(slot: string): string {
+    return `screenshot:${slot}`;
+  }
+}
@@ -0,0 +1,458 @@
+/**
+ * Scene System for 8BitGE
+ * Manages a stack of scenes (title, play, pause, game over) with fade transitions
+ */
+
+import type { GameEngine } from '../core';
+import { EventEmitter } from '../utils/eventEmitter';
+import { EngineEvents, Entity, GameStatus } from '../types';
+
+export interface SceneTransition {
+  /** Total fade duration in milliseconds (half fading out, half fading in) */
+  duration: number;
+  /** Color to fade through */
+  color?: string;
+}
+
+export interface Scene {
+  /** Unique identifier for this scene */
+  id: string;
+  /** Engine status this scene represents (synced when the scene becomes active) */
+  status?: GameStatus;
+  /** Whether scenes below this one are still rendered (e.g. pause menus) */
+  overlay?: boolean;
+  /** Entities that belong to this scene */
+  entities?: Entity[];
+  /** Default transition used when entering this scene */
+  transition?: SceneTransition;
+  /** Called when the scene is added to the stack */
+  onEnter?: (engine: GameEngine, data?: any) => void;
+  /** Called when the scene is removed from the stack */
+  onExit?: (engine: GameEngine) => void;
+  /** Called when another scene is pushed on top of this one */
+  onPause?: (engine: GameEngine) => void;
+  /** Called when this scene becomes the top scene again */
+  onResume?: (engine: GameEngine) => void;
+  /** Per-step update while this scene is on top */
+  update?: (deltaTime: number, engine: GameEngine) => void;
+  /** Draw the scene */
+  render?: (context: CanvasRenderingContext2D, engine: GameEngine) => void;
+}
+
+export interface SceneChangeOptions {
+  /** Data passed to the entered scene's onEnter */
+  data?: any;
+  /** Transition to use, or false to switch instantly */
+  transition?: SceneTransition | false;
+}
+
+interface SceneOperation {
+  type: 'push' | 'pop' | 'replace' | 'set';
+  id?: string;
+  options: SceneChangeOptions;
+}
+
+export class SceneManager {
+  private events: EventEmitter<EngineEvents>;
+  private engine: GameEngine;
+  private scenes: Map<string, Scene> = new Map();
+  private stack: Scene[] = [];
+  private queue: SceneOperation[] = [];
+  private transition: {
+    operation: SceneOperation;
+    duration: number;
+    color: string;
+    elapsed: number;
+    applied: boolean;
+  } | null = null;
+  private syncing: boolean = false;
+
+  constructor(events: EventEmitter<EngineEvents>, engine: GameEngine) {
+    this.events = events;
+    this.engine = engine;
+
+    // Follow engine status changes with the matching scenes
+    this.events.on('gameStart', () => this.handleStatusEvent(GameStatus.RUNNING));
+    this.events.on('gamePause', () => this.handleStatusEvent(GameStatus.PAUSED));
+    this.events.on('gameResume', () => this.handleResume());
+    this.events.on('gameEnd', () => this.handleStatusEvent(GameStatus.ENDED));
+    this.events.on('gameReset', () => this.handleStatusEvent(GameStatus.IDLE));
+  }
+
+  /**
+   * Register a scene
+   */
+  register(scene: Scene): void {
+    this.scenes.set(scene.id, scene);
+  }
+
+  /**
+   * Register multiple scenes
+   */
+  registerAll(scenes: Scene[]): void {
+    scenes.forEach(scene => this.register(scene));
+  }
+
+  /**
+   * Get a registered scene
+   */
+  get(id: string): Scene | undefined {
+    return this.scenes.get(id);
+  }
+
+  /**
+   * Get the active (top) scene
+   */
+  current(): Scene | null {
+    return this.stack.length > 0 ? this.stack[this.stack.length - 1] : null;
+  }
+
+  /**
+   * Get the ids of the scenes on the stack, bottom first
+   */
+  getStack(): string[] {
+    return this.stack.map(scene => scene.id);
+  }
+
+  /**
+   * Check if any scene is on the stack
+   */
+  hasScenes(): boolean {
+    return this.stack.length > 0;
+  }
+
+  /**
+   * Check if a transition is in progress
+   */
+  isTransitioning(): boolean {
+    return this.transition !== null;
+  }
+
+  /**
+   * Push a scene on top of the current one
+   */
+  push(id: string, options: SceneChangeOptions = {}): void {
+    this.request({ type: 'push', id, options });
+  }
+
+  /**
+   * Pop the top scene, returning to the one below
+   */
+  pop(options: SceneChangeOptions = {}): void {
+    this.request({ type: 'pop', options });
+  }
+
+  /**
+   * Replace the top scene
+   */
+  replace(id: string, options: SceneChangeOptions = {}): void {
+    this.request({ type: 'replace', id, options });
+  }
+
+  /**
+   * Clear the stack and make a scene the only one
+   */
+  set(id: string, options: SceneChangeOptions = {}): void {
+    this.request({ type: 'set', id, options });
+  }
+
+  /**
+   * Add an entity to a scene (the top scene by default)
+   */
+  addEntity(entity: Entity, sceneId?: string): void {
+    const scene = sceneId ? this.scenes.get(sceneId) : this.current();
+    if (!scene) return;
+
+    if (!scene.entities) {
+      scene.entities = [];
+    }
+    scene.entities.push(entity);
+    this.events.emit('entityAdded', { entity, scene: scene.id });
+  }
+
+  /**
+   * Remove an entity from a scene (the top scene by default)
+   */
+  removeEntity(entity: Entity, sceneId?: string): void {
+    const scene = sceneId ? this.scenes.get(sceneId) : this.current();
+    if (!scene || !scene.entities) return;
+
+    const index = scene.entities.indexOf(entity);
+    if (index !== -1) {
+      scene.entities.splice(index, 1);
+      this.events.emit('entityRemoved', { entity, scene: scene.id });
+    }
+  }
+
+  /**
+   * Update the top scene and any running transition
+   * @param deltaTime Fixed timestep in seconds
+   */
+  update(deltaTime: number): void {
+    if (this.transition) {
+      const transition = this.transition;
+      transition.elapsed += deltaTime * 1000;
+
+      // Swap scenes at the midpoint, while the screen is fully faded
+      if (!transition.applied && transition.elapsed >= transition.duration / 2) {
+        transition.applied = true;
+        this.apply(transition.operation);
+      }
+
+      if (transition.elapsed >= transition.duration) {
+        this.transition = null;
+        this.processQueue();
+      }
+    }
+
+    const scene = this.current();
+    if (!scene) return;
+
+    if (scene.entities) {
+      for (const entity of scene.entities) {
+        if (entity.update && entity.active !== false) {
+          entity.update(deltaTime, this.engine);
+        }
+      }
+    }
+
+    if (scene.update) {
+      scene.update(deltaTime, this.engine);
+    }
+  }
+
+  /**
+   * Draw visible scenes, bottom first
+   */
+  render(context: CanvasRenderingContext2D): void {
+    for (const scene of this.getVisibleScenes()) {
+      if (scene.render) {
+        context.save();
+        scene.render(context, this.engine);
+        context.restore();
+      }
+    }
+  }
+
+  /**
+   * Draw the fade overlay of a running transition
+   */
+  renderTransition(context: CanvasRenderingContext2D, width: number, height: number): void {
+    if (!this.transition) return;
+
+    const half = this.transition.duration / 2;
+    const elapsed = this.transition.elapsed;
+    const alpha = elapsed < half ? elapsed / half : 1 - (elapsed - half) / half;
+
+    context.save();
+    context.globalAlpha = Math.max(0, Math.min(1, alpha));
+    context.fillStyle = this.transition.color;
+    context.fillRect(0, 0, width, height);
+    context.restore();
+  }
+
+  /**
+   * Get the entities of all visible scenes
+   */
+  getVisibleEntities(): Entity[] {
+    const entities: Entity[] = [];
+    for (const scene of this.getVisibleScenes()) {
+      if (scene.entities) {
+        entities.push(...scene.entities);
+      }
+    }
+    return entities;
+  }
+
+  /**
+   * Get the scenes that should be drawn: the top scene plus any scenes
+   * visible beneath overlays
+   */
+  private getVisibleScenes(): Scene[] {
+    let start = this.stack.length - 1;
+    while (start > 0 && this.stack[start].overlay) {
+      start--;
+    }
+    return start >= 0 ? this.stack.slice(start) : [];
+  }
+
+  /**
+   * Queue or start a scene operation
+   */
+  private request(operation: SceneOperation): void {
+    if (this.transition || this.queue.length > 0) {
+      this.queue.push(operation);
+      return;
+    }
+
+    this.begin(operation);
+  }
+
+  /**
+   * Start queued operations until one needs a transition
+   */
+  private processQueue(): void {
+    while (!this.transition && this.queue.length > 0) {
+      this.begin(this.queue.shift()!);
+    }
+  }
+
+  /**
+   * Start an operation, either instantly or through a fade
+   */
+  private begin(operation: SceneOperation): void {
+    const target = operation.type === 'pop' ? this.current() : this.scenes.get(operation.id!);
+
+    if (!target) {
+      console.warn(`[8BitGE] Scene not found: ${operation.id ?? '(empty stack)'}`);
+      return;
+    }
+
+    const transition = operation.options.transition === false
+      ? null
+      : operation.options.transition || target.transition || null;
+
+    if (!transition || transition.duration <= 0) {
+      this.apply(operation);
+      return;
+    }
+
+    this.transition = {
+      operation,
+      duration: transition.duration,
+      color: transition.color || '#000',
+      elapsed: 0,
+      applied: false
+    };
+    this.events.emit('scene:transition', { id: target.id, duration: transition.duration });
+  }
+
+  /**
+   * Apply an operation to the stack
+   */
+  private apply(operation: SceneOperation): void {
+    const { type, options } = operation;
+
+    if (type === 'pop') {
+      const popped = this.stack.pop();
+      if (popped) {
+        this.exitScene(popped);
+      }
+
+      const top = this.current();
+      if (top) {
+        if (top.onResume) top.onResume(this.engine);
+        this.events.emit('scene:resume', { id: top.id });
+        this.syncStatus(top);
+      }
+      return;
+    }
+
+    const scene = this.scenes.get(operation.id!);
+    if (!scene) return;
+
+    if (type === 'set') {
+      while (this.stack.length > 0) {
+        this.exitScene(this.stack.pop()!);
+      }
+    } else if (type === 'replace') {
+      const replaced = this.stack.pop();
+      if (replaced) {
+        this.exitScene(replaced);
+      }
+    } else {
+      const covered = this.current();
+      if (covered) {
+        if (covered.onPause) covered.onPause(this.engine);
+        this.events.emit('scene:pause', { id: covered.id });
+      }
+    }
+
+    this.stack.push(scene);
+    if (scene.onEnter) scene.onEnter(this.engine, options.data);
+    this.events.emit('scene:enter', { id: scene.id, data: options.data });
+    this.syncStatus(scene);
+  }
+
+  /**
+   * Run exit hooks for a scene leaving the stack
+   */
+  private exitScene(scene: Scene): void {
+    if (scene.onExit) scene.onExit(this.engine);
+    this.events.emit('scene:exit', { id: scene.id });
+  }
+
+  /**
+   * Bring the engine status in line with the active scene
+   */
+  private syncStatus(scene: Scene): void {
+    if (!scene.status) return;
+
+    const current = this.engine.state.status;
+    if (current === scene.status) return;
+
+    this.syncing = true;
+    try {
+      switch (scene.status) {
+        case GameStatus.RUNNING:
+          if (current === GameStatus.PAUSED) {
+            this.engine.resume();
+          } else {
+            this.engine.start();
+          }
+          break;
+        case GameStatus.PAUSED:
+          this.engine.pause();
+          break;
+        case GameStatus.ENDED:
+          this.engine.end();
+          break;
+        case GameStatus.IDLE:
+          this.engine.reset();
+          break;
+      }
+    } finally {
+      this.syncing = false;
+    }
+  }
+
+  /**
+   * Find the registered scene that represents an engine status
+   */
+  private findSceneForStatus(status: GameStatus): Scene | undefined {
+    for (const scene of this.scenes.values()) {
+      if (scene.status === status) return scene;
+    }
+    return undefined;
+  }
+
+  /**
+   * Switch scenes when the engine status changes outside the scene manager
+   */
+  private handleStatusEvent(status: GameStatus): void {
+    if (this.syncing) return;
+
+    const scene = this.findSceneForStatus(status);
+    if (!scene || this.current() === scene) return;
+
+    if (status === GameStatus.PAUSED) {
+      this.push(scene.id);
+    } else if (status === GameStatus.IDLE) {
+      this.set(scene.id);
+    } else {
+      this.replace(scene.id);
+    }
+  }
+
+  /**
+   * Close the pause scene when the engine resumes outside the scene manager
+   */
+  private handleResume(): void {
+    if (this.syncing) return;
+
+    const top = this.current();
+    if (top && top.status === GameStatus.PAUSED) {
+      this.pop();
+    }
+  }
+}
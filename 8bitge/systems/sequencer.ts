@@ -0,0 +1,930 @@
+/**
+ * Music Sequencer for 8BitGE
+ * Plays tracker-style songs (patterns of note, instrument and effect columns)
+ * on NES-like synthesized voices, scheduled ahead on the Web Audio clock
+ */
+
+export type SequencerWaveform = 'pulse' | 'triangle' | 'saw' | 'noise' | 'sample';
+
+export interface SequencerSample {
+  /** Mono PCM samples in -1..1 */
+  data: Float32Array;
+  sampleRate: number;
+  /** Loop region in samples (no loop when loopLength is 0) */
+  loopStart?: number;
+  loopLength?: number;
+}
+
+export interface SequencerInstrument {
+  name?: string;
+  waveform: SequencerWaveform;
+  /** Pulse duty cycle (defaults to 0.5) */
+  duty?: number;
+  /** Channel volume (0-1) set when the instrument is selected */
+  volume?: number;
+  /** Envelope times in seconds and sustain level (0-1) */
+  attack?: number;
+  decay?: number;
+  sustain?: number;
+  release?: number;
+  /** PCM data for 'sample' instruments */
+  sample?: SequencerSample;
+  /** Note at which samples and noise play at their own rate (defaults to 60) */
+  baseNote?: number;
+}
+
+/**
+ * One channel's entry in a pattern row
+ *
+ * Effects follow ProTracker numbering:
+ * 0xy arpeggio, 1xx / 2xx slide up / down by xx sixteenths of a semitone per tick,
+ * Axy volume slide, Bxx jump to order xx, Cxx set volume (0-40 hex),
+ * Dxy break to row xy (decimal) of the next order, Fxx set speed (below 20 hex) or bpm
+ */
+export interface PatternCell {
+  /** MIDI note number (60 is middle C) */
+  note?: number;
+  /** Release the playing note */
+  off?: boolean;
+  /** Instrument number, from 1 */
+  instrument?: number;
+  effect?: number;
+  param?: number;
+}
+
+/** Rows of cells, one per channel */
+export type Pattern = Array<Array<PatternCell | null>>;
+
+export interface Song {
+  title: string;
+  bpm: number;
+  /** Ticks per row */
+  speed: number;
+  channels: number;
+  instruments: SequencerInstrument[];
+  /** Instrument each channel starts with (0 for none) */
+  defaultInstruments: number[];
+  patterns: Pattern[];
+  /** Pattern numbers in play order */
+  order: number[];
+  /** Order position to go back to after the last one (null plays once) */
+  loop: number | null;
+  /** Rows per beat and beats per bar, for beat events and quantized transitions */
+  rowsPerBeat: number;
+  beatsPerBar: number;
+}
+
+/**
+ * A row as it is scheduled
+ */
+export interface SequencerRow {
+  order: number;
+  pattern: number;
+  row: number;
+  /** Rows played since the song started */
+  index: number;
+  /** AudioContext time the row plays at */
+  time: number;
+}
+
+/**
+ * Compact JSON song
+ * Each pattern is a list of rows, and each row holds the channels' cells
+ * separated by '|'. A cell is 'NOTE INSTRUMENT EFFECT', such as 'C-4 01 C20',
+ * with '...' or '---' for an empty column and '===' for note off.
+ * Instrument numbers and effects are hex.
+ */
+export interface SongData {
+  title?: string;
+  bpm?: number;
+  speed?: number;
+  /** Instruments, numbered from 1 (defaults to two pulses, a triangle and noise) */
+  instruments?: SequencerInstrument[];
+  /** Instrument each channel starts with (defaults to instrument n for channel n) */
+  defaultInstruments?: number[];
+  patterns: string[][];
+  /** Pattern numbers in play order (defaults to every pattern once) */
+  order?: number[];
+  /** Order position to loop back to, or false to play once (defaults to 0) */
+  loop?: number | false;
+  /** Rows per beat and beats per bar (default to 4 and 4) */
+  rowsPerBeat?: number;
+  beatsPerBar?: number;
+}
+
+/**
+ * The 2A03's voices: two pulses, a triangle and noise
+ */
+export const NES_INSTRUMENTS: SequencerInstrument[] = [
+  { name: 'pulse1', waveform: 'pulse', duty: 0.5, volume: 0.35, release: 0.02 },
+  { name: 'pulse2', waveform: 'pulse', duty: 0.25, volume: 0.25, release: 0.02 },
+  { name: 'triangle', waveform: 'triangle', volume: 0.6, release: 0.01 },
+  { name: 'noise', waveform: 'noise', volume: 0.3, decay: 0.08, sustain: 0, release: 0.01 }
+];
+
+const NOTE_NAMES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+/** Seconds to schedule ahead of the audio clock, and how often to top up */
+const LOOKAHEAD = 0.1;
+const SCHEDULE_INTERVAL = 25;
+
+/** Amiga period that plays a sample at its own rate (ProTracker C-2) */
+const MOD_BASE_PERIOD = 428;
+const MOD_BASE_RATE = 8287;
+
+/** Sixteenths of a semitone per Amiga period unit around the base period */
+const MOD_SLIDE_SCALE = 12 * 16 * Math.log2(MOD_BASE_PERIOD / (MOD_BASE_PERIOD - 1));
+
+interface Voice {
+  source: AudioScheduledSourceNode;
+  envelope: GainNode;
+  release: number;
+  setPitch(pitch: number, time: number): void;
+}
+
+interface ChannelState {
+  /** Volume set by the song */
+  gain: GainNode;
+  /** Volume set from outside, e.g. for music stems */
+  mix: GainNode;
+  instrument: number;
+  volume: number;
+  /** Current pitch in semitones, including slides */
+  pitch: number;
+  voice: Voice | null;
+  effect: number;
+  param: number;
+}
+
+export class Sequencer {
+  /** Called when a song without a loop finishes */
+  onEnd: (() => void) | null = null;
+  /** Called as each row is scheduled, ahead of the time it plays at */
+  onRow: ((row: SequencerRow) => void) | null = null;
+
+  private context: AudioContext;
+  private output: GainNode;
+  private song: Song | null = null;
+  private channels: ChannelState[] = [];
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private playing: boolean = false;
+  private volume: number = 1;
+  private bpm: number = 125;
+  private speed: number = 6;
+  private tempoScale: number = 1;
+  private order: number = 0;
+  private row: number = 0;
+  private tick: number = 0;
+  private jumpOrder: number | null = null;
+  private breakRow: number | null = null;
+  private rowIndex: number = 0;
+  private nextTickTime: number = 0;
+  private stopAt: { time: number; fadeOut: number } | null = null;
+  private pulseWaves: Map<number, PeriodicWave> = new Map();
+  private noiseBuffer: AudioBuffer | null = null;
+  private sampleBuffers: Map<SequencerInstrument, AudioBuffer | null> = new Map();
+
+  constructor(context: AudioContext, destination: AudioNode) {
+    this.context = context;
+    this.output = context.createGain();
+    this.output.connect(destination);
+  }
+
+  /**
+   * Load a song, stopping the current one
+   */
+  load(song: Song): void {
+    this.stop();
+    this.channels.forEach(channel => channel.mix.disconnect());
+
+    this.song = song;
+    this.sampleBuffers.clear();
+    this.channels = Array.from({ length: song.channels }, () => {
+      const gain = this.context.createGain();
+      const mix = this.context.createGain();
+      gain.connect(mix);
+      mix.connect(this.output);
+      return { gain, mix, instrument: 0, volume: 1, pitch: 0, voice: null, effect: 0, param: 0 };
+    });
+  }
+
+  /**
+   * Get the loaded song
+   */
+  getSong(): Song | null {
+    return this.song;
+  }
+
+  /**
+   * Play the loaded song from an order position
+   * @param when AudioContext time to start at (defaults to now)
+   */
+  play(order: number = 0, when?: number): void {
+    const song = this.song;
+    if (!song || song.order.length === 0) return;
+
+    this.stop();
+
+    this.bpm = song.bpm;
+    this.speed = song.speed;
+    this.order = Math.min(Math.max(order, 0), song.order.length - 1);
+    this.row = 0;
+    this.tick = 0;
+    this.jumpOrder = null;
+    this.breakRow = null;
+    this.rowIndex = 0;
+    this.stopAt = null;
+
+    const now = this.context.currentTime;
+    this.channels.forEach((channel, index) => {
+      channel.instrument = song.defaultInstruments[index] || 0;
+      channel.volume = song.instruments[channel.instrument - 1]?.volume ?? 1;
+      channel.pitch = 0;
+      channel.effect = 0;
+      channel.param = 0;
+      channel.gain.gain.cancelScheduledValues(now);
+      channel.gain.gain.setValueAtTime(channel.volume, now);
+    });
+
+    this.output.gain.cancelScheduledValues(now);
+    this.output.gain.setValueAtTime(this.volume, now);
+
+    this.nextTickTime = when !== undefined ? Math.max(when, now) : now + 0.05;
+    this.playing = true;
+    this.schedule();
+    this.timer = setInterval(() => this.schedule(), SCHEDULE_INTERVAL);
+  }
+
+  /**
+   * Stop playback, optionally fading out over a number of seconds
+   * @param when AudioContext time to stop at (defaults to now)
+   */
+  stop(fadeOut: number = 0, when?: number): void {
+    if (this.playing && when !== undefined && when > this.context.currentTime) {
+      // Keep scheduling up to the stop time
+      this.stopAt = { time: when, fadeOut };
+      return;
+    }
+
+    this.halt(this.context.currentTime, fadeOut);
+  }
+
+  /**
+   * Stop and detach from the destination; the sequencer can't be used afterwards
+   */
+  disconnect(): void {
+    this.stop();
+    this.output.disconnect();
+  }
+
+  /**
+   * Set the volume of one channel, optionally ramping over a number of seconds
+   * This is separate from the song's own volume commands
+   */
+  setChannelVolume(channel: number, volume: number, fadeTime: number = 0): void {
+    const state = this.channels[channel];
+    if (!state) return;
+
+    const now = this.context.currentTime;
+    state.mix.gain.cancelScheduledValues(now);
+    if (fadeTime > 0) {
+      state.mix.gain.setValueAtTime(state.mix.gain.value, now);
+      state.mix.gain.linearRampToValueAtTime(Math.max(0, volume), now + fadeTime);
+    } else {
+      state.mix.gain.setValueAtTime(Math.max(0, volume), now);
+    }
+  }
+
+  /**
+   * Check if a song is playing
+   */
+  isPlaying(): boolean {
+    return this.playing;
+  }
+
+  /**
+   * Set the output volume, optionally ramping over a number of seconds
+   */
+  setVolume(volume: number, fadeTime: number = 0): void {
+    this.volume = Math.max(0, volume);
+
+    const now = this.context.currentTime;
+    this.output.gain.cancelScheduledValues(now);
+    if (fadeTime > 0) {
+      this.output.gain.setValueAtTime(this.output.gain.value, now);
+      this.output.gain.linearRampToValueAtTime(this.volume, now + fadeTime);
+    } else {
+      this.output.gain.setValueAtTime(this.volume, now);
+    }
+  }
+
+  /**
+   * Set beats per minute (reset by the song's own Fxx effects and on play)
+   */
+  setTempo(bpm: number): void {
+    this.bpm = Math.max(1, bpm);
+  }
+
+  /**
+   * Get beats per minute
+   */
+  getTempo(): number {
+    return this.bpm;
+  }
+
+  /**
+   * Set ticks per row
+   */
+  setSpeed(speed: number): void {
+    this.speed = Math.max(1, Math.round(speed));
+  }
+
+  /**
+   * Get ticks per row
+   */
+  getSpeed(): number {
+    return this.speed;
+  }
+
+  /**
+   * Scale the tempo without changing pitch, e.g. to speed music up with the game
+   * Kept across songs and Fxx effects
+   */
+  setTempoScale(scale: number): void {
+    this.tempoScale = Math.max(0.01, scale);
+  }
+
+  /**
+   * Get the tempo scale
+   */
+  getTempoScale(): number {
+    return this.tempoScale;
+  }
+
+  /**
+   * Get the length of a row in seconds at the current tempo
+   */
+  getRowDuration(): number {
+    return this.speed * 2.5 / (this.bpm * this.tempoScale);
+  }
+
+  /**
+   * Get the position being scheduled
+   */
+  getPosition(): { order: number; pattern: number; row: number } {
+    return {
+      order: this.order,
+      pattern: this.song ? this.song.order[this.order] : 0,
+      row: this.row
+    };
+  }
+
+  /**
+   * Parse a compact JSON song
+   */
+  static parseSong(data: SongData): Song {
+    const instruments = data.instruments && data.instruments.length > 0 ? data.instruments : NES_INSTRUMENTS;
+    const patterns: Pattern[] = data.patterns.map(rows =>
+      rows.map(row => row.split('|').map(cell => Sequencer.parseCell(cell)))
+    );
+    const channels = Math.max(1, ...patterns.map(rows => Math.max(0, ...rows.map(cells => cells.length))));
+
+    return {
+      title: data.title || '',
+      bpm: data.bpm ?? 125,
+      speed: data.speed ?? 6,
+      channels,
+      instruments,
+      defaultInstruments: data.defaultInstruments ||
+        Array.from({ length: channels }, (_, index) => Math.min(index + 1, instruments.length)),
+      patterns,
+      order: data.order || patterns.map((_, index) => index),
+      loop: data.loop === false ? null : (data.loop ?? 0),
+      rowsPerBeat: data.rowsPerBeat ?? 4,
+      beatsPerBar: data.beatsPerBar ?? 4
+    };
+  }
+
+  /**
+   * Parse a ProTracker-style .mod file
+   * Supports 31-sample modules (M.K. and xCHN tags) and the effects listed on
+   * PatternCell. Portamento speeds are converted from Amiga periods around middle C,
+   * so slides in very high or low octaves are approximate.
+   */
+  static parseMod(buffer: ArrayBuffer): Song {
+    const bytes = new Uint8Array(buffer);
+    if (bytes.length < 1084) {
+      throw new Error('[8BitGE] MOD file is too short');
+    }
+
+    const view = new DataView(buffer);
+    const readString = (offset: number, length: number) =>
+      String.fromCharCode(...Array.from(bytes.subarray(offset, offset + length)).filter(code => code > 0)).trim();
+
+    const tag = readString(1080, 4);
+    const match = tag.match(/^(\d+)CHN$/) || tag.match(/^(\d+)CH$/);
+    const channels = ['M.K.', 'M!K!', 'FLT4', '4CHN'].includes(tag) ? 4 : match ? parseInt(match[1], 10) : 0;
+    if (!channels) {
+      throw new Error(`[8BitGE] Unsupported MOD format '${tag}'`);
+    }
+
+    // Sample headers
+    const headers = Array.from({ length: 31 }, (_, index) => {
+      const offset = 20 + index * 30;
+      const finetune = bytes[offset + 24] & 0x0f;
+      return {
+        name: readString(offset, 22),
+        length: view.getUint16(offset + 22) * 2,
+        finetune: finetune > 7 ? finetune - 16 : finetune,
+        volume: Math.min(bytes[offset + 25], 64),
+        loopStart: view.getUint16(offset + 26) * 2,
+        loopLength: view.getUint16(offset + 28) * 2
+      };
+    });
+
+    const songLength = Math.max(1, Math.min(bytes[950], 128));
+    const order = Array.from(bytes.subarray(952, 952 + songLength));
+    const patternCount = Math.max(...Array.from(bytes.subarray(952, 1080))) + 1;
+    const patternSize = 64 * channels * 4;
+
+    const patterns: Pattern[] = [];
+    for (let p = 0; p < patternCount; p++) {
+      const rows: Pattern = [];
+      for (let row = 0; row < 64; row++) {
+        const cells: Array<PatternCell | null> = [];
+        for (let channel = 0; channel < channels; channel++) {
+          const offset = 1084 + p * patternSize + (row * channels + channel) * 4;
+          if (offset + 3 >= bytes.length) {
+            cells.push(null);
+            continue;
+          }
+
+          const instrument = (bytes[offset] & 0xf0) | (bytes[offset + 2] >> 4);
+          const period = ((bytes[offset] & 0x0f) << 8) | bytes[offset + 1];
+          const effect = bytes[offset + 2] & 0x0f;
+          let param = bytes[offset + 3];
+
+          if (!instrument && !period && !effect && !param) {
+            cells.push(null);
+            continue;
+          }
+
+          if ((effect === 0x1 || effect === 0x2) && param > 0) {
+            param = Math.min(255, Math.max(1, Math.round(param * MOD_SLIDE_SCALE)));
+          }
+
+          const cell: PatternCell = {};
+          if (period > 0) cell.note = 60 + Math.round(12 * Math.log2(MOD_BASE_PERIOD / period));
+          if (instrument > 0) cell.instrument = instrument;
+          if (effect || param) {
+            cell.effect = effect;
+            cell.param = param;
+          }
+          cells.push(cell);
+        }
+        rows.push(cells);
+      }
+      patterns.push(rows);
+    }
+
+    // Signed 8-bit sample data follows the patterns
+    let offset = 1084 + patternCount * patternSize;
+    const instruments = headers.map((header): SequencerInstrument => {
+      const available = Math.max(0, Math.min(header.length, bytes.length - offset));
+      const data = new Float32Array(available);
+      for (let i = 0; i < available; i++) {
+        data[i] = view.getInt8(offset + i) / 128;
+      }
+      offset += header.length;
+
+      const loops = header.loopLength > 2 && header.loopStart < available;
+      return {
+        name: header.name,
+        waveform: 'sample',
+        volume: header.volume / 64,
+        release: 0.01,
+        baseNote: 60,
+        sample: {
+          data,
+          // Finetune steps are eighths of a semitone
+          sampleRate: MOD_BASE_RATE * Math.pow(2, header.finetune / 96),
+          loopStart: loops ? header.loopStart : 0,
+          loopLength: loops ? Math.min(header.loopLength, available - header.loopStart) : 0
+        }
+      };
+    });
+
+    const restart = bytes[951];
+
+    return {
+      title: readString(0, 20),
+      bpm: 125,
+      speed: 6,
+      channels,
+      instruments,
+      defaultInstruments: new Array(channels).fill(0),
+      patterns,
+      order,
+      loop: restart < songLength ? restart : 0,
+      rowsPerBeat: 4,
+      beatsPerBar: 4
+    };
+  }
+
+  /**
+   * Parse one 'NOTE INSTRUMENT EFFECT' cell
+   */
+  private static parseCell(text: string): PatternCell | null {
+    const [note, instrument, effect] = text.trim().split(/\s+/);
+    const isEmpty = (column?: string) => !column || /^[.-]+$/.test(column);
+    const cell: PatternCell = {};
+
+    if (!isEmpty(note)) {
+      if (note === '===' || note.toUpperCase() === 'OFF') {
+        cell.off = true;
+      } else {
+        const match = note.toUpperCase().match(/^([A-G])([-#])(\d)$/);
+        const semitone = match ? NOTE_NAMES.indexOf(match[1] + (match[2] === '#' ? '#' : '')) : -1;
+        if (!match || semitone === -1) {
+          throw new Error(`[8BitGE] Invalid note '${note}'`);
+        }
+        cell.note = (parseInt(match[3], 10) + 1) * 12 + semitone;
+      }
+    }
+
+    if (!isEmpty(instrument)) {
+      cell.instrument = parseInt(instrument, 16);
+    }
+
+    if (!isEmpty(effect)) {
+      cell.effect = parseInt(effect[0], 16);
+      cell.param = parseInt(effect.substring(1) || '0', 16);
+    }
+
+    return Object.keys(cell).length > 0 ? cell : null;
+  }
+
+  /**
+   * Schedule every tick that falls inside the lookahead window
+   */
+  private schedule(): void {
+    const now = this.context.currentTime;
+
+    // Skip ahead rather than bursting through ticks after the timer was throttled
+    if (this.nextTickTime < now - LOOKAHEAD) {
+      this.nextTickTime = now;
+    }
+
+    while (this.playing && this.nextTickTime < now + LOOKAHEAD) {
+      if (this.stopAt && this.nextTickTime >= this.stopAt.time) {
+        this.halt(this.stopAt.time, this.stopAt.fadeOut);
+        break;
+      }
+      this.processTick(this.nextTickTime);
+    }
+  }
+
+  /**
+   * Play one tick: the row's notes on tick 0, running effects on the rest
+   */
+  private processTick(time: number): void {
+    if (this.tick === 0) {
+      this.processRow(time);
+    } else {
+      this.channels.forEach(channel => this.applyTickEffect(channel, time));
+    }
+
+    // ProTracker tick length
+    this.nextTickTime += 2.5 / (this.bpm * this.tempoScale);
+
+    this.tick++;
+    if (this.tick >= this.speed) {
+      this.tick = 0;
+      if (!this.advanceRow()) {
+        this.finish(this.nextTickTime);
+      }
+    }
+  }
+
+  /**
+   * Trigger notes and apply row effects for the current row
+   */
+  private processRow(time: number): void {
+    const song = this.song!;
+    const pattern = song.order[this.order];
+    const cells = song.patterns[pattern]?.[this.row] || [];
+
+    this.onRow?.({ order: this.order, pattern, row: this.row, index: this.rowIndex++, time });
+
+    this.channels.forEach((channel, index) => {
+      const cell = cells[index];
+      const wasArpeggio = channel.effect === 0 && channel.param > 0;
+
+      channel.effect = cell?.effect ?? 0;
+      channel.param = cell?.param ?? 0;
+      if (!cell) {
+        // Leave an arpeggio on its base note
+        if (wasArpeggio) channel.voice?.setPitch(channel.pitch, time);
+        return;
+      }
+
+      if (cell.instrument) {
+        channel.instrument = cell.instrument;
+        this.applyVolume(channel, song.instruments[cell.instrument - 1]?.volume ?? 1, time);
+      }
+
+      if (cell.off) {
+        this.releaseVoice(channel, time);
+      } else if (cell.note !== undefined) {
+        channel.pitch = cell.note;
+        this.triggerNote(channel, time);
+      } else {
+        channel.voice?.setPitch(channel.pitch, time);
+      }
+
+      this.applyRowEffect(channel, time);
+    });
+  }
+
+  /**
+   * Apply effects that act once, on the first tick of a row
+   */
+  private applyRowEffect(channel: ChannelState, time: number): void {
+    const param = channel.param;
+
+    switch (channel.effect) {
+      case 0xb:
+        this.jumpOrder = param;
+        break;
+      case 0xc:
+        this.applyVolume(channel, Math.min(param, 64) / 64, time);
+        break;
+      case 0xd:
+        this.breakRow = (param >> 4) * 10 + (param & 0x0f);
+        break;
+      case 0xf:
+        if (param > 0 && param < 0x20) {
+          this.speed = param;
+        } else if (param >= 0x20) {
+          this.bpm = param;
+        }
+        break;
+    }
+  }
+
+  /**
+   * Apply effects that run on every tick after the first
+   */
+  private applyTickEffect(channel: ChannelState, time: number): void {
+    const param = channel.param;
+
+    switch (channel.effect) {
+      case 0x0:
+        if (param > 0) {
+          const offsets = [0, param >> 4, param & 0x0f];
+          channel.voice?.setPitch(channel.pitch + offsets[this.tick % 3], time);
+        }
+        break;
+      case 0x1:
+        channel.pitch += param / 16;
+        channel.voice?.setPitch(channel.pitch, time);
+        break;
+      case 0x2:
+        channel.pitch -= param / 16;
+        channel.voice?.setPitch(channel.pitch, time);
+        break;
+      case 0xa: {
+        const up = param >> 4;
+        const down = param & 0x0f;
+        this.applyVolume(channel, channel.volume + (up > 0 ? up : -down) / 64, time);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Move to the next row, following jumps and breaks
+   * Returns false once a song without a loop has ended
+   */
+  private advanceRow(): boolean {
+    const song = this.song!;
+    let order = this.order;
+    let row = this.row + 1;
+
+    if (this.jumpOrder !== null || this.breakRow !== null) {
+      order = this.jumpOrder ?? order + 1;
+      row = this.breakRow ?? 0;
+      this.jumpOrder = null;
+      this.breakRow = null;
+    } else if (row >= (song.patterns[song.order[order]]?.length ?? 0)) {
+      order++;
+      row = 0;
+    }
+
+    if (order >= song.order.length) {
+      if (song.loop === null) return false;
+      order = song.loop;
+    }
+
+    this.order = order;
+    this.row = row < (song.patterns[song.order[order]]?.length ?? 0) ? row : 0;
+    return true;
+  }
+
+  /**
+   * Stop scheduling and release every voice, fading the output from a time
+   */
+  private halt(time: number, fadeOut: number): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.stopAt = null;
+    if (!this.playing) return;
+    this.playing = false;
+
+    if (fadeOut > 0) {
+      this.output.gain.cancelScheduledValues(time);
+      this.output.gain.setValueAtTime(this.output.gain.value, time);
+      this.output.gain.linearRampToValueAtTime(0, time + fadeOut);
+    }
+
+    this.channels.forEach(channel => this.releaseVoice(channel, time + fadeOut));
+  }
+
+  /**
+   * Stop at the end of a song and report it once the last row has played
+   */
+  private finish(time: number): void {
+    this.halt(time, 0);
+
+    const delay = Math.max(0, time - this.context.currentTime) * 1000;
+    setTimeout(() => this.onEnd?.(), delay);
+  }
+
+  /**
+   * Set a channel's song volume from the given time
+   */
+  private applyVolume(channel: ChannelState, volume: number, time: number): void {
+    channel.volume = Math.min(Math.max(volume, 0), 1);
+    channel.gain.gain.setValueAtTime(channel.volume, time);
+  }
+
+  /**
+   * Start a note on a channel, releasing the previous one
+   */
+  private triggerNote(channel: ChannelState, time: number): void {
+    this.releaseVoice(channel, time);
+
+    const instrument = this.song!.instruments[channel.instrument - 1];
+    if (!instrument) return;
+
+    channel.voice = this.createVoice(instrument, channel.pitch, time, channel.gain);
+  }
+
+  /**
+   * Fade out a channel's voice from the given time
+   */
+  private releaseVoice(channel: ChannelState, time: number): void {
+    const voice = channel.voice;
+    if (!voice) return;
+
+    channel.voice = null;
+    time = Math.max(time, this.context.currentTime);
+    voice.envelope.gain.cancelScheduledValues(time);
+    voice.envelope.gain.setTargetAtTime(0, time, voice.release / 5);
+    voice.source.stop(time + voice.release);
+  }
+
+  /**
+   * Create the nodes for one note
+   */
+  private createVoice(instrument: SequencerInstrument, pitch: number, time: number, destination: AudioNode): Voice | null {
+    const context = this.context;
+    let source: AudioScheduledSourceNode;
+    let setPitch: (pitch: number, time: number) => void;
+
+    if (instrument.waveform === 'noise' || instrument.waveform === 'sample') {
+      const buffer = instrument.waveform === 'noise' ? this.getNoiseBuffer() : this.getSampleBuffer(instrument);
+      if (!buffer) return null;
+
+      const node = context.createBufferSource();
+      node.buffer = buffer;
+
+      const sample = instrument.sample;
+      if (instrument.waveform === 'noise') {
+        node.loop = true;
+      } else if (sample && sample.loopLength) {
+        node.loop = true;
+        node.loopStart = (sample.loopStart || 0) / sample.sampleRate;
+        node.loopEnd = ((sample.loopStart || 0) + sample.loopLength) / sample.sampleRate;
+      }
+
+      const baseNote = instrument.baseNote ?? 60;
+      setPitch = (p, t) => node.playbackRate.setValueAtTime(Math.pow(2, (p - baseNote) / 12), t);
+      source = node;
+    } else {
+      const oscillator = context.createOscillator();
+      if (instrument.waveform === 'pulse') {
+        oscillator.setPeriodicWave(this.getPulseWave(instrument.duty ?? 0.5));
+      } else {
+        oscillator.type = instrument.waveform === 'saw' ? 'sawtooth' : 'triangle';
+      }
+
+      setPitch = (p, t) => oscillator.frequency.setValueAtTime(440 * Math.pow(2, (p - 69) / 12), t);
+      source = oscillator;
+    }
+
+    // Envelope: attack to full, decay to the sustain level
+    const attack = instrument.attack ?? 0;
+    const decay = instrument.decay ?? 0;
+    const sustain = instrument.sustain ?? 1;
+    const envelope = context.createGain();
+
+    envelope.gain.setValueAtTime(attack > 0 ? 0 : (decay > 0 ? 1 : sustain), time);
+    if (attack > 0) {
+      envelope.gain.linearRampToValueAtTime(decay > 0 ? 1 : sustain, time + attack);
+    }
+    if (decay > 0) {
+      envelope.gain.linearRampToValueAtTime(sustain, time + attack + decay);
+    }
+
+    source.connect(envelope);
+    envelope.connect(destination);
+    setPitch(pitch, time);
+    source.start(time);
+    source.onended = () => {
+      source.disconnect();
+      envelope.disconnect();
+    };
+
+    return {
+      source,
+      envelope,
+      release: Math.max(instrument.release ?? 0.02, 0.005),
+      setPitch
+    };
+  }
+
+  /**
+   * Get a band-limited pulse wave for a duty cycle
+   */
+  private getPulseWave(duty: number): PeriodicWave {
+    duty = Math.min(Math.max(duty, 0.01), 0.99);
+    let wave = this.pulseWaves.get(duty);
+
+    if (!wave) {
+      const harmonics = 64;
+      const real = new Float32Array(harmonics);
+      const imag = new Float32Array(harmonics);
+      for (let n = 1; n < harmonics; n++) {
+        real[n] = (2 / (n * Math.PI)) * Math.sin(n * Math.PI * duty);
+      }
+      wave = this.context.createPeriodicWave(real, imag);
+      this.pulseWaves.set(duty, wave);
+    }
+
+    return wave;
+  }
+
+  /**
+   * Get a looping buffer of NES-style noise from a 15-bit shift register
+   */
+  private getNoiseBuffer(): AudioBuffer {
+    if (!this.noiseBuffer) {
+      const length = 32767;
+      const buffer = this.context.createBuffer(1, length, 22050);
+      const data = buffer.getChannelData(0);
+
+      let register = 1;
+      for (let i = 0; i < length; i++) {
+        const bit = (register ^ (register >> 1)) & 1;
+        register = (register >> 1) | (bit << 14);
+        data[i] = register & 1 ? 1 : -1;
+      }
+
+      this.noiseBuffer = buffer;
+    }
+
+    return this.noiseBuffer;
+  }
+
+  /**
+   * Get (and cache) the buffer for a sample instrument
+   */
+  private getSampleBuffer(instrument: SequencerInstrument): AudioBuffer | null {
+    if (!this.sampleBuffers.has(instrument)) {
+      const sample = instrument.sample;
+      let buffer: AudioBuffer | null = null;
+
+      if (sample && sample.data.length > 0) {
+        buffer = this.context.createBuffer(1, sample.data.length, sample.sampleRate);
+        buffer.getChannelData(0).set(sample.data);
+      }
+
+      this.sampleBuffers.set(instrument, buffer);
+    }
+
+    return this.sampleBuffers.get(instrument)!;
+  }
+}
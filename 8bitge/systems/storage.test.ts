@@ -0,0 +1,27 @@
+import { describe, expect, test } from 'bun:test';
+import { MemoryStorageAdapter, StorageSystem } from './storage';
+
+/**
+ * A backend that is always full and refuses to delete anything
+ */
+class FullStorageAdapter extends MemoryStorageAdapter {
+  async set(key: string, value: string): Promise<void> {
+    throw Object.assign(new Error('Quota exceeded'), { name: 'QuotaExceededError' });
+  }
+
+  async delete(key: string): Promise<void> {
+    throw new Error('Delete failed');
+  }
+}
+
+describe('StorageSystem', () => {
+  test('a failed eviction keeps both values in memory instead of rejecting', async () => {
+    const storage = new StorageSystem('test', true, { adapter: new FullStorageAdapter() });
+    await storage.ready();
+
+    expect(await storage.set('replay:old', 'a')).toBe(false);
+    expect(await storage.set('replay:new', 'b')).toBe(false);
+    expect(storage.getItem('replay:old')).toBe('a');
+    expect(storage.getItem('replay:new')).toBe('b');
+  });
+});
@@ -1,102 +1,331 @@
 /**
  * Storage System for 8BitGE
- * Handles persistent data storage using localStorage with fallbacks
+ * Handles persistent data storage through pluggable backends (IndexedDB,
+ * localStorage or memory), with a synchronous cache and an async API
  */
 
+import { StorageAdapter, StorageBackend, StorageOptions } from '../types';
+
+/** Key holding when each evictable key was last written */
+const WRITTEN_KEY = 'storage:written';
+
+/**
+ * Check if an error means the backend is out of space
+ */
+export function isQuotaError(error: unknown): boolean {
+  if (!error || typeof error !== 'object') return false;
+  const { name, code } = error as { name?: string; code?: number };
+  // Older browsers only set the code (Firefox used its own name)
+  return name === 'QuotaExceededError' || name === 'NS_ERROR_DOM_QUOTA_REACHED' || code === 22 || code === 1014;
+}
+
+/**
+ * Check if localStorage can be written to (it throws in some private modes)
+ */
+function isLocalStorageAvailable(): boolean {
+  try {
+    const testKey = '__storage_test__';
+    localStorage.setItem(testKey, 'test');
+    const result = localStorage.getItem(testKey) === 'test';
+    localStorage.removeItem(testKey);
+    return result;
+  } catch (e) {
+    return false;
+  }
+}
+
+/**
+ * Stores values in localStorage
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  readonly name = 'localstorage';
+
+  async get(key: string): Promise<string | null> {
+    return localStorage.getItem(key);
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    localStorage.setItem(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    localStorage.removeItem(key);
+  }
+
+  async keys(prefix: string = ''): Promise<string[]> {
+    const keys: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(prefix)) {
+        keys.push(key);
+      }
+    }
+    return keys;
+  }
+}
+
+/**
+ * Stores values in an IndexedDB object store, which holds far more than localStorage
+ */
+export class IndexedDBAdapter implements StorageAdapter {
+  readonly name = 'indexeddb';
+  private databaseName: string;
+  private storeName: string;
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(databaseName: string = '8bitge', storeName: string = 'storage') {
+    this.databaseName = databaseName;
+    this.storeName = storeName;
+  }
+
+  /**
+   * Check if the browser has IndexedDB
+   */
+  static isAvailable(): boolean {
+    return typeof indexedDB !== 'undefined';
+  }
+
+  async get(key: string): Promise<string | null> {
+    const value = await this.request('readonly', store => store.get(key));
+    return typeof value === 'string' ? value : null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    await this.request('readwrite', store => store.put(value, key));
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.request('readwrite', store => store.delete(key));
+  }
+
+  async keys(prefix: string = ''): Promise<string[]> {
+    const keys = await this.request('readonly', store => store.getAllKeys(IDBKeyRange.bound(prefix, prefix + '\uffff')));
+    return keys.map(key => String(key));
+  }
+
+  /**
+   * Open the database once, creating the store on first use
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      this.database = new Promise((resolve, reject) => {
+        const request = indexedDB.open(this.databaseName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(this.storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+      // Let a later call try again
+      this.database.catch(() => { this.database = null; });
+    }
+    return this.database;
+  }
+
+  /**
+   * Run a request in its own transaction, resolving once the transaction commits
+   */
+  private async request<T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+    const database = await this.open();
+    return new Promise((resolve, reject) => {
+      const transaction = database.transaction(this.storeName, mode);
+      const request = action(transaction.objectStore(this.storeName));
+      transaction.oncomplete = () => resolve(request.result);
+      // Quota errors abort the transaction
+      transaction.onabort = () => reject(transaction.error || request.error);
+      transaction.onerror = () => reject(transaction.error || request.error);
+    });
+  }
+}
+
+/**
+ * Keeps values in memory only; they are lost when the page closes
+ */
+export class MemoryStorageAdapter implements StorageAdapter {
+  readonly name = 'memory';
+  private values: Map<string, string> = new Map();
+
+  async get(key: string): Promise<string | null> {
+    return this.values.get(key) ?? null;
+  }
+
+  async set(key: string, value: string): Promise<void> {
+    this.values.set(key, value);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.values.delete(key);
+  }
+
+  async keys(prefix: string = ''): Promise<string[]> {
+    return Array.from(this.values.keys()).filter(key => key.startsWith(prefix));
+  }
+}
+
+/**
+ * Create the adapter for a backend ('auto' picks the best one available)
+ */
+export function createStorageAdapter(backend: StorageBackend = 'auto'): StorageAdapter {
+  switch (backend) {
+    case 'indexeddb':
+      return new IndexedDBAdapter();
+    case 'localstorage':
+      return new LocalStorageAdapter();
+    case 'memory':
+      return new MemoryStorageAdapter();
+    default:
+      if (IndexedDBAdapter.isAvailable()) return new IndexedDBAdapter();
+      return isLocalStorageAvailable() ? new LocalStorageAdapter() : new MemoryStorageAdapter();
+  }
+}
+
 export class StorageSystem {
   private prefix: string;
   private enabled: boolean;
-  private memoryStorage: Map<string, string> = new Map();
-  
-  constructor(gameId: string, enabled: boolean = true) {
+  private adapter: StorageAdapter;
+  private evictable: string[];
+  /** Every stored value by unprefixed key, so reads can be synchronous */
+  private cache: Map<string, string> = new Map();
+  /** Keys removed before loading finished, so loading doesn't bring them back */
+  private removed: Set<string> = new Set();
+  /** When each evictable key was last written */
+  private written: Record<string, number> = {};
+  private loading: Promise<void> | null = null;
+  private loaded: boolean = false;
+
+  constructor(gameId: string, enabled: boolean = true, options: StorageOptions = {}) {
     this.prefix = `8bitge_${gameId}_`;
     this.enabled = enabled;
+    this.adapter = typeof options.adapter === 'object' ? options.adapter : createStorageAdapter(options.adapter);
+    this.evictable = options.evictable || ['replay:', 'screenshot:'];
+    this.ready();
+  }
+
+  /**
+   * Wait until stored values have been loaded
+   * The synchronous methods only see stored values once this resolves
+   */
+  ready(): Promise<void> {
+    if (!this.enabled) return Promise.resolve();
+    if (!this.loading) {
+      this.loading = this.load();
+    }
+    return this.loading;
+  }
+
+  /**
+   * Check if stored values have been loaded (always true when storage is disabled)
+   */
+  isReady(): boolean {
+    return !this.enabled || this.loaded;
+  }
+
+  /**
+   * Get the name of the backend in use
+   */
+  getBackend(): string {
+    return this.adapter.name;
   }
-  
+
   /**
    * Store an item in storage
    */
   setItem(key: string, value: string): void {
     if (!this.enabled) return;
-    
-    const prefixedKey = this.prefix + key;
-    
-    try {
-      localStorage.setItem(prefixedKey, value);
-    } catch (e) {
-      // Fallback to memory storage if localStorage fails
-      this.memoryStorage.set(prefixedKey, value);
-      console.warn('[8BitGE] localStorage failed, using memory storage:', e);
-    }
+
+    this.cache.set(key, value);
+    this.removed.delete(key);
+    this.persist(key, value);
   }
-  
+
   /**
    * Get an item from storage
    */
   getItem(key: string): string | null {
     if (!this.enabled) return null;
-    
-    const prefixedKey = this.prefix + key;
-    
-    try {
-      const value = localStorage.getItem(prefixedKey);
-      return value;
-    } catch (e) {
-      // Fallback to memory storage if localStorage fails
-      return this.memoryStorage.get(prefixedKey) || null;
-    }
+
+    return this.cache.get(key) ?? null;
   }
-  
+
   /**
    * Remove an item from storage
    */
   removeItem(key: string): void {
     if (!this.enabled) return;
-    
-    const prefixedKey = this.prefix + key;
-    
-    try {
-      localStorage.removeItem(prefixedKey);
-    } catch (e) {
-      // Fallback to memory storage if localStorage fails
-      this.memoryStorage.delete(prefixedKey);
+
+    this.cache.delete(key);
+    this.removed.add(key);
+    this.adapter.delete(this.prefix + key).catch(e => {
+      console.warn(`[8BitGE] Failed to remove '${key}' from storage:`, e);
+    });
+
+    if (key in this.written) {
+      delete this.written[key];
+      this.writeIndex();
     }
   }
-  
+
   /**
    * Clear all items from storage for this game
    */
   clear(): void {
     if (!this.enabled) return;
-    
-    try {
-      // Only remove items with our prefix
-      const keysToRemove = [];
-      
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key && key.startsWith(this.prefix)) {
-          keysToRemove.push(key);
-        }
-      }
-      
-      // Remove identified keys
-      keysToRemove.forEach(key => localStorage.removeItem(key));
-    } catch (e) {
-      console.warn('[8BitGE] Error clearing localStorage:', e);
-    }
-    
-    // Clear memory storage as well
-    this.memoryStorage.clear();
+
+    this.written = {};
+    Array.from(this.cache.keys()).forEach(key => this.removeItem(key));
+  }
+
+  /**
+   * Get an item once stored values have loaded
+   */
+  async get(key: string): Promise<string | null> {
+    await this.ready();
+    return this.getItem(key);
+  }
+
+  /**
+   * Store an item and wait until the backend has it
+   * Resolves false when it couldn't be stored (it is kept in memory for this session)
+   */
+  async set(key: string, value: string): Promise<boolean> {
+    await this.ready();
+    if (!this.enabled) return false;
+
+    this.cache.set(key, value);
+    this.removed.delete(key);
+    return this.persist(key, value);
   }
-  
+
+  /**
+   * Remove an item once stored values have loaded
+   */
+  async delete(key: string): Promise<void> {
+    await this.ready();
+    this.removeItem(key);
+  }
+
+  /**
+   * List this game's keys, optionally only those starting with a prefix
+   */
+  async keys(prefix: string = ''): Promise<string[]> {
+    await this.ready();
+    if (!this.enabled) return [];
+
+    return Array.from(this.cache.keys()).filter(key => key.startsWith(prefix) && key !== WRITTEN_KEY);
+  }
+
   /**
    * Set storage enabled/disabled
    */
   setEnabled(enabled: boolean): void {
     this.enabled = enabled;
   }
-  
+
+  /**
+   * Check if storage is enabled
+   */
+  isEnabled(): boolean {
+    return this.enabled;
+  }
+
   /**
    * Save an object as JSON
    */
@@ -108,7 +337,7 @@ export class StorageSystem {
       console.error('[8BitGE] Failed to save object:', e);
     }
   }
-  
+
   /**
    * Load an object from JSON
    */
@@ -116,26 +345,157 @@ export class StorageSystem {
     try {
       const jsonString = this.getItem(key);
       if (!jsonString) return defaultValue;
-      
+
       return JSON.parse(jsonString);
     } catch (e) {
       console.error('[8BitGE] Failed to load object:', e);
       return defaultValue;
     }
   }
-  
+
   /**
    * Check if storage is available
    */
   isStorageAvailable(): boolean {
+    return isLocalStorageAvailable();
+  }
+
+  /**
+   * Fill the cache from the backend, falling back to localStorage (or memory)
+   * if it can't be opened
+   */
+  private async load(): Promise<void> {
     try {
-      const testKey = '__storage_test__';
-      localStorage.setItem(testKey, 'test');
-      const result = localStorage.getItem(testKey) === 'test';
-      localStorage.removeItem(testKey);
-      return result;
+      await this.loadFrom();
     } catch (e) {
+      const fallback = this.adapter.name !== 'localstorage' && isLocalStorageAvailable()
+        ? new LocalStorageAdapter()
+        : new MemoryStorageAdapter();
+      console.warn(`[8BitGE] ${this.adapter.name} storage unavailable, using ${fallback.name}:`, e);
+
+      // Values written so far never reached the failed backend
+      const pending = new Map(this.cache);
+      this.adapter = fallback;
+      try {
+        await this.loadFrom();
+      } catch (e) {
+        console.warn('[8BitGE] Failed to load stored values:', e);
+      }
+      pending.forEach((value, key) => this.persist(key, value));
+    }
+
+    this.removed.clear();
+    this.loaded = true;
+    try {
+      this.written = { ...JSON.parse(this.cache.get(WRITTEN_KEY) || '{}'), ...this.written };
+    } catch (e) {
+      this.written = {};
+    }
+  }
+
+  /**
+   * Move keys left in localStorage into the backend, then read its values
+   */
+  private async loadFrom(): Promise<void> {
+    await this.migrate();
+
+    const keys = await this.adapter.keys(this.prefix);
+    const values = await Promise.all(keys.map(key => this.adapter.get(key)));
+    keys.forEach((prefixedKey, i) => {
+      const key = prefixedKey.slice(this.prefix.length);
+      const value = values[i];
+      // Writes made while loading are newer
+      if (value !== null && !this.cache.has(key) && !this.removed.has(key)) {
+        this.cache.set(key, value);
+      }
+    });
+  }
+
+  /**
+   * Copy this game's localStorage keys into another backend once, removing them
+   * from localStorage; keys that can't be copied stay for the next attempt
+   */
+  private async migrate(): Promise<void> {
+    if (this.adapter.name === 'localstorage' || !isLocalStorageAvailable()) return;
+
+    const legacy = new LocalStorageAdapter();
+    const keys = await legacy.keys(this.prefix);
+    for (const key of keys) {
+      const value = localStorage.getItem(key);
+      if (value === null) continue;
+
+      try {
+        if (await this.adapter.get(key) === null) {
+          await this.adapter.set(key, value);
+        }
+        localStorage.removeItem(key);
+      } catch (e) {
+        console.warn(`[8BitGE] Failed to migrate '${key}' from localStorage:`, e);
+      }
+    }
+  }
+
+  /**
+   * Write a value to the backend, evicting old evictable keys while it's full
+   */
+  private async persist(key: string, value: string): Promise<boolean> {
+    for (;;) {
+      try {
+        await this.adapter.set(this.prefix + key, value);
+        break;
+      } catch (e) {
+        if (!isQuotaError(e) || !(await this.evictOldest(key))) {
+          console.warn(`[8BitGE] Failed to store '${key}', keeping it in memory:`, e);
+          return false;
+        }
+      }
+    }
+
+    if (this.isEvictable(key)) {
+      this.written[key] = Date.now();
+      this.writeIndex();
+    }
+    return true;
+  }
+
+  /**
+   * Delete the least recently written evictable key (other than the one being stored)
+   * Returns false when there is nothing left to evict or the backend won't delete it
+   */
+  private async evictOldest(except: string): Promise<boolean> {
+    const candidates = Array.from(this.cache.keys())
+      .filter(key => key !== except && this.isEvictable(key))
+      .sort((a, b) => (this.written[a] || 0) - (this.written[b] || 0));
+    if (candidates.length === 0) return false;
+
+    const key = candidates[0];
+    console.warn(`[8BitGE] Storage is full, evicting '${key}'`);
+    try {
+      await this.adapter.delete(this.prefix + key);
+    } catch (e) {
+      console.warn(`[8BitGE] Failed to evict '${key}' from storage:`, e);
       return false;
     }
+    this.cache.delete(key);
+    delete this.written[key];
+    return true;
+  }
+
+  /**
+   * Check if a key may be evicted when storage is full
+   */
+  private isEvictable(key: string): boolean {
+    return this.evictable.some(prefix => key.startsWith(prefix));
+  }
+
+  /**
+   * Store the write times of evictable keys
+   */
+  private writeIndex(): void {
+    const text = JSON.stringify(this.written);
+    this.cache.set(WRITTEN_KEY, text);
+    this.adapter.set(this.prefix + WRITTEN_KEY, text).catch(e => {
+      console.warn('[8BitGE] Failed to store the eviction index:', e);
+    });
   }
 }
@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test';
+import { GridMover, Tilemap } from './tilemap';
+import { InputSystem } from './input';
+import { EventEmitter } from '../utils/eventEmitter';
+import { EngineEvents } from '../types';
+
+describe('GridMover', () => {
+  const originalDocument = (globalThis as any).document;
+  let listeners: Record<string, (event: any) => void>;
+  let input: InputSystem;
+  let mover: GridMover;
+
+  const press = (key: string) => listeners.keydown({ key, preventDefault: () => {} });
+  const release = (key: string) => listeners.keyup({ key, preventDefault: () => {} });
+  const step = (seconds: number = 1 / 60) => {
+    input.update();
+    mover.update(seconds);
+  };
+
+  beforeEach(() => {
+    listeners = {};
+    (globalThis as any).document = {
+      addEventListener: (type: string, listener: (event: any) => void) => listeners[type] = listener,
+      removeEventListener: () => {}
+    };
+
+    input = new InputSystem(new EventEmitter<EngineEvents>(), { preventDefaults: false });
+    input.init({ addEventListener: () => {}, removeEventListener: () => {} } as unknown as HTMLElement);
+    mover = new GridMover(new Tilemap({ width: 10, height: 10, tileWidth: 16, tileHeight: 16 }), input, {
+      position: { x: 5, y: 5 }
+    });
+  });
+
+  afterEach(() => {
+    (globalThis as any).document = originalDocument;
+  });
+
+  test('moves for a tap made between two updates', () => {
+    press('ArrowRight');
+    release('ArrowRight');
+    step();
+    expect(mover.position).toEqual({ x: 6, y: 5 });
+
+    step();
+    expect(mover.position).toEqual({ x: 6, y: 5 });
+  });
+
+  test('moves twice for a double tap made between two updates', () => {
+    press('ArrowLeft');
+    release('ArrowLeft');
+    press('ArrowLeft');
+    release('ArrowLeft');
+
+    step();
+    expect(mover.position).toEqual({ x: 4, y: 5 });
+    step();
+    expect(mover.position).toEqual({ x: 3, y: 5 });
+  });
+
+  test('repeats a held direction after the repeat delay', () => {
+    press('s');
+    step();
+    expect(mover.position).toEqual({ x: 5, y: 6 });
+
+    step(0.1);
+    expect(mover.position).toEqual({ x: 5, y: 6 });
+
+    step(0.1);
+    expect(mover.position).toEqual({ x: 5, y: 7 });
+
+    release('s');
+    step(0.2);
+    expect(mover.position).toEqual({ x: 5, y: 7 });
+  });
+});
@@ -0,0 +1,769 @@
+/**
+ * Tilemap System for 8BitGE
+ * Layered tile grids drawn from tileset atlases, with per-tile properties,
+ * animated tiles, grid movement collision and Tiled (.tmj) import
+ */
+
+import { InputSystem } from './input';
+import { AssetManager } from './assets';
+import { Rect, Vector2D } from '../types';
+
+/** Tiled stores flip flags in the top bits of each gid */
+const FLIPPED_HORIZONTALLY = 0x80000000;
+const FLIPPED_VERTICALLY = 0x40000000;
+const FLIPPED_DIAGONALLY = 0x20000000;
+const GID_MASK = ~(FLIPPED_HORIZONTALLY | FLIPPED_VERTICALLY | FLIPPED_DIAGONALLY);
+
+export interface TileProperties {
+  /** Blocks movement and collision */
+  solid?: boolean;
+  /** Can be removed with breakTile() */
+  breakable?: boolean;
+  /** Tile (gid) left behind when broken, defaults to empty */
+  breaksTo?: number;
+  [key: string]: any;
+}
+
+export interface TileAnimationFrame {
+  /** Local tile id within the tileset */
+  tile: number;
+  /** Duration in milliseconds */
+  duration: number;
+}
+
+export interface Tileset {
+  name: string;
+  /** Atlas image or its URL */
+  image: HTMLImageElement | string;
+  tileWidth: number;
+  tileHeight: number;
+  /** Tiles per row in the atlas */
+  columns: number;
+  /** Gid of the first tile in this tileset (defaults to 1) */
+  firstGid?: number;
+  tileCount?: number;
+  /** Pixels around the atlas edge */
+  margin?: number;
+  /** Pixels between tiles in the atlas */
+  spacing?: number;
+  /** Properties by local tile id */
+  properties?: Record<number, TileProperties>;
+  /** Animations by local tile id */
+  animations?: Record<number, TileAnimationFrame[]>;
+}
+
+export interface TileLayer {
+  name: string;
+  /** Row-major gids, 0 = empty */
+  data: number[];
+  visible?: boolean;
+  opacity?: number;
+  offset?: Vector2D;
+  properties?: Record<string, any>;
+}
+
+export interface TilemapObject {
+  id: number;
+  name: string;
+  type: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  properties: Record<string, any>;
+}
+
+export interface TilemapOptions {
+  /** Width in tiles */
+  width: number;
+  /** Height in tiles */
+  height: number;
+  tileWidth: number;
+  tileHeight: number;
+  tilesets?: Tileset[];
+  layers?: TileLayer[];
+  /** Object layers (spawn points, triggers) by layer name */
+  objects?: Record<string, TilemapObject[]>;
+  properties?: Record<string, any>;
+}
+
+export interface TiledImportOptions {
+  /** Base URL for tileset images referenced by the map */
+  basePath?: string;
+  /** Preloaded tileset images by tileset name, used instead of loading from the map */
+  images?: Record<string, HTMLImageElement>;
+}
+
+/**
+ * Tiled custom property list
+ */
+interface TiledProperty {
+  name: string;
+  type?: string;
+  value: any;
+}
+
+export class Tilemap {
+  readonly width: number;
+  readonly height: number;
+  readonly tileWidth: number;
+  readonly tileHeight: number;
+  properties: Record<string, any>;
+
+  private layers: TileLayer[] = [];
+  private tilesets: Tileset[] = [];
+  private objects: Record<string, TilemapObject[]>;
+  private images: Map<string, HTMLImageElement> = new Map();
+  private assets: AssetManager = new AssetManager();
+  private elapsed: number = 0;
+
+  constructor(options: TilemapOptions) {
+    this.width = options.width;
+    this.height = options.height;
+    this.tileWidth = options.tileWidth;
+    this.tileHeight = options.tileHeight;
+    this.properties = options.properties || {};
+    this.objects = options.objects || {};
+
+    (options.tilesets || []).forEach(tileset => this.addTileset(tileset));
+    (options.layers || []).forEach(layer => this.addLayer(layer.name, layer.data, layer));
+  }
+
+  /**
+   * Build a tilemap from a grid of symbols, such as the emoji grids used by
+   * the puzzle games
+   * @param legend Gid to use for each symbol (unknown symbols become empty)
+   */
+  static fromGrid(
+    grid: string[][],
+    legend: Record<string, number>,
+    options: Omit<TilemapOptions, 'width' | 'height' | 'layers'> & { layerName?: string }
+  ): Tilemap {
+    const height = grid.length;
+    const width = height > 0 ? grid[0].length : 0;
+    const data: number[] = [];
+
+    for (const row of grid) {
+      for (let x = 0; x < width; x++) {
+        data.push(legend[row[x]] || 0);
+      }
+    }
+
+    return new Tilemap({
+      ...options,
+      width,
+      height,
+      layers: [{ name: options.layerName || 'ground', data }]
+    });
+  }
+
+  /**
+   * Import a map exported from Tiled in JSON (.tmj) format
+   * Supports tile layers (array or uncompressed base64 data), object layers,
+   * embedded tilesets, tile properties and tile animations
+   */
+  static fromTiled(map: any, options: TiledImportOptions = {}): Tilemap {
+    if (map.infinite) {
+      throw new Error('[8BitGE] Infinite Tiled maps are not supported');
+    }
+
+    const basePath = options.basePath ? options.basePath.replace(/\/?$/, '/') : '';
+
+    const tilesets: Tileset[] = (map.tilesets || []).map((tileset: any) => {
+      if (tileset.source) {
+        throw new Error(`[8BitGE] External tileset '${tileset.source}' must be embedded in the map`);
+      }
+
+      const properties: Record<number, TileProperties> = {};
+      const animations: Record<number, TileAnimationFrame[]> = {};
+
+      for (const tile of tileset.tiles || []) {
+        if (tile.properties) {
+          properties[tile.id] = Tilemap.readTiledProperties(tile.properties);
+        }
+        if (tile.animation) {
+          animations[tile.id] = tile.animation.map((frame: any) => ({
+            tile: frame.tileid,
+            duration: frame.duration
+          }));
+        }
+      }
+
+      return {
+        name: tileset.name,
+        image: options.images?.[tileset.name] || basePath + tileset.image,
+        tileWidth: tileset.tilewidth,
+        tileHeight: tileset.tileheight,
+        columns: tileset.columns,
+        firstGid: tileset.firstgid,
+        tileCount: tileset.tilecount,
+        margin: tileset.margin || 0,
+        spacing: tileset.spacing || 0,
+        properties,
+        animations
+      };
+    });
+
+    const layers: TileLayer[] = [];
+    const objects: Record<string, TilemapObject[]> = {};
+
+    const readLayers = (source: any[], parentOffset: Vector2D) => {
+      for (const layer of source) {
+        const offset = {
+          x: parentOffset.x + (layer.offsetx || 0),
+          y: parentOffset.y + (layer.offsety || 0)
+        };
+
+        if (layer.type === 'tilelayer') {
+          layers.push({
+            name: layer.name,
+            data: Tilemap.readTiledData(layer),
+            visible: layer.visible !== false,
+            opacity: layer.opacity ?? 1,
+            offset,
+            properties: Tilemap.readTiledProperties(layer.properties)
+          });
+        } else if (layer.type === 'objectgroup') {
+          objects[layer.name] = (layer.objects || []).map((object: any) => ({
+            id: object.id,
+            name: object.name || '',
+            type: object.type || object.class || '',
+            x: object.x + offset.x,
+            y: object.y + offset.y,
+            width: object.width || 0,
+            height: object.height || 0,
+            properties: Tilemap.readTiledProperties(object.properties)
+          }));
+        } else if (layer.type === 'group') {
+          readLayers(layer.layers || [], offset);
+        }
+      }
+    };
+    readLayers(map.layers || [], { x: 0, y: 0 });
+
+    return new Tilemap({
+      width: map.width,
+      height: map.height,
+      tileWidth: map.tilewidth,
+      tileHeight: map.tileheight,
+      tilesets,
+      layers,
+      objects,
+      properties: Tilemap.readTiledProperties(map.properties)
+    });
+  }
+
+  /**
+   * Add a tileset, loading its image if given a URL
+   */
+  addTileset(tileset: Tileset): void {
+    const entry = { firstGid: 1, margin: 0, spacing: 0, ...tileset };
+    this.tilesets.push(entry);
+    this.tilesets.sort((a, b) => a.firstGid! - b.firstGid!);
+
+    if (typeof entry.image === 'string') {
+      this.loadImage(entry.name, entry.image);
+    } else {
+      this.images.set(entry.name, entry.image);
+    }
+  }
+
+  /**
+   * Add a tile layer (drawn above existing layers)
+   */
+  addLayer(name: string, data?: number[], options: Partial<TileLayer> = {}): TileLayer {
+    const size = this.width * this.height;
+    const layer: TileLayer = {
+      visible: true,
+      opacity: 1,
+      ...options,
+      name,
+      data: data ? data.slice(0, size) : new Array(size).fill(0)
+    };
+
+    while (layer.data.length < size) {
+      layer.data.push(0);
+    }
+
+    this.layers = this.layers.filter(l => l.name !== name);
+    this.layers.push(layer);
+    return layer;
+  }
+
+  /**
+   * Get a tile layer by name
+   */
+  getLayer(name: string): TileLayer | undefined {
+    return this.layers.find(layer => layer.name === name);
+  }
+
+  /**
+   * Get all tile layers in draw order
+   */
+  getLayers(): TileLayer[] {
+    return [...this.layers];
+  }
+
+  /**
+   * Remove a tile layer
+   */
+  removeLayer(name: string): void {
+    this.layers = this.layers.filter(layer => layer.name !== name);
+  }
+
+  /**
+   * Get the objects of an object layer (all object layers if no name is given)
+   */
+  getObjects(layerName?: string): TilemapObject[] {
+    if (layerName) {
+      return this.objects[layerName] || [];
+    }
+    return Object.values(this.objects).flat();
+  }
+
+  /**
+   * Check if tile coordinates are inside the map
+   */
+  inBounds(x: number, y: number): boolean {
+    return x >= 0 && y >= 0 && x < this.width && y < this.height;
+  }
+
+  /**
+   * Get the gid at a tile position (0 when empty or out of bounds)
+   */
+  getTile(layerName: string, x: number, y: number): number {
+    const layer = this.getLayer(layerName);
+    if (!layer || !this.inBounds(x, y)) return 0;
+
+    return layer.data[y * this.width + x] & GID_MASK;
+  }
+
+  /**
+   * Set the gid at a tile position
+   */
+  setTile(layerName: string, x: number, y: number, gid: number): void {
+    const layer = this.getLayer(layerName);
+    if (!layer || !this.inBounds(x, y)) return;
+
+    layer.data[y * this.width + x] = gid;
+  }
+
+  /**
+   * Get the properties of a tile
+   */
+  getTileProperties(gid: number): TileProperties {
+    const tileset = this.getTileset(gid);
+    if (!tileset) return {};
+
+    return tileset.properties?.[(gid & GID_MASK) - tileset.firstGid!] || {};
+  }
+
+  /**
+   * Get the properties of the tiles at a position, top layer first
+   */
+  getPropertiesAt(x: number, y: number): TileProperties[] {
+    const result: TileProperties[] = [];
+    for (let i = this.layers.length - 1; i >= 0; i--) {
+      const gid = this.getTile(this.layers[i].name, x, y);
+      if (gid) result.push(this.getTileProperties(gid));
+    }
+    return result;
+  }
+
+  /**
+   * Check if any layer has a solid tile at a position
+   * Positions outside the map count as solid
+   */
+  isSolid(x: number, y: number): boolean {
+    if (!this.inBounds(x, y)) return true;
+    return this.getPropertiesAt(x, y).some(props => props.solid);
+  }
+
+  /**
+   * Check if a grid move from one tile to a neighbour is allowed
+   */
+  canMove(x: number, y: number, dx: number, dy: number): boolean {
+    return !this.isSolid(x + dx, y + dy);
+  }
+
+  /**
+   * Break the topmost breakable tile at a position
+   * Returns true if a tile was broken
+   */
+  breakTile(x: number, y: number): boolean {
+    for (let i = this.layers.length - 1; i >= 0; i--) {
+      const layer = this.layers[i];
+      const gid = this.getTile(layer.name, x, y);
+      if (!gid) continue;
+
+      const props = this.getTileProperties(gid);
+      if (props.breakable) {
+        this.setTile(layer.name, x, y, props.breaksTo || 0);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Find tile positions whose tile matches a predicate
+   */
+  findTiles(predicate: (gid: number, props: TileProperties) => boolean, layerName?: string): Vector2D[] {
+    const layers = layerName ? this.layers.filter(l => l.name === layerName) : this.layers;
+    const result: Vector2D[] = [];
+
+    for (const layer of layers) {
+      for (let i = 0; i < layer.data.length; i++) {
+        const gid = layer.data[i] & GID_MASK;
+        if (gid && predicate(gid, this.getTileProperties(gid))) {
+          result.push({ x: i % this.width, y: Math.floor(i / this.width) });
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Convert a world position to tile coordinates
+   */
+  worldToTile(point: Vector2D): Vector2D {
+    return {
+      x: Math.floor(point.x / this.tileWidth),
+      y: Math.floor(point.y / this.tileHeight)
+    };
+  }
+
+  /**
+   * Convert tile coordinates to the world position of the tile's top-left corner
+   */
+  tileToWorld(tile: Vector2D): Vector2D {
+    return {
+      x: tile.x * this.tileWidth,
+      y: tile.y * this.tileHeight
+    };
+  }
+
+  /**
+   * Get the world rects of solid tiles overlapping a rect, for resolving
+   * free movement against the map
+   */
+  getSolidRects(area: Rect): Rect[] {
+    const min = this.worldToTile(area);
+    const max = this.worldToTile({ x: area.x + area.width, y: area.y + area.height });
+    const rects: Rect[] = [];
+
+    for (let y = Math.max(0, min.y); y <= Math.min(this.height - 1, max.y); y++) {
+      for (let x = Math.max(0, min.x); x <= Math.min(this.width - 1, max.x); x++) {
+        if (this.isSolid(x, y)) {
+          rects.push({ x: x * this.tileWidth, y: y * this.tileHeight, width: this.tileWidth, height: this.tileHeight });
+        }
+      }
+    }
+
+    return rects;
+  }
+
+  /**
+   * Advance tile animations
+   * @param deltaTime Time in seconds
+   */
+  update(deltaTime: number): void {
+    this.elapsed += deltaTime * 1000;
+  }
+
+  /**
+   * Draw the visible layers
+   * @param view World area to draw (defaults to the whole map)
+   */
+  render(context: CanvasRenderingContext2D, view?: Rect): void {
+    for (const layer of this.layers) {
+      if (layer.visible !== false) {
+        this.renderLayer(context, layer.name, view);
+      }
+    }
+  }
+
+  /**
+   * Draw a single layer
+   * @param view World area to draw (defaults to the whole map)
+   */
+  renderLayer(context: CanvasRenderingContext2D, layerName: string, view?: Rect): void {
+    const layer = this.getLayer(layerName);
+    if (!layer) return;
+
+    const offsetX = layer.offset?.x || 0;
+    const offsetY = layer.offset?.y || 0;
+
+    // Only draw tiles inside the view
+    let minX = 0;
+    let minY = 0;
+    let maxX = this.width - 1;
+    let maxY = this.height - 1;
+    if (view) {
+      minX = Math.max(minX, Math.floor((view.x - offsetX) / this.tileWidth));
+      minY = Math.max(minY, Math.floor((view.y - offsetY) / this.tileHeight));
+      maxX = Math.min(maxX, Math.floor((view.x + view.width - offsetX) / this.tileWidth));
+      maxY = Math.min(maxY, Math.floor((view.y + view.height - offsetY) / this.tileHeight));
+    }
+
+    context.save();
+    context.globalAlpha *= layer.opacity ?? 1;
+
+    for (let y = minY; y <= maxY; y++) {
+      for (let x = minX; x <= maxX; x++) {
+        const raw = layer.data[y * this.width + x];
+        if (!raw) continue;
+
+        this.drawTile(
+          context,
+          raw,
+          offsetX + x * this.tileWidth,
+          offsetY + y * this.tileHeight
+        );
+      }
+    }
+
+    context.restore();
+  }
+
+  /**
+   * Draw a single tile (gid may include Tiled flip flags)
+   */
+  drawTile(context: CanvasRenderingContext2D, rawGid: number, x: number, y: number): void {
+    const gid = rawGid & GID_MASK;
+    const tileset = this.getTileset(gid);
+    if (!tileset) return;
+
+    const image = this.images.get(tileset.name) || this.assets.getImage(tileset.name);
+    if (!image || !image.complete) return;
+
+    const localId = this.getAnimatedTile(tileset, gid - tileset.firstGid!);
+    const margin = tileset.margin || 0;
+    const spacing = tileset.spacing || 0;
+    const sx = margin + (localId % tileset.columns) * (tileset.tileWidth + spacing);
+    const sy = margin + Math.floor(localId / tileset.columns) * (tileset.tileHeight + spacing);
+
+    // Tilesets with taller tiles than the map grid are anchored to the bottom of the cell
+    const dy = y + this.tileHeight - tileset.tileHeight;
+    const flipX = (rawGid & FLIPPED_HORIZONTALLY) !== 0;
+    const flipY = (rawGid & FLIPPED_VERTICALLY) !== 0;
+    const flipDiagonal = (rawGid & FLIPPED_DIAGONALLY) !== 0;
+
+    if (!flipX && !flipY && !flipDiagonal) {
+      context.drawImage(image, sx, sy, tileset.tileWidth, tileset.tileHeight, x, dy, tileset.tileWidth, tileset.tileHeight);
+      return;
+    }
+
+    // Tiled swaps the axes first (tiles rotated by 90 or 270 degrees), then flips
+    const width = flipDiagonal ? tileset.tileHeight : tileset.tileWidth;
+    const height = flipDiagonal ? tileset.tileWidth : tileset.tileHeight;
+    const scaleX = flipX ? -1 : 1;
+    const scaleY = flipY ? -1 : 1;
+
+    context.save();
+    context.translate(x + (flipX ? width : 0), dy + (flipY ? height : 0));
+    if (flipDiagonal) {
+      context.transform(0, scaleY, scaleX, 0, 0, 0);
+    } else {
+      context.scale(scaleX, scaleY);
+    }
+    context.drawImage(image, sx, sy, tileset.tileWidth, tileset.tileHeight, 0, 0, tileset.tileWidth, tileset.tileHeight);
+    context.restore();
+  }
+
+  /**
+   * Release tileset images loaded from URLs
+   */
+  destroy(): void {
+    this.assets.unloadAll();
+    this.images.clear();
+  }
+
+  /**
+   * Find the tileset a gid belongs to
+   */
+  private getTileset(gid: number): Tileset | undefined {
+    const id = gid & GID_MASK;
+    if (!id) return undefined;
+
+    for (let i = this.tilesets.length - 1; i >= 0; i--) {
+      if (id >= this.tilesets[i].firstGid!) {
+        return this.tilesets[i];
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolve the current frame of an animated tile
+   */
+  private getAnimatedTile(tileset: Tileset, localId: number): number {
+    const frames = tileset.animations?.[localId];
+    if (!frames || frames.length === 0) return localId;
+
+    const total = frames.reduce((sum, frame) => sum + frame.duration, 0);
+    if (total <= 0) return localId;
+
+    let time = this.elapsed % total;
+    for (const frame of frames) {
+      if (time < frame.duration) return frame.tile;
+      time -= frame.duration;
+    }
+    return localId;
+  }
+
+  /**
+   * Load a tileset image through the shared asset cache
+   */
+  private loadImage(name: string, path: string): void {
+    this.assets.load([{ id: name, type: 'image', url: path }]);
+  }
+
+  /**
+   * Read tile layer data in array or uncompressed base64 form
+   */
+  private static readTiledData(layer: any): number[] {
+    if (Array.isArray(layer.data)) {
+      return layer.data;
+    }
+
+    if (layer.encoding === 'base64' && !layer.compression) {
+      const binary = atob(layer.data);
+      const data: number[] = [];
+      for (let i = 0; i + 3 < binary.length; i += 4) {
+        data.push(
+          (binary.charCodeAt(i) |
+          (binary.charCodeAt(i + 1) << 8) |
+          (binary.charCodeAt(i + 2) << 16) |
+          (binary.charCodeAt(i + 3) << 24)) >>> 0
+        );
+      }
+      return data;
+    }
+
+    throw new Error(`[8BitGE] Unsupported Tiled layer data in '${layer.name}' (use CSV or uncompressed base64)`);
+  }
+
+  /**
+   * Convert a Tiled property list into a plain object
+   */
+  private static readTiledProperties(properties?: TiledProperty[]): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const property of properties || []) {
+      result[property.name] = property.value;
+    }
+    return result;
+  }
+}
+
+export interface GridMoverOptions {
+  /** Starting tile */
+  position: Vector2D;
+  /** Delay before a held direction repeats, in milliseconds */
+  repeatDelay?: number;
+  /** Keys for each direction (lowercase, as reported by InputSystem) */
+  keys?: {
+    up: string[];
+    down: string[];
+    left: string[];
+    right: string[];
+  };
+  /** Called after each successful move */
+  onMove?: (position: Vector2D, direction: Vector2D) => void;
+  /** Called when a move is blocked by a solid tile */
+  onBlocked?: (target: Vector2D, direction: Vector2D) => void;
+}
+
+const DEFAULT_GRID_KEYS = {
+  up: ['arrowup', 'w'],
+  down: ['arrowdown', 's'],
+  left: ['arrowleft', 'a'],
+  right: ['arrowright', 'd']
+};
+
+/** Grid directions in the order they win when several are pressed */
+const GRID_DIRECTIONS: { name: 'up' | 'down' | 'left' | 'right'; x: number; y: number }[] = [
+  { name: 'up', x: 0, y: -1 },
+  { name: 'down', x: 0, y: 1 },
+  { name: 'left', x: -1, y: 0 },
+  { name: 'right', x: 1, y: 0 }
+];
+
+/**
+ * Tile-by-tile movement driven by InputSystem and blocked by solid tiles
+ */
+export class GridMover {
+  position: Vector2D;
+
+  private tilemap: Tilemap;
+  private input: InputSystem;
+  private options: GridMoverOptions;
+  private cooldown: number = 0;
+  private heldDirection: string | null = null;
+
+  constructor(tilemap: Tilemap, input: InputSystem, options: GridMoverOptions) {
+    this.tilemap = tilemap;
+    this.input = input;
+    this.options = { repeatDelay: 150, keys: DEFAULT_GRID_KEYS, ...options };
+    this.position = { ...options.position };
+  }
+
+  /**
+   * Move for each direction key press, and repeat while one is held
+   * Presses are taken from the input buffer, so taps between updates still move
+   * @param deltaTime Time in seconds
+   */
+  update(deltaTime: number): void {
+    const keys = this.options.keys!;
+    this.cooldown -= deltaTime * 1000;
+
+    // One buffered press per update, so a quick double tap moves twice
+    const pressed = GRID_DIRECTIONS.find(direction => this.input.consumePress(keys[direction.name]));
+    if (pressed) {
+      this.heldDirection = pressed.name;
+      this.cooldown = this.options.repeatDelay!;
+      this.move(pressed.x, pressed.y);
+      return;
+    }
+
+    const held = GRID_DIRECTIONS.find(direction => this.input.isAnyKeyDown(keys[direction.name]));
+    if (!held) {
+      this.heldDirection = null;
+      this.cooldown = 0;
+      return;
+    }
+
+    // A direction still held after another is released moves immediately; holding repeats after the delay
+    if (held.name !== this.heldDirection || this.cooldown <= 0) {
+      this.heldDirection = held.name;
+      this.cooldown = this.options.repeatDelay!;
+      this.move(held.x, held.y);
+    }
+  }
+
+  /**
+   * Try to move by one tile (also used for swipes and on-screen buttons)
+   * Returns true if the move was allowed
+   */
+  move(dx: number, dy: number): boolean {
+    const direction = { x: dx, y: dy };
+    const target = { x: this.position.x + dx, y: this.position.y + dy };
+
+    if (!this.tilemap.canMove(this.position.x, this.position.y, dx, dy)) {
+      if (this.options.onBlocked) this.options.onBlocked(target, direction);
+      return false;
+    }
+
+    this.position = target;
+    if (this.options.onMove) this.options.onMove({ ...target }, direction);
+    return true;
+  }
+
+  /**
+   * Get the world position of the current tile's top-left corner
+   */
+  getWorldPosition(): Vector2D {
+    return this.tilemap.tileToWorld(this.position);
+  }
+}
@@ -27,6 +27,9 @@ export interface GameConfig {
   width?: number;
   height?: number;
   fps?: number;
+  capFrameRate?: boolean;
+  fixedUpdateRate?: number;
+  maxUpdatesPerFrame?: number;
   debug?: boolean;
   pixelPerfect?: boolean;
   persistState?: boolean;
@@ -43,16 +46,31 @@ export interface GameOptions {
   width?: number;
   height?: number;
   fps?: number;
+  capFrameRate?: boolean;
+  fixedUpdateRate?: number;
+  maxUpdatesPerFrame?: number;
   debug?: boolean;
   pixelPerfect?: boolean;
   persistState?: boolean;
   achievements?: Achievement[];
   audioOptions?: AudioOptions;
+  /** Named input actions and axes; players' rebinds are saved over these */
+  bindings?: InputBindings;
+  inputOptions?: InputOptions;
   orientation?: OrientationMode;
   responsive?: boolean;
   pixelRatio?: number;
   allowPause?: boolean;
   fullscreenOnMobile?: boolean;
+  renderLayers?: RenderLayer[];
+  /** Spatial index used for automatic entity collisions, or false to disable them */
+  broadphase?: BroadphaseOptions | false;
+  /** Enable the physics system (true for defaults) */
+  physics?: PhysicsOptions | boolean;
+  /** Save slot schema, migrations and autosave */
+  saves?: SaveOptions;
+  /** Storage backend and eviction */
+  storage?: StorageOptions;
 }
 
 export interface GameState {
@@ -60,23 +78,110 @@ export interface GameState {
   score: number;
   level: number;
   timer: number;
-  entities: any[];
+  entities: Entity[];
   custom: Record<string, any>;
 }
 
+/**
+ * The part of the game state kept in save slots
+ * Status and entities are rebuilt by the game, so they aren't saved
+ */
+export type SavedState = Pick<GameState, 'score' | 'level' | 'timer' | 'custom'>;
+
+export interface SaveSlotInfo {
+  slot: string;
+  /** Display name (defaults to the slot) */
+  name: string;
+  /** When the slot was written, in ms since the epoch */
+  timestamp: number;
+  level: number;
+  score: number;
+  /** Schema version the state was written with */
+  version: number;
+}
+
+/**
+ * A save slot as stored
+ */
+export interface SaveFile {
+  info: SaveSlotInfo;
+  state: SavedState;
+}
+
+export type StorageBackend = 'auto' | 'indexeddb' | 'localstorage' | 'memory';
+
+/**
+ * Key-value backend for StorageSystem; keys arrive with the game's prefix
+ */
+export interface StorageAdapter {
+  /** Backend name, e.g. 'indexeddb' */
+  readonly name: string;
+  get(key: string): Promise<string | null>;
+  /** Rejects with a QuotaExceededError when the backend is full */
+  set(key: string, value: string): Promise<void>;
+  delete(key: string): Promise<void>;
+  /** Keys starting with a prefix */
+  keys(prefix?: string): Promise<string[]>;
+}
+
+export interface StorageOptions {
+  /** Backend or custom adapter (default 'auto': IndexedDB, then localStorage, then memory) */
+  adapter?: StorageBackend | StorageAdapter;
+  /** Key prefixes that may be deleted, oldest first, when storage is full (default replays and screenshots) */
+  evictable?: string[];
+}
+
+export interface SaveOptions {
+  /** Schema version of the game's saves (default 1; saves from before versioning count as 1) */
+  version?: number;
+  /** Upgrades keyed by the version they upgrade from, applied in order up to the current version */
+  migrations?: Record<number, (state: any) => any>;
+  /** Extra checks on a loaded and upgraded state; return false to reject it */
+  validate?: (state: SavedState) => boolean;
+  /** Save to the autosave slot when the game pauses or the page is hidden (default true) */
+  autosave?: boolean;
+  /** Thumbnail width in pixels, or 0 for no thumbnails (default 160) */
+  thumbnailWidth?: number;
+}
+
 export interface Entity {
   id?: string;
+  /** Id of the ECS entity mirroring this object (set by the World) */
+  entityId?: number;
   type: string;
   position: Vector2D;
   velocity?: Vector2D;
   active?: boolean;
   collider?: Rect;
+  layer?: string;
+  zIndex?: number;
+  visible?: boolean;
   update?: (deltaTime: number, engine: any) => void;
   render?: (context: CanvasRenderingContext2D) => void;
   onCollision?: (other: Entity) => void;
   [key: string]: any;
 }
 
+export interface RenderLayer {
+  name: string;
+  order: number;
+  visible?: boolean;
+  /** Draw in screen space, ignoring the camera (HUD, menus) */
+  screenSpace?: boolean;
+}
+
+export interface RenderEvent {
+  context: CanvasRenderingContext2D;
+  width: number;
+  height: number;
+  /** Interpolation factor (0-1) between the last two fixed updates */
+  alpha: number;
+}
+
+export interface RenderLayerEvent extends RenderEvent {
+  layer: string;
+}
+
 export interface Achievement {
   id: string;
   title: string;
@@ -109,12 +214,253 @@ export interface LeaderboardEntry {
   gameVersion?: string;
 }
 
+/**
+ * Everything a player has stored, gathered to move it between browsers
+ */
+export interface ProfileData {
+  playerId: string | null;
+  /** Local leaderboard entries by game */
+  leaderboards: Record<string, LeaderboardEntry[]>;
+  /** Saved achievements by game */
+  achievements: Record<string, Achievement[]>;
+  /** Values games stored through StorageSystem, by prefixed key */
+  storage: Record<string, string>;
+  /** Best scores games keep under their own keys */
+  scores: Record<string, string>;
+}
+
+export interface ProfileFile {
+  format: '8bitge-profile';
+  version: number;
+  exportedAt: number;
+  /** HMAC-SHA-256 integrity checksum of the profile, in hex */
+  signature: string;
+  profile: ProfileData;
+}
+
+export interface ProfileOptions {
+  /** localStorage keys where games keep their own best scores */
+  scoreKeys?: string[];
+  /** Key the profile checksum is computed with */
+  secret?: string;
+  /** Backend game storage lives in (default 'auto', as for StorageSystem) */
+  adapter?: StorageBackend | StorageAdapter;
+}
+
+export interface ProfileImportOptions {
+  /** Take the file's stored values over this browser's when both have one (scores, achievements and save slots are merged either way) */
+  overwrite?: boolean;
+}
+
+export interface ProfileImportResult {
+  /** Leaderboard entries added */
+  scores: number;
+  /** Achievements newly unlocked */
+  achievements: number;
+  /** Stored values and best scores written */
+  values: number;
+  /** Stored values where this browser's copy was kept */
+  conflicts: number;
+}
+
+export interface BroadphaseOptions {
+  /** Spatial index to use (defaults to grid) */
+  type?: 'grid' | 'quadtree';
+  /** Grid cell size in pixels */
+  cellSize?: number;
+  /** Items a quadtree node holds before splitting */
+  maxItems?: number;
+  /** Maximum quadtree depth */
+  maxDepth?: number;
+}
+
+export enum BodyType {
+  /** Never moves (walls, floors) */
+  STATIC = 'static',
+  /** Moved only by its velocity; pushes dynamic bodies but is never pushed */
+  KINEMATIC = 'kinematic',
+  /** Affected by gravity, impulses and collisions */
+  DYNAMIC = 'dynamic'
+}
+
+/**
+ * Collision shape of a body, offset relative to the body position
+ * (top-left corner for rects, center for circles)
+ */
+export type BodyShape =
+  | { type: 'rect'; offset?: Vector2D; width: number; height: number }
+  | { type: 'circle'; offset?: Vector2D; radius: number };
+
+export interface PhysicsBody {
+  id: number;
+  type: BodyType;
+  position: Vector2D;
+  velocity: Vector2D;
+  shape: BodyShape;
+  mass: number;
+  /** Bounciness, 0-1 */
+  restitution: number;
+  /** Surface friction, 0-1 */
+  friction: number;
+  gravityScale: number;
+  /** Collision layer bits this body is on */
+  layer: number;
+  /** Collision layer bits this body collides with */
+  mask: number;
+  /** Triggers report overlaps through events instead of colliding */
+  isTrigger: boolean;
+  /** Entity this body moves, if created with attach() */
+  entity?: Entity;
+  userData?: any;
+}
+
+export type BodyOptions = Partial<Omit<PhysicsBody, 'id' | 'entity'>> & {
+  shape?: BodyShape;
+};
+
+export interface PhysicsOptions {
+  /** Acceleration in pixels per second squared */
+  gravity?: Vector2D;
+  /** Physics step in seconds */
+  timestep?: number;
+  /** Maximum physics steps per engine update */
+  maxSteps?: number;
+  /** Contact solver iterations per step */
+  iterations?: number;
+  /** Cell size of the broadphase grid */
+  cellSize?: number;
+}
+
+export interface TriggerEvent {
+  trigger: PhysicsBody;
+  body: PhysicsBody;
+}
+
+/**
+ * Oscillator shapes for generated sound effects
+ */
+export type SfxWaveform = 'square' | 'saw' | 'triangle' | 'noise';
+
+/**
+ * Named families of generated sound effects
+ */
+export type SfxPreset = 'coin' | 'laser' | 'explosion' | 'powerup' | 'hit' | 'jump' | 'blip';
+
+/**
+ * Parameters for a generated sound effect; times are in seconds and frequencies in Hz
+ */
+export interface SfxParams {
+  waveform: SfxWaveform;
+  /** Envelope: rise, hold and fall times */
+  attack: number;
+  sustain: number;
+  decay: number;
+  /** Extra volume at the start of the sustain that fades out over it (0-1) */
+  punch: number;
+  /** Starting frequency */
+  frequency: number;
+  /** The sound ends once a slide takes it below this frequency */
+  minFrequency: number;
+  /** Frequency change in octaves per second */
+  slide: number;
+  /** Change of slide per second */
+  deltaSlide: number;
+  /** Vibrato depth as a fraction of the frequency, and its rate */
+  vibratoDepth: number;
+  vibratoSpeed: number;
+  /** Frequency multiplier applied once, after arpeggioTime (1 disables) */
+  arpeggio: number;
+  arpeggioTime: number;
+  /** Square wave duty cycle (0-1) and its change per second */
+  duty: number;
+  dutySweep: number;
+  /** Low-pass cutoff (0 disables), its change per second and resonance (0-1) */
+  lowPass: number;
+  lowPassSweep: number;
+  lowPassResonance: number;
+  /** High-pass cutoff (0 disables) and its change per second */
+  highPass: number;
+  highPassSweep: number;
+  volume: number;
+  /** Seed for the noise waveform */
+  seed: number;
+}
+
+/**
+ * A preset name or parameters (missing ones use the defaults)
+ */
+export type SfxSource = SfxPreset | Partial<SfxParams>;
+
+/**
+ * Mixer buses; music, sfx and ui all feed master
+ */
+export type AudioBus = 'master' | 'music' | 'sfx' | 'ui';
+
+/**
+ * A music beat; time is the AudioContext time it played at
+ */
+export interface BeatEvent {
+  /** Beats since the music started */
+  beat: number;
+  bar: number;
+  /** Beat within the bar, from 0 */
+  beatInBar: number;
+  time: number;
+}
+
 export interface AudioOptions {
   muted?: boolean;
+  /** Master volume (0-1) */
   volume?: number;
   sounds?: Record<string, string>;
   autoUnlock?: boolean;
   autoSuspend?: boolean;
+  /** Starting volumes for the music, sfx and ui buses */
+  buses?: Partial<Record<Exclude<AudioBus, 'master'>, number>>;
+  /** Default number of voices each sound can play at once */
+  maxVoices?: number;
+  /** How far sounds played at a world position pan (0-1) */
+  panSpread?: number;
+  /** Sound effects to generate on init, by id */
+  sfx?: Record<string, SfxSource>;
+}
+
+export interface InputOptions {
+  preventDefaults?: boolean;
+  enableSwipe?: boolean;
+  preventScroll?: boolean;
+  /** Default actions and axes */
+  bindings?: InputBindings;
+  /** Radial dead zone for gamepad sticks (0-1) */
+  gamepadDeadZone?: number;
+  /** Number of player slots gamepads are assigned to */
+  maxPlayers?: number;
+  /** Milliseconds a press stays buffered for consumePress and consumeAction */
+  bufferWindow?: number;
+  /** Gesture recognition thresholds */
+  gestures?: GestureOptions;
+}
+
+/**
+ * Gesture thresholds; distances are in element pixels and times in milliseconds
+ */
+export interface GestureOptions {
+  /** Longest press that counts as a tap (default 250) */
+  tapTime?: number;
+  /** Furthest a tap may move (default 10) */
+  tapDistance?: number;
+  /** Longest gap between the taps of a double-tap (default 300) */
+  doubleTapTime?: number;
+  /** Furthest apart the taps of a double-tap may be (default 30) */
+  doubleTapDistance?: number;
+  /** Hold time for a long press (default 500) */
+  longPressTime?: number;
+  /** Movement that starts a drag (default 10) */
+  dragDistance?: number;
+  /** Shortest swipe (default 50) */
+  swipeDistance?: number;
+  /** Longest swipe (default 300) */
+  swipeTime?: number;
 }
 
 export interface InputState {
@@ -129,6 +475,121 @@ export interface InputState {
     };
   };
   touches: Touch[];
+  /** Connected gamepads in player order */
+  gamepads: GamepadState[];
+}
+
+/**
+ * Buttons in the standard gamepad mapping (Xbox layout names)
+ */
+export enum GamepadButton {
+  A = 0,
+  B = 1,
+  X = 2,
+  Y = 3,
+  LEFT_BUMPER = 4,
+  RIGHT_BUMPER = 5,
+  LEFT_TRIGGER = 6,
+  RIGHT_TRIGGER = 7,
+  SELECT = 8,
+  START = 9,
+  LEFT_STICK = 10,
+  RIGHT_STICK = 11,
+  DPAD_UP = 12,
+  DPAD_DOWN = 13,
+  DPAD_LEFT = 14,
+  DPAD_RIGHT = 15,
+  HOME = 16
+}
+
+/**
+ * A gamepad normalized to the standard mapping
+ */
+export interface GamepadState {
+  /** Index in navigator.getGamepads() */
+  index: number;
+  /** Player slot, starting at 0 */
+  player: number;
+  id: string;
+  /** Whether the browser reported the standard mapping (others are mapped best-effort) */
+  standard: boolean;
+  /** Pressed state by GamepadButton */
+  buttons: boolean[];
+  /** Analog button values (0-1) by GamepadButton */
+  values: number[];
+  /** Sticks after the radial dead zone, -1 to 1 */
+  leftStick: Vector2D;
+  rightStick: Vector2D;
+  /** Triggers, 0-1 */
+  leftTrigger: number;
+  rightTrigger: number;
+  /** Left stick x/y, right stick x/y, left and right trigger */
+  axes: number[];
+  /** Whether the pad can rumble */
+  vibration: boolean;
+}
+
+export interface GamepadConnectionEvent {
+  index: number;
+  player: number;
+  id: string;
+}
+
+export interface GamepadButtonEvent {
+  index: number;
+  player: number;
+  button: number;
+}
+
+export interface RumbleOptions {
+  /** Milliseconds */
+  duration?: number;
+  /** Low-frequency motor, 0-1 */
+  strongMagnitude?: number;
+  /** High-frequency motor, 0-1 */
+  weakMagnitude?: number;
+}
+
+/**
+ * Physical input that can trigger an action
+ * Plain strings are keyboard keys, as in KeyboardEvent.key lowercased
+ */
+export type ActionBinding =
+  | { type: 'key'; key: string }
+  | { type: 'mouse'; button: 'left' | 'middle' | 'right' }
+  /** Touch inside an area given as fractions (0-1) of the game element */
+  | { type: 'touch'; zone: Rect }
+  /** Active for one update after a swipe */
+  | { type: 'swipe'; direction: SwipeDirection }
+  | { type: 'joystick'; axis: 'x' | 'y'; direction: 1 | -1; threshold?: number }
+  /** Button by GamepadButton, on any pad unless a player slot is given */
+  | { type: 'gamepad'; button: number; player?: number }
+  /** Axis by index in GamepadState.axes */
+  | { type: 'gamepadAxis'; axis: number; direction: 1 | -1; threshold?: number; player?: number };
+
+/**
+ * Input that drives an axis from -1 to 1
+ */
+export type AxisBinding =
+  | { type: 'buttons'; negative: ActionBinding | string; positive: ActionBinding | string }
+  | { type: 'joystick'; axis: 'x' | 'y'; invert?: boolean }
+  | { type: 'gamepadAxis'; axis: number; invert?: boolean; player?: number };
+
+/**
+ * Named actions and axes with their bindings
+ */
+export interface InputBindings {
+  actions?: Record<string, Array<ActionBinding | string>>;
+  axes?: Record<string, AxisBinding[]>;
+}
+
+export interface ActionState {
+  /** Held this update */
+  pressed: boolean;
+  /** Pressed this update after not being held */
+  justPressed: boolean;
+  /** Released this update */
+  justReleased: boolean;
 }
 
 export interface Touch {
@@ -142,6 +603,302 @@ export interface EventCallback {
   (data: any): void;
 }
 
+export type EmptyEvent = Record<string, never>;
+
+export type SwipeDirection = 'up' | 'down' | 'left' | 'right';
+
+export interface KeyEvent {
+  key: string;
+  /** Absent for replayed input */
+  originalEvent?: KeyboardEvent;
+}
+
+export interface MouseButtonEvent {
+  x: number;
+  y: number;
+  button: number;
+  /** Absent for replayed input */
+  originalEvent?: MouseEvent;
+}
+
+export interface MouseMoveEvent {
+  x: number;
+  y: number;
+  /** Absent for replayed input */
+  originalEvent?: MouseEvent;
+}
+
+export interface TouchPointEvent {
+  id: number;
+  x: number;
+  y: number;
+  /** Absent for replayed input */
+  originalEvent?: TouchEvent;
+}
+
+export interface SwipeEvent {
+  direction: SwipeDirection;
+  distance: number;
+  duration: number;
+  velocity: number;
+  startX: number;
+  startY: number;
+  endX: number;
+  endY: number;
+}
+
+export interface GestureEvent {
+  /** Touch identifier, or -1 for the mouse */
+  id: number;
+  x: number;
+  y: number;
+}
+
+export interface LongPressEvent extends GestureEvent {
+  duration: number;
+}
+
+export interface DragGestureEvent extends GestureEvent {
+  startX: number;
+  startY: number;
+  /** Movement since the previous drag event */
+  deltaX: number;
+  deltaY: number;
+}
+
+export interface PinchEvent {
+  /** Distance between the touches relative to when the pinch started */
+  scale: number;
+  /** Midpoint of the touches */
+  center: Vector2D;
+}
+
+/**
+ * One recorded input; positions are in element pixels
+ * Gamepads are recorded as snapshots: index, id, mapping, button values,
+ * raw axes and a bitmask of pressed buttons
+ */
+export type ReplayInput =
+  | ['keydown' | 'keyup', string]
+  | ['mousedown' | 'mouseup', number, number, number]
+  | ['mousemove', number, number]
+  | ['touchstart' | 'touchmove' | 'touchend' | 'touchcancel', number, number, number]
+  | ['joystick', number, number]
+  | ['gamepad', number, string, string, number[], number[], number]
+  | ['gamepadoff', number];
+
+/**
+ * A recorded session: the random seed and every input with the fixed update it arrived before
+ */
+export interface ReplayData {
+  /** Replay format version */
+  version: number;
+  gameId: string;
+  /** Seed of the shared random generator when recording started */
+  seed: number;
+  /** Fixed updates per second while recording */
+  updateRate: number;
+  /** Number of fixed updates recorded */
+  frames: number;
+  /** Game element size while recording; positions are scaled to the element they play back in */
+  width: number;
+  height: number;
+  /** [frame, input] pairs in the order they happened */
+  inputs: Array<[number, ReplayInput]>;
+}
+
+export interface AssetProgressEvent {
+  /** Asset that just finished (or failed) */
+  id: string;
+  loaded: number;
+  total: number;
+  /** Fraction loaded, 0-1 */
+  progress: number;
+}
+
+/**
+ * Every event emitted by the engine and its systems, with its payload
+ */
+export interface EngineEvents {
+  // Lifecycle
+  gameStart: EmptyEvent;
+  gamePause: EmptyEvent;
+  gameResume: EmptyEvent;
+  gameEnd: { score: number };
+  gameReset: EmptyEvent;
+  update: { deltaTime: number };
+  render: RenderEvent;
+  'render:layer': RenderLayerEvent;
+  postRender: RenderEvent;
+  resize: { width: number; height: number; pixelRatio: number };
+  entityAdded: { entity: Entity; scene?: string };
+  entityRemoved: { entity: Entity; scene?: string };
+
+  // ECS
+  'ecs:entityCreated': { id: number };
+  'ecs:entityDestroyed': { id: number };
+
+  // Assets
+  'assets:progress': AssetProgressEvent;
+  'assets:complete': { total: number; failed: string[] };
+
+  // Physics
+  'physics:enter': TriggerEvent;
+  'physics:exit': TriggerEvent;
+
+  // Scenes
+  'scene:enter': { id: string; data?: any };
+  'scene:exit': { id: string };
+  'scene:pause': { id: string };
+  'scene:resume': { id: string };
+  /** A fade towards a scene change started */
+  'scene:transition': { id: string; duration: number };
+
+  // Input
+  'input:keydown': KeyEvent;
+  'input:keyup': KeyEvent;
+  'input:mousedown': MouseButtonEvent;
+  'input:mouseup': MouseButtonEvent;
+  'input:mousemove': MouseMoveEvent;
+  'input:touchstart': TouchPointEvent;
+  'input:touchmove': TouchPointEvent;
+  'input:touchend': TouchPointEvent;
+  'input:joystick': Vector2D;
+  'input:swipe': SwipeEvent;
+  'input:tap': GestureEvent;
+  'input:doubletap': GestureEvent;
+  'input:longpress': LongPressEvent;
+  'input:dragstart': DragGestureEvent;
+  'input:drag': DragGestureEvent;
+  'input:dragend': DragGestureEvent;
+  'input:pinch': PinchEvent;
+  'input:action': { action: string; pressed: boolean };
+  'input:gamepadconnected': GamepadConnectionEvent;
+  'input:gamepaddisconnected': GamepadConnectionEvent;
+  'input:gamepadbuttondown': GamepadButtonEvent;
+  'input:gamepadbuttonup': GamepadButtonEvent;
+
+  // Replays
+  'replay:recordStarted': { seed: number };
+  'replay:recordStopped': { frames: number };
+  'replay:started': { frames: number };
+  'replay:ended': { frames: number };
+  'replay:seeked': { frame: number };
+
+  // Audio
+  'audio:unlocked': EmptyEvent;
+  'audio:musicStarted': { id: string };
+  'audio:musicStopped': EmptyEvent;
+  'audio:volumeChanged': { volume: number };
+  'audio:mutedChanged': { muted: boolean };
+  'audio:busVolumeChanged': { bus: AudioBus; volume: number };
+  'audio:busMutedChanged': { bus: AudioBus; muted: boolean };
+  'audio:beat': BeatEvent;
+  'audio:bar': { bar: number; time: number };
+
+  // Leaderboard
+  'leaderboard:scoreSubmitted': { entry: LeaderboardEntry };
+  'leaderboard:scoreSubmittedOnline': { entry: LeaderboardEntry };
+  'leaderboard:onlineDataLoaded': { entries: LeaderboardEntry[] };
+  'leaderboard:cleared': { gameId: string };
+
+  // Saves
+  'save:saved': { slot: string; info: SaveSlotInfo };
+  'save:loaded': { slot: string; info: SaveSlotInfo };
+  'save:deleted': { slot: string };
+  'save:rejected': { slot: string; reason: string };
+
+  // Achievements
+  'achievement:progress': { achievementId: string; increment?: number };
+  'achievement:trigger': { type: string; params?: Record<string, any> };
+  'achievement:updated': { achievement: Achievement; progress: { current: number; target: number } };
+  'achievement:unlocked': { achievement: Achievement };
+  'achievement:reset': { gameId: string };
+}
+
+export type EngineEventName = keyof EngineEvents;
+
+/**
+ * Runtime list of engine events, used to warn about listeners for events
+ * that are never emitted (kept exhaustive by the Record type)
+ */
+const ENGINE_EVENT_MAP: Record<EngineEventName, true> = {
+  gameStart: true,
+  gamePause: true,
+  gameResume: true,
+  gameEnd: true,
+  gameReset: true,
+  update: true,
+  render: true,
+  'render:layer': true,
+  postRender: true,
+  resize: true,
+  entityAdded: true,
+  entityRemoved: true,
+  'ecs:entityCreated': true,
+  'ecs:entityDestroyed': true,
+  'assets:progress': true,
+  'assets:complete': true,
+  'physics:enter': true,
+  'physics:exit': true,
+  'scene:enter': true,
+  'scene:exit': true,
+  'scene:pause': true,
+  'scene:resume': true,
+  'scene:transition': true,
+  'input:keydown': true,
+  'input:keyup': true,
+  'input:mousedown': true,
+  'input:mouseup': true,
+  'input:mousemove': true,
+  'input:touchstart': true,
+  'input:touchmove': true,
+  'input:touchend': true,
+  'input:joystick': true,
+  'input:swipe': true,
+  'input:tap': true,
+  'input:doubletap': true,
+  'input:longpress': true,
+  'input:dragstart': true,
+  'input:drag': true,
+  'input:dragend': true,
+  'input:pinch': true,
+  'input:action': true,
+  'input:gamepadconnected': true,
+  'input:gamepaddisconnected': true,
+  'input:gamepadbuttondown': true,
+  'input:gamepadbuttonup': true,
+  'replay:recordStarted': true,
+  'replay:recordStopped': true,
+  'replay:started': true,
+  'replay:ended': true,
+  'replay:seeked': true,
+  'audio:unlocked': true,
+  'audio:musicStarted': true,
+  'audio:musicStopped': true,
+  'audio:volumeChanged': true,
+  'audio:mutedChanged': true,
+  'audio:busVolumeChanged': true,
+  'audio:busMutedChanged': true,
+  'audio:beat': true,
+  'audio:bar': true,
+  'leaderboard:scoreSubmitted': true,
+  'leaderboard:scoreSubmittedOnline': true,
+  'leaderboard:onlineDataLoaded': true,
+  'leaderboard:cleared': true,
+  'save:saved': true,
+  'save:loaded': true,
+  'save:deleted': true,
+  'save:rejected': true,
+  'achievement:progress': true,
+  'achievement:trigger': true,
+  'achievement:updated': true,
+  'achievement:unlocked': true,
+  'achievement:reset': true
+};
+
+export const ENGINE_EVENT_NAMES = Object.keys(ENGINE_EVENT_MAP) as EngineEventName[];
+
 export enum OrientationMode {
   LANDSCAPE = 'landscape',
   PORTRAIT = 'portrait',
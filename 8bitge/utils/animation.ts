@@ -6,6 +6,7 @@
 
 import { Vector2D } from '../types';
 import { lerp, lerpVectors, easeInOut, easeIn, easeOut } from './math';
+import { AssetManager } from '../systems/assets';
 
 /**
  * Animation frame definition
@@ -23,6 +24,8 @@ export interface AnimationFrame {
   duration?: number;
   /** Anchor point for this frame (pivot point, defaults to center) */
   anchor?: { x: number; y: number };
+  /** Frame is stored rotated 90° clockwise in the spritesheet (x/y/width/height describe the unrotated frame) */
+  rotated?: boolean;
   /** Optional metadata for this frame (e.g., collision data) */
   meta?: Record<string, any>;
 }
@@ -99,6 +102,31 @@ export interface Tween<T> {
   onUpdate?: (value: T) => void;
 }
 
+/**
+ * Draw a spritesheet frame into a destination rect, undoing atlas rotation
+ */
+export function drawFrame(
+  ctx: CanvasRenderingContext2D,
+  image: CanvasImageSource,
+  frame: AnimationFrame,
+  dx: number,
+  dy: number,
+  dw: number,
+  dh: number
+): void {
+  if (!frame.rotated) {
+    ctx.drawImage(image, frame.x, frame.y, frame.width, frame.height, dx, dy, dw, dh);
+    return;
+  }
+  
+  // The sheet holds the frame turned clockwise, so turn it back counter-clockwise
+  ctx.save();
+  ctx.translate(dx, dy);
+  ctx.rotate(-Math.PI / 2);
+  ctx.drawImage(image, frame.x, frame.y, frame.height, frame.width, -dh, 0, dh, dw);
+  ctx.restore();
+}
+
 export class Animator {
   /** The current animation playing */
   private currentAnimation: Animation | null = null;
@@ -112,8 +140,8 @@ export class Animator {
   private playing: boolean = false;
   /** Map of available animations by ID */
   private animations: Map<string, Animation> = new Map();
-  /** Image cache */
-  private images: Map<string, HTMLImageElement> = new Map();
+  /** Spritesheets loaded from paths, held in the shared asset cache */
+  private assets: AssetManager = new AssetManager();
   /** Event handler function */
   private eventHandler: ((name: string, data?: any) => void) | null = null;
   
@@ -121,14 +149,15 @@ export class Animator {
    * Register an animation
    */
   registerAnimation(animation: Animation): void {
+    // Release the sheet of an animation this one replaces
+    if (this.animations.has(animation.id)) {
+      this.assets.unload(animation.id);
+    }
     this.animations.set(animation.id, animation);
     
-    // Load and cache image if it's a string path
+    // Load the image if it's a string path; elements are drawn directly
     if (typeof animation.image === 'string') {
       this.loadImage(animation.id, animation.image);
-    } else {
-      // Store the HTMLImageElement directly
-      this.images.set(animation.id, animation.image);
     }
   }
   
@@ -139,21 +168,6 @@ export class Animator {
     animations.forEach(anim => this.registerAnimation(anim));
   }
   
-  /**
-   * Load and cache an image
-   */
-  private loadImage(id: string, path: string): Promise<HTMLImageElement> {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.onload = () => {
-        this.images.set(id, img);
-        resolve(img);
-      };
-      img.onerror = () => reject(new Error(`Failed to load image: ${path}`));
-      img.src = path;
-    });
-  }
-  
   /**
    * Play an animation
    */
@@ -326,7 +340,7 @@ export class Animator {
     
     // Get image
     const image = typeof this.currentAnimation.image === 'string' 
-      ? this.images.get(this.currentAnimation.id)
+      ? this.assets.getImage(this.currentAnimation.id)
       : this.currentAnimation.image;
       
     if (!image) {
@@ -357,11 +371,7 @@ export class Animator {
     ctx.scale(flipX ? -scale : scale, flipY ? -scale : scale);
     
     // Draw frame
-    ctx.drawImage(
-      image,
-      frame.x, frame.y, frame.width, frame.height,
-      -anchorX, -anchorY, frame.width, frame.height
-    );
+    drawFrame(ctx, image, frame, -anchorX, -anchorY, frame.width, frame.height);
     
     // Restore context
     ctx.restore();
@@ -412,6 +422,23 @@ export class Animator {
     // Calculate overall progress
     return (this.currentFrameIndex + frameProgress) / frames.length;
   }
+  
+  /**
+   * Stop playback and release loaded spritesheets
+   */
+  destroy(): void {
+    this.stop();
+    this.animations.clear();
+    this.currentAnimation = null;
+    this.assets.unloadAll();
+  }
+  
+  /**
+   * Load an image through the shared asset cache
+   */
+  private loadImage(id: string, path: string): Promise<void> {
+    return this.assets.load([{ id, type: 'image', url: path }]);
+  }
 }
 
 /**
@@ -0,0 +1,360 @@
+/**
+ * Asset loading utilities for 8BitGE
+ * Loads images and texture atlases, parsing TexturePacker (hash and array)
+ * and Aseprite JSON exports into named frames and ready-made animations
+ */
+
+import { Animation, AnimationFrame } from './animation';
+
+/**
+ * Frame rect as written by TexturePacker and Aseprite
+ */
+interface AtlasRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/**
+ * Frame entry shared by the TexturePacker and Aseprite JSON formats
+ */
+interface AtlasFrameData {
+  filename?: string;
+  frame: AtlasRect;
+  rotated?: boolean;
+  trimmed?: boolean;
+  spriteSourceSize?: AtlasRect;
+  sourceSize?: { w: number; h: number };
+  /** TexturePacker pivot, normalized to the untrimmed frame */
+  pivot?: { x: number; y: number };
+  /** Aseprite frame duration in milliseconds */
+  duration?: number;
+}
+
+interface AsepriteFrameTag {
+  name: string;
+  from: number;
+  to: number;
+  direction?: 'forward' | 'reverse' | 'pingpong' | 'pingpong_reverse';
+  repeat?: string | number;
+}
+
+interface AsepriteSlice {
+  name: string;
+  keys: Array<{
+    frame: number;
+    bounds: AtlasRect;
+    pivot?: { x: number; y: number };
+  }>;
+}
+
+export interface AtlasParseOptions {
+  /** Image to attach to the generated animations (defaults to meta.image) */
+  image?: HTMLImageElement | string;
+  /** Prefix for generated animation ids, to keep several atlases apart */
+  animationPrefix?: string;
+  /** Frame duration in milliseconds when the data has none */
+  defaultDuration?: number;
+  /** Aseprite slice whose pivot becomes the frame anchor (defaults to the first slice with a pivot) */
+  pivotSlice?: string;
+}
+
+/**
+ * Named frames and animations parsed from an atlas
+ */
+export class TextureAtlas {
+  readonly image: HTMLImageElement | string;
+  private frames: Map<string, AnimationFrame> = new Map();
+  private frameNames: string[] = [];
+  private animations: Map<string, Animation> = new Map();
+
+  constructor(image: HTMLImageElement | string) {
+    this.image = image;
+  }
+
+  /**
+   * Add a named frame
+   */
+  addFrame(name: string, frame: AnimationFrame): void {
+    if (!this.frames.has(name)) {
+      this.frameNames.push(name);
+    }
+    this.frames.set(name, frame);
+  }
+
+  /**
+   * Get a frame by name
+   */
+  getFrame(name: string): AnimationFrame | undefined {
+    return this.frames.get(name);
+  }
+
+  /**
+   * Get frame names in atlas order
+   */
+  getFrameNames(): string[] {
+    return [...this.frameNames];
+  }
+
+  /**
+   * Get frames in atlas order
+   */
+  getFrames(): AnimationFrame[] {
+    return this.frameNames.map(name => this.frames.get(name)!);
+  }
+
+  /**
+   * Add an animation
+   */
+  addAnimation(animation: Animation): void {
+    this.animations.set(animation.id, animation);
+  }
+
+  /**
+   * Get an animation by id
+   */
+  getAnimation(id: string): Animation | undefined {
+    return this.animations.get(id);
+  }
+
+  /**
+   * Get all animations, ready for Animator.registerAnimations
+   */
+  getAnimations(): Animation[] {
+    return Array.from(this.animations.values());
+  }
+
+  /**
+   * Build an animation from frame names
+   */
+  createAnimation(id: string, frameNames: string[], options: Partial<Omit<Animation, 'id' | 'frames'>> = {}): Animation {
+    const frames = frameNames.map(name => {
+      const frame = this.frames.get(name);
+      if (!frame) {
+        throw new Error(`[8BitGE] Frame not found in atlas: ${name}`);
+      }
+      return frame;
+    });
+
+    const animation: Animation = {
+      loop: true,
+      ...options,
+      id,
+      frames,
+      image: options.image || this.image
+    };
+
+    this.addAnimation(animation);
+    return animation;
+  }
+}
+
+export class AssetLoader {
+  private images: Map<string, Promise<HTMLImageElement>> = new Map();
+
+  /**
+   * Load an image, sharing the request between callers
+   */
+  loadImage(url: string): Promise<HTMLImageElement> {
+    let promise = this.images.get(url);
+
+    if (!promise) {
+      promise = new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error(`Failed to load image: ${url}`));
+        img.src = url;
+      });
+      // Allow a failed image to be retried
+      promise.catch(() => this.images.delete(url));
+      this.images.set(url, promise);
+    }
+
+    return promise;
+  }
+
+  /**
+   * Load an atlas JSON file and its image
+   * @param imageUrl Image to use instead of the one named in the JSON
+   */
+  async loadAtlas(jsonUrl: string, imageUrl?: string, options: AtlasParseOptions = {}): Promise<TextureAtlas> {
+    const response = await fetch(jsonUrl);
+    if (!response.ok) {
+      throw new Error(`Failed to load atlas: ${jsonUrl} (${response.status})`);
+    }
+    const data = await response.json();
+
+    const source = imageUrl || data.meta?.image;
+    if (!source) {
+      throw new Error(`[8BitGE] Atlas ${jsonUrl} does not name an image`);
+    }
+
+    // Images named in the JSON are relative to the JSON file
+    const resolved = imageUrl ? imageUrl : AssetLoader.resolveUrl(jsonUrl, source);
+    const image = await this.loadImage(resolved);
+
+    return AssetLoader.parseAtlas(data, { ...options, image });
+  }
+
+  /**
+   * Clear the image cache
+   */
+  clear(): void {
+    this.images.clear();
+  }
+
+  /**
+   * Parse TexturePacker (hash or array) or Aseprite JSON into a TextureAtlas
+   * Trimmed frames and pivots are mapped onto AnimationFrame.anchor, so a
+   * frame drawn at its anchor lines up with the untrimmed sprite
+   */
+  static parseAtlas(data: any, options: AtlasParseOptions = {}): TextureAtlas {
+    if (!data || !data.frames) {
+      throw new Error('[8BitGE] Atlas data has no frames');
+    }
+
+    const atlas = new TextureAtlas(options.image || data.meta?.image || '');
+    const entries: Array<[string, AtlasFrameData]> = Array.isArray(data.frames)
+      ? data.frames.map((frame: AtlasFrameData, index: number) => [frame.filename ?? String(index), frame])
+      : Object.entries(data.frames);
+
+    const pivots = AssetLoader.readSlicePivots(data.meta?.slices, options.pivotSlice);
+
+    entries.forEach(([name, frame], index) => {
+      atlas.addFrame(name, AssetLoader.toAnimationFrame(frame, options.defaultDuration, pivots(index)));
+    });
+
+    const prefix = options.animationPrefix || '';
+    const names = atlas.getFrameNames();
+
+    if (Array.isArray(data.meta?.frameTags) && data.meta.frameTags.length > 0) {
+      // Aseprite tags
+      for (const tag of data.meta.frameTags as AsepriteFrameTag[]) {
+        let frameNames = names.slice(tag.from, tag.to + 1);
+        if (tag.direction === 'reverse' || tag.direction === 'pingpong_reverse') {
+          frameNames = frameNames.reverse();
+        }
+
+        const repeat = tag.repeat !== undefined ? Number(tag.repeat) : 0;
+        atlas.createAnimation(prefix + tag.name, frameNames, {
+          tag: tag.name,
+          loop: repeat === 0,
+          pingPong: tag.direction === 'pingpong' || tag.direction === 'pingpong_reverse'
+        });
+      }
+    } else if (data.animations && typeof data.animations === 'object') {
+      // TexturePacker animation lists (Phaser / PixiJS exports)
+      for (const [id, frameNames] of Object.entries<string[]>(data.animations)) {
+        atlas.createAnimation(prefix + id, frameNames, { tag: id });
+      }
+    } else {
+      // Group numbered frames: run_01.png, run_02.png -> run
+      const groups = new Map<string, Array<{ name: string; index: number }>>();
+      for (const name of names) {
+        const match = name.replace(/\.[a-z0-9]+$/i, '').match(/^(.*?)[-_ ]?(\d+)$/);
+        if (!match || !match[1]) continue;
+
+        if (!groups.has(match[1])) groups.set(match[1], []);
+        groups.get(match[1])!.push({ name, index: parseInt(match[2], 10) });
+      }
+
+      groups.forEach((frames, id) => {
+        frames.sort((a, b) => a.index - b.index);
+        atlas.createAnimation(prefix + id, frames.map(frame => frame.name), { tag: id });
+      });
+    }
+
+    return atlas;
+  }
+
+  /**
+   * Convert a frame entry to an AnimationFrame
+   */
+  private static toAnimationFrame(
+    data: AtlasFrameData,
+    defaultDuration?: number,
+    slicePivot?: { x: number; y: number } | null
+  ): AnimationFrame {
+    // For rotated frames w/h are still the unrotated size; drawFrame swaps them for the sheet rect
+    const width = data.frame.w;
+    const height = data.frame.h;
+
+    const source = data.spriteSourceSize || { x: 0, y: 0, w: width, h: height };
+    const sourceSize = data.sourceSize || { w: width, h: height };
+
+    // Pivot in untrimmed pixel coordinates (slice pivots are already in pixels)
+    const pivot = slicePivot || {
+      x: (data.pivot?.x ?? 0.5) * sourceSize.w,
+      y: (data.pivot?.y ?? 0.5) * sourceSize.h
+    };
+
+    const frame: AnimationFrame = {
+      x: data.frame.x,
+      y: data.frame.y,
+      width,
+      height,
+      anchor: {
+        x: width > 0 ? (pivot.x - source.x) / width : 0.5,
+        y: height > 0 ? (pivot.y - source.y) / height : 0.5
+      },
+      meta: {
+        trimmed: !!data.trimmed,
+        spriteSourceSize: { x: source.x, y: source.y, width: source.w, height: source.h },
+        sourceSize: { width: sourceSize.w, height: sourceSize.h }
+      }
+    };
+
+    if (data.rotated) {
+      frame.rotated = true;
+    }
+
+    const duration = data.duration ?? defaultDuration;
+    if (duration !== undefined) {
+      frame.duration = duration;
+    }
+
+    return frame;
+  }
+
+  /**
+   * Build a lookup of Aseprite slice pivots by frame index
+   * Slice keys apply from their frame until the next key
+   */
+  private static readSlicePivots(
+    slices: AsepriteSlice[] | undefined,
+    sliceName?: string
+  ): (frame: number) => { x: number; y: number } | null {
+    const slice = (slices || []).find(s =>
+      sliceName ? s.name === sliceName : s.keys.some(key => key.pivot)
+    );
+    if (!slice) return () => null;
+
+    const keys = [...slice.keys].sort((a, b) => a.frame - b.frame);
+
+    return (frame: number) => {
+      let active = null;
+      for (const key of keys) {
+        if (key.frame > frame) break;
+        active = key;
+      }
+      if (!active || !active.pivot) return null;
+
+      return {
+        x: active.bounds.x + active.pivot.x,
+        y: active.bounds.y + active.pivot.y
+      };
+    };
+  }
+
+  /**
+   * Resolve a path relative to another file's URL
+   */
+  private static resolveUrl(base: string, path: string): string {
+    if (/^([a-z]+:)?\/\//i.test(path) || path.startsWith('/') || path.startsWith('data:')) {
+      return path;
+    }
+    const slash = base.lastIndexOf('/');
+    return slash === -1 ? path : base.substring(0, slash + 1) + path;
+  }
+}
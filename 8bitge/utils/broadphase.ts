@@ -0,0 +1,485 @@
+/**
+ * Broadphase spatial indexes for 8BitGE
+ * A uniform grid and a quadtree behind one interface, used to find candidate
+ * collision pairs and answer area, point and ray queries without testing
+ * every pair of entities
+ */
+
+import { BroadphaseOptions, Rect, Vector2D } from '../types';
+import { RayHit, rayVsAabb, rectsOverlap } from './collision';
+
+/**
+ * Ray hit against an indexed item
+ */
+export interface BroadphaseRayHit<T> extends RayHit {
+  item: T;
+}
+
+export interface Broadphase<T> {
+  /** Remove every item */
+  clear(): void;
+  /** Add an item with its world-space bounds */
+  insert(item: T, bounds: Rect): void;
+  /** Number of indexed items */
+  size(): number;
+  /** Items whose bounds overlap a rect */
+  queryRect(rect: Rect): T[];
+  /** Items whose bounds contain a point */
+  queryPoint(point: Vector2D): T[];
+  /** Items hit by a ray, nearest first */
+  raycast(origin: Vector2D, direction: Vector2D, maxDistance?: number): BroadphaseRayHit<T>[];
+  /** Pairs of items whose bounds overlap, each pair once */
+  getPairs(): Array<[T, T]>;
+}
+
+interface IndexedItem<T> {
+  item: T;
+  bounds: Rect;
+  index: number;
+}
+
+/**
+ * Check if a rect contains a point (inclusive of the top/left edges)
+ */
+function containsPoint(rect: Rect, point: Vector2D): boolean {
+  return point.x >= rect.x && point.x < rect.x + rect.width &&
+    point.y >= rect.y && point.y < rect.y + rect.height;
+}
+
+/**
+ * Normalize a ray direction, or return null for a zero vector
+ */
+function normalizeDirection(direction: Vector2D): Vector2D | null {
+  const length = Math.sqrt(direction.x * direction.x + direction.y * direction.y);
+  return length > 0 ? { x: direction.x / length, y: direction.y / length } : null;
+}
+
+/**
+ * Uniform grid: items are bucketed into every fixed-size cell they touch
+ * Best when entities are of similar size and spread across the play area
+ */
+export class UniformGrid<T> implements Broadphase<T> {
+  private cellSize: number;
+  private cells: Map<string, IndexedItem<T>[]> = new Map();
+  private items: IndexedItem<T>[] = [];
+  private minCell: Vector2D = { x: Infinity, y: Infinity };
+  private maxCell: Vector2D = { x: -Infinity, y: -Infinity };
+
+  constructor(cellSize: number = 64) {
+    this.cellSize = cellSize;
+  }
+
+  /**
+   * Remove every item
+   */
+  clear(): void {
+    this.cells.clear();
+    this.items = [];
+    this.minCell = { x: Infinity, y: Infinity };
+    this.maxCell = { x: -Infinity, y: -Infinity };
+  }
+
+  /**
+   * Add an item to every cell its bounds touch
+   */
+  insert(item: T, bounds: Rect): void {
+    const entry: IndexedItem<T> = { item, bounds, index: this.items.length };
+    this.items.push(entry);
+
+    const minX = this.toCell(bounds.x);
+    const minY = this.toCell(bounds.y);
+    const maxX = this.toCell(bounds.x + bounds.width);
+    const maxY = this.toCell(bounds.y + bounds.height);
+
+    for (let cy = minY; cy <= maxY; cy++) {
+      for (let cx = minX; cx <= maxX; cx++) {
+        const key = `${cx},${cy}`;
+        let cell = this.cells.get(key);
+        if (!cell) {
+          cell = [];
+          this.cells.set(key, cell);
+        }
+        cell.push(entry);
+      }
+    }
+
+    this.minCell.x = Math.min(this.minCell.x, minX);
+    this.minCell.y = Math.min(this.minCell.y, minY);
+    this.maxCell.x = Math.max(this.maxCell.x, maxX);
+    this.maxCell.y = Math.max(this.maxCell.y, maxY);
+  }
+
+  /**
+   * Number of indexed items
+   */
+  size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Items whose bounds overlap a rect
+   */
+  queryRect(rect: Rect): T[] {
+    const seen = new Set<number>();
+    const result: T[] = [];
+
+    for (let cy = this.toCell(rect.y); cy <= this.toCell(rect.y + rect.height); cy++) {
+      for (let cx = this.toCell(rect.x); cx <= this.toCell(rect.x + rect.width); cx++) {
+        const cell = this.cells.get(`${cx},${cy}`);
+        if (!cell) continue;
+
+        for (const entry of cell) {
+          if (seen.has(entry.index)) continue;
+          seen.add(entry.index);
+          if (rectsOverlap(entry.bounds, rect)) {
+            result.push(entry.item);
+          }
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Items whose bounds contain a point
+   */
+  queryPoint(point: Vector2D): T[] {
+    const cell = this.cells.get(`${this.toCell(point.x)},${this.toCell(point.y)}`);
+    if (!cell) return [];
+
+    return cell.filter(entry => containsPoint(entry.bounds, point)).map(entry => entry.item);
+  }
+
+  /**
+   * Items hit by a ray, nearest first
+   * Walks the cells along the ray (DDA) within the occupied area of the grid
+   */
+  raycast(origin: Vector2D, direction: Vector2D, maxDistance: number = Infinity): BroadphaseRayHit<T>[] {
+    const dir = normalizeDirection(direction);
+    if (!dir || this.items.length === 0) return [];
+
+    // Clip the ray to the occupied area so infinite rays terminate
+    const area: Rect = {
+      x: this.minCell.x * this.cellSize,
+      y: this.minCell.y * this.cellSize,
+      width: (this.maxCell.x - this.minCell.x + 1) * this.cellSize,
+      height: (this.maxCell.y - this.minCell.y + 1) * this.cellSize
+    };
+    const entry = rayVsAabb(origin, dir, area, maxDistance);
+    if (!entry) return [];
+
+    // Entering exactly on the far edge can land one cell outside, so clamp
+    let cx = Math.min(Math.max(this.toCell(origin.x + dir.x * entry.time), this.minCell.x), this.maxCell.x);
+    let cy = Math.min(Math.max(this.toCell(origin.y + dir.y * entry.time), this.minCell.y), this.maxCell.y);
+    const stepX = dir.x > 0 ? 1 : -1;
+    const stepY = dir.y > 0 ? 1 : -1;
+
+    // Distance along the ray to the next cell boundary on each axis
+    const nextBoundaryX = (cx + (stepX > 0 ? 1 : 0)) * this.cellSize;
+    const nextBoundaryY = (cy + (stepY > 0 ? 1 : 0)) * this.cellSize;
+    let tMaxX = dir.x !== 0 ? (nextBoundaryX - origin.x) / dir.x : Infinity;
+    let tMaxY = dir.y !== 0 ? (nextBoundaryY - origin.y) / dir.y : Infinity;
+    const tDeltaX = dir.x !== 0 ? this.cellSize / Math.abs(dir.x) : Infinity;
+    const tDeltaY = dir.y !== 0 ? this.cellSize / Math.abs(dir.y) : Infinity;
+
+    const tested = new Set<number>();
+    const hits: BroadphaseRayHit<T>[] = [];
+
+    while (
+      cx >= this.minCell.x && cx <= this.maxCell.x &&
+      cy >= this.minCell.y && cy <= this.maxCell.y
+    ) {
+      const cell = this.cells.get(`${cx},${cy}`);
+      if (cell) {
+        for (const item of cell) {
+          if (tested.has(item.index)) continue;
+          tested.add(item.index);
+
+          const hit = rayVsAabb(origin, dir, item.bounds, maxDistance);
+          if (hit) {
+            hits.push({ ...hit, item: item.item });
+          }
+        }
+      }
+
+      const tNext = Math.min(tMaxX, tMaxY);
+      if (tNext > maxDistance) break;
+
+      if (tMaxX < tMaxY) {
+        cx += stepX;
+        tMaxX += tDeltaX;
+      } else {
+        cy += stepY;
+        tMaxY += tDeltaY;
+      }
+    }
+
+    return hits.sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Pairs of items whose bounds overlap, each pair once
+   */
+  getPairs(): Array<[T, T]> {
+    const seen = new Set<number>();
+    const count = this.items.length;
+    const pairs: Array<[T, T]> = [];
+
+    this.cells.forEach(cell => {
+      for (let i = 0; i < cell.length; i++) {
+        for (let j = i + 1; j < cell.length; j++) {
+          const a = cell[i];
+          const b = cell[j];
+          const key = Math.min(a.index, b.index) * count + Math.max(a.index, b.index);
+          if (seen.has(key)) continue;
+          seen.add(key);
+
+          if (rectsOverlap(a.bounds, b.bounds)) {
+            pairs.push([a.item, b.item]);
+          }
+        }
+      }
+    });
+
+    return pairs;
+  }
+
+  /**
+   * Convert a world coordinate to a cell coordinate
+   */
+  private toCell(value: number): number {
+    return Math.floor(value / this.cellSize);
+  }
+}
+
+interface QuadtreeNode<T> {
+  bounds: Rect;
+  depth: number;
+  items: IndexedItem<T>[];
+  children: QuadtreeNode<T>[] | null;
+}
+
+/**
+ * Quadtree: recursively splits crowded areas into quadrants
+ * Best when entities cluster or vary a lot in size. Items that straddle
+ * quadrants (or lie outside the root bounds) stay in the parent node.
+ */
+export class Quadtree<T> implements Broadphase<T> {
+  private bounds: Rect;
+  private maxItems: number;
+  private maxDepth: number;
+  private root: QuadtreeNode<T>;
+  private count: number = 0;
+
+  constructor(bounds: Rect, maxItems: number = 8, maxDepth: number = 6) {
+    this.bounds = { ...bounds };
+    this.maxItems = maxItems;
+    this.maxDepth = maxDepth;
+    this.root = this.createNode(this.bounds, 0);
+  }
+
+  /**
+   * Remove every item
+   */
+  clear(): void {
+    this.root = this.createNode(this.bounds, 0);
+    this.count = 0;
+  }
+
+  /**
+   * Add an item to the deepest node that fully contains it
+   */
+  insert(item: T, bounds: Rect): void {
+    this.insertEntry(this.root, { item, bounds, index: this.count++ });
+  }
+
+  /**
+   * Number of indexed items
+   */
+  size(): number {
+    return this.count;
+  }
+
+  /**
+   * Items whose bounds overlap a rect
+   */
+  queryRect(rect: Rect): T[] {
+    const result: T[] = [];
+    this.visit(
+      node => rectsOverlap(node.bounds, rect),
+      entry => {
+        if (rectsOverlap(entry.bounds, rect)) result.push(entry.item);
+      }
+    );
+    return result;
+  }
+
+  /**
+   * Items whose bounds contain a point
+   */
+  queryPoint(point: Vector2D): T[] {
+    const result: T[] = [];
+    this.visit(
+      node => containsPoint(node.bounds, point),
+      entry => {
+        if (containsPoint(entry.bounds, point)) result.push(entry.item);
+      }
+    );
+    return result;
+  }
+
+  /**
+   * Items hit by a ray, nearest first
+   */
+  raycast(origin: Vector2D, direction: Vector2D, maxDistance: number = Infinity): BroadphaseRayHit<T>[] {
+    const dir = normalizeDirection(direction);
+    if (!dir) return [];
+
+    const hits: BroadphaseRayHit<T>[] = [];
+    this.visit(
+      node => rayVsAabb(origin, dir, node.bounds, maxDistance) !== null,
+      entry => {
+        const hit = rayVsAabb(origin, dir, entry.bounds, maxDistance);
+        if (hit) hits.push({ ...hit, item: entry.item });
+      }
+    );
+
+    return hits.sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Pairs of items whose bounds overlap, each pair once
+   * Each item is tested against items in its own node and the nodes below it
+   */
+  getPairs(): Array<[T, T]> {
+    const pairs: Array<[T, T]> = [];
+
+    const walk = (node: QuadtreeNode<T>, ancestors: IndexedItem<T>[]) => {
+      for (let i = 0; i < node.items.length; i++) {
+        const a = node.items[i];
+
+        for (let j = i + 1; j < node.items.length; j++) {
+          if (rectsOverlap(a.bounds, node.items[j].bounds)) {
+            pairs.push([a.item, node.items[j].item]);
+          }
+        }
+
+        for (const b of ancestors) {
+          if (rectsOverlap(a.bounds, b.bounds)) {
+            pairs.push([b.item, a.item]);
+          }
+        }
+      }
+
+      if (node.children) {
+        const inherited = ancestors.concat(node.items);
+        for (const child of node.children) {
+          walk(child, inherited);
+        }
+      }
+    };
+
+    walk(this.root, []);
+    return pairs;
+  }
+
+  /**
+   * Create an empty node
+   */
+  private createNode(bounds: Rect, depth: number): QuadtreeNode<T> {
+    return { bounds, depth, items: [], children: null };
+  }
+
+  /**
+   * Insert an entry, splitting the node when it gets crowded
+   */
+  private insertEntry(node: QuadtreeNode<T>, entry: IndexedItem<T>): void {
+    if (node.children) {
+      const child = this.findChild(node, entry.bounds);
+      if (child) {
+        this.insertEntry(child, entry);
+        return;
+      }
+    }
+
+    node.items.push(entry);
+
+    if (!node.children && node.items.length > this.maxItems && node.depth < this.maxDepth) {
+      this.split(node);
+    }
+  }
+
+  /**
+   * Split a node into quadrants and push down the items that fit
+   */
+  private split(node: QuadtreeNode<T>): void {
+    const { x, y } = node.bounds;
+    const halfWidth = node.bounds.width / 2;
+    const halfHeight = node.bounds.height / 2;
+    const depth = node.depth + 1;
+
+    node.children = [
+      this.createNode({ x, y, width: halfWidth, height: halfHeight }, depth),
+      this.createNode({ x: x + halfWidth, y, width: halfWidth, height: halfHeight }, depth),
+      this.createNode({ x, y: y + halfHeight, width: halfWidth, height: halfHeight }, depth),
+      this.createNode({ x: x + halfWidth, y: y + halfHeight, width: halfWidth, height: halfHeight }, depth)
+    ];
+
+    const items = node.items;
+    node.items = [];
+    for (const entry of items) {
+      this.insertEntry(node, entry);
+    }
+  }
+
+  /**
+   * Find the child quadrant that fully contains a rect
+   */
+  private findChild(node: QuadtreeNode<T>, rect: Rect): QuadtreeNode<T> | null {
+    for (const child of node.children!) {
+      const b = child.bounds;
+      if (
+        rect.x >= b.x && rect.y >= b.y &&
+        rect.x + rect.width <= b.x + b.width &&
+        rect.y + rect.height <= b.y + b.height
+      ) {
+        return child;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Visit the entries of every node that passes a test
+   * The root is always visited since it also holds out-of-bounds items
+   */
+  private visit(
+    testNode: (node: QuadtreeNode<T>) => boolean,
+    visitEntry: (entry: IndexedItem<T>) => void
+  ): void {
+    const stack: QuadtreeNode<T>[] = [this.root];
+
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      node.items.forEach(visitEntry);
+
+      if (node.children) {
+        for (const child of node.children) {
+          if (testNode(child)) stack.push(child);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Create a broadphase from options
+ * @param bounds World area covered by a quadtree (ignored by the grid)
+ */
+export function createBroadphase<T>(options: BroadphaseOptions, bounds: Rect): Broadphase<T> {
+  if (options.type === 'quadtree') {
+    return new Quadtree<T>(bounds, options.maxItems, options.maxDepth);
+  }
+  return new UniformGrid<T>(options.cellSize);
+}
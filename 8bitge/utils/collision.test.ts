@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'bun:test';
+import { rayVsAabb, rayVsCircle, segmentVsAabb, sweptAabb } from './collision';
+
+describe('sweptAabb', () => {
+  // A box resting against the left face of a tall wall
+  const box = { x: 0, y: 0, width: 10, height: 10 };
+  const wall = { x: 10, y: -50, width: 10, height: 100 };
+
+  test('moving into a touching wall hits at time 0', () => {
+    const hit = sweptAabb(box, { x: 5, y: 0 }, wall);
+    expect(hit?.time).toBe(0);
+    expect(hit?.normal).toEqual({ x: -1, y: 0 });
+    expect(hit?.position).toEqual({ x: 0, y: 0 });
+
+    // Pushing diagonally into it still hits the face being touched
+    expect(sweptAabb(box, { x: 5, y: 5 }, wall)?.normal).toEqual({ x: -1, y: 0 });
+  });
+
+  test('moving away from a touching wall does not hit', () => {
+    expect(sweptAabb(box, { x: -5, y: 0 }, wall)).toBeNull();
+    expect(sweptAabb(box, { x: -5, y: 5 }, wall)).toBeNull();
+  });
+
+  test('sliding along a touching wall does not hit', () => {
+    expect(sweptAabb(box, { x: 0, y: -5 }, wall)).toBeNull();
+    expect(sweptAabb(box, { x: 0, y: 5 }, wall)).toBeNull();
+  });
+
+  test('stopping while touching does not hit', () => {
+    expect(sweptAabb(box, { x: 0, y: 0 }, wall)).toBeNull();
+  });
+
+  test('reaches a wall partway through the move', () => {
+    const hit = sweptAabb({ x: -10, y: 0, width: 10, height: 10 }, { x: 20, y: 0 }, wall);
+    expect(hit?.time).toBe(0.5);
+    expect(hit?.normal).toEqual({ x: -1, y: 0 });
+    expect(hit?.position).toEqual({ x: 0, y: 0 });
+  });
+});
+
+describe('rayVsAabb', () => {
+  const rect = { x: 0, y: 0, width: 10, height: 10 };
+
+  test('rays starting strictly inside hit at time 0 with a unit normal', () => {
+    const hit = rayVsAabb({ x: 5, y: 5 }, { x: 3, y: 4 }, rect);
+    expect(hit?.time).toBe(0);
+    expect(hit?.point).toEqual({ x: 5, y: 5 });
+    expect(hit?.normal.x).toBeCloseTo(-0.6);
+    expect(hit?.normal.y).toBeCloseTo(-0.8);
+  });
+
+  test('rays grazing an edge from outside hit where they reach the box', () => {
+    const hit = segmentVsAabb({ x: -5, y: 0 }, { x: 5, y: 0 }, rect);
+    expect(hit?.time).toBe(0.5);
+    expect(hit?.normal).toEqual({ x: -1, y: 0 });
+  });
+
+  test('rays starting on an edge hit only when heading inwards', () => {
+    expect(rayVsAabb({ x: 0, y: 5 }, { x: 1, y: 0 }, rect)?.time).toBe(0);
+    expect(rayVsAabb({ x: 0, y: 5 }, { x: -1, y: 0 }, rect)).toBeNull();
+    expect(rayVsAabb({ x: 0, y: 5 }, { x: 0, y: 1 }, rect)).toBeNull();
+  });
+});
+
+describe('rayVsCircle', () => {
+  const circle = { x: 0, y: 0, radius: 5 };
+
+  test('rays starting inside hit at time 0 with a unit normal', () => {
+    const hit = rayVsCircle({ x: 1, y: 0 }, { x: 0, y: 2 }, circle);
+    expect(hit?.time).toBe(0);
+    expect(hit?.normal.x).toBeCloseTo(0);
+    expect(hit?.normal.y).toBeCloseTo(-1);
+  });
+
+  test('rays starting on the edge hit only when heading inwards', () => {
+    const hit = rayVsCircle({ x: 5, y: 0 }, { x: -1, y: 0 }, circle);
+    expect(hit?.time).toBe(0);
+    expect(hit?.normal).toEqual({ x: 1, y: 0 });
+
+    expect(rayVsCircle({ x: 5, y: 0 }, { x: 1, y: 0 }, circle)).toBeNull();
+    expect(rayVsCircle({ x: 5, y: 0 }, { x: 0, y: 1 }, circle)).toBeNull();
+  });
+});
@@ -1 +1,448 @@
- 
\ No newline at end of file
+/**
+ * Collision utilities for 8BitGE
+ * Narrow-phase overlap tests that return contact manifolds so games can
+ * resolve hits instead of only detecting them
+ */
+
+import { Rect, Vector2D } from '../types';
+import { clamp, dot, normalize } from './math';
+
+/**
+ * Circle shape used by the circle tests
+ */
+export interface Circle {
+  /** Center of the circle */
+  x: number;
+  /** Center of the circle */
+  y: number;
+  /** Radius of the circle */
+  radius: number;
+}
+
+/**
+ * Contact information for a detected collision
+ */
+export interface CollisionManifold {
+  /** Unit normal pointing from the first shape towards the second */
+  normal: Vector2D;
+  /** How far the shapes overlap along the normal */
+  penetration: number;
+  /** Point of contact in world space */
+  contact: Vector2D;
+}
+
+/**
+ * Result of a swept (continuous) collision test
+ */
+export interface SweepResult {
+  /** Time of impact as a fraction of the movement (0-1) */
+  time: number;
+  /** Surface normal at the point of impact */
+  normal: Vector2D;
+  /** Position of the moving rect at the time of impact */
+  position: Vector2D;
+}
+
+/**
+ * Result of a ray or segment intersection test
+ */
+export interface RayHit {
+  /** Distance along the ray (or fraction of the segment, 0-1) */
+  time: number;
+  /** Point where the ray hits the shape */
+  point: Vector2D;
+  /** Surface normal at the hit point */
+  normal: Vector2D;
+}
+
+/**
+ * Check if two rects overlap without building a manifold
+ */
+export function rectsOverlap(a: Rect, b: Rect): boolean {
+  return (
+    a.x < b.x + b.width &&
+    a.x + a.width > b.x &&
+    a.y < b.y + b.height &&
+    a.y + a.height > b.y
+  );
+}
+
+/**
+ * Check if two circles overlap without building a manifold
+ */
+export function circlesOverlap(a: Circle, b: Circle): boolean {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const radii = a.radius + b.radius;
+  return dx * dx + dy * dy < radii * radii;
+}
+
+/**
+ * AABB vs AABB test, resolved along the axis of least penetration
+ */
+export function aabbVsAabb(a: Rect, b: Rect): CollisionManifold | null {
+  const aHalfW = a.width / 2;
+  const aHalfH = a.height / 2;
+  const bHalfW = b.width / 2;
+  const bHalfH = b.height / 2;
+
+  const dx = (b.x + bHalfW) - (a.x + aHalfW);
+  const overlapX = aHalfW + bHalfW - Math.abs(dx);
+  if (overlapX <= 0) return null;
+
+  const dy = (b.y + bHalfH) - (a.y + aHalfH);
+  const overlapY = aHalfH + bHalfH - Math.abs(dy);
+  if (overlapY <= 0) return null;
+
+  // Contact point is the center of the overlapping region
+  const left = Math.max(a.x, b.x);
+  const right = Math.min(a.x + a.width, b.x + b.width);
+  const top = Math.max(a.y, b.y);
+  const bottom = Math.min(a.y + a.height, b.y + b.height);
+  const contact = { x: (left + right) / 2, y: (top + bottom) / 2 };
+
+  if (overlapX < overlapY) {
+    return {
+      normal: { x: dx < 0 ? -1 : 1, y: 0 },
+      penetration: overlapX,
+      contact
+    };
+  }
+
+  return {
+    normal: { x: 0, y: dy < 0 ? -1 : 1 },
+    penetration: overlapY,
+    contact
+  };
+}
+
+/**
+ * Circle vs circle test
+ */
+export function circleVsCircle(a: Circle, b: Circle): CollisionManifold | null {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const radii = a.radius + b.radius;
+  const distSquared = dx * dx + dy * dy;
+
+  if (distSquared >= radii * radii) return null;
+
+  const dist = Math.sqrt(distSquared);
+
+  // Concentric circles: pick an arbitrary but stable normal
+  if (dist === 0) {
+    return {
+      normal: { x: 0, y: -1 },
+      penetration: radii,
+      contact: { x: a.x, y: a.y }
+    };
+  }
+
+  const normal = { x: dx / dist, y: dy / dist };
+
+  return {
+    normal,
+    penetration: radii - dist,
+    contact: {
+      x: a.x + normal.x * a.radius,
+      y: a.y + normal.y * a.radius
+    }
+  };
+}
+
+/**
+ * Circle vs AABB test (normal points from the circle towards the rect)
+ */
+export function circleVsAabb(circle: Circle, rect: Rect): CollisionManifold | null {
+  // Closest point on the rect to the circle center
+  const closestX = clamp(circle.x, rect.x, rect.x + rect.width);
+  const closestY = clamp(circle.y, rect.y, rect.y + rect.height);
+
+  const dx = closestX - circle.x;
+  const dy = closestY - circle.y;
+  const distSquared = dx * dx + dy * dy;
+
+  // Center is outside the rect
+  if (distSquared > 0) {
+    if (distSquared >= circle.radius * circle.radius) return null;
+
+    const dist = Math.sqrt(distSquared);
+    return {
+      normal: { x: dx / dist, y: dy / dist },
+      penetration: circle.radius - dist,
+      contact: { x: closestX, y: closestY }
+    };
+  }
+
+  // Center is inside the rect: push out through the nearest edge
+  const toLeft = circle.x - rect.x;
+  const toRight = rect.x + rect.width - circle.x;
+  const toTop = circle.y - rect.y;
+  const toBottom = rect.y + rect.height - circle.y;
+  const nearest = Math.min(toLeft, toRight, toTop, toBottom);
+
+  if (nearest === toLeft) {
+    return {
+      normal: { x: 1, y: 0 },
+      penetration: toLeft + circle.radius,
+      contact: { x: rect.x, y: circle.y }
+    };
+  }
+  if (nearest === toRight) {
+    return {
+      normal: { x: -1, y: 0 },
+      penetration: toRight + circle.radius,
+      contact: { x: rect.x + rect.width, y: circle.y }
+    };
+  }
+  if (nearest === toTop) {
+    return {
+      normal: { x: 0, y: 1 },
+      penetration: toTop + circle.radius,
+      contact: { x: circle.x, y: rect.y }
+    };
+  }
+  return {
+    normal: { x: 0, y: -1 },
+    penetration: toBottom + circle.radius,
+    contact: { x: circle.x, y: rect.y + rect.height }
+  };
+}
+
+/**
+ * Swept AABB test: moves `moving` by `displacement` against a static rect
+ * and returns the earliest time of impact, or null if they never touch
+ */
+export function sweptAabb(moving: Rect, displacement: Vector2D, target: Rect): SweepResult | null {
+  // Expand the target by the moving rect and cast its center as a ray
+  const expanded: Rect = {
+    x: target.x - moving.width / 2,
+    y: target.y - moving.height / 2,
+    width: target.width + moving.width,
+    height: target.height + moving.height
+  };
+
+  const origin = {
+    x: moving.x + moving.width / 2,
+    y: moving.y + moving.height / 2
+  };
+
+  const hit = segmentVsAabb(origin, {
+    x: origin.x + displacement.x,
+    y: origin.y + displacement.y
+  }, expanded);
+
+  if (!hit) return null;
+
+  return {
+    time: hit.time,
+    normal: hit.normal,
+    position: {
+      x: moving.x + displacement.x * hit.time,
+      y: moving.y + displacement.y * hit.time
+    }
+  };
+}
+
+/**
+ * Ray vs AABB test using the slab method
+ * Returns the hit distance along the (normalized) direction
+ */
+export function rayVsAabb(
+  origin: Vector2D,
+  direction: Vector2D,
+  rect: Rect,
+  maxDistance = Infinity
+): RayHit | null {
+  const slabX = raySlab(origin.x, direction.x, rect.x, rect.x + rect.width);
+  const slabY = raySlab(origin.y, direction.y, rect.y, rect.y + rect.height);
+  if (!slabX || !slabY) return null;
+
+  let [tNearX, tFarX] = slabX;
+  let [tNearY, tFarY] = slabY;
+
+  if (tNearX > tFarX) [tNearX, tFarX] = [tFarX, tNearX];
+  if (tNearY > tFarY) [tNearY, tFarY] = [tFarY, tNearY];
+
+  if (tNearX > tFarY || tNearY > tFarX) return null;
+
+  const tNear = Math.max(tNearX, tNearY);
+  const tFar = Math.min(tFarX, tFarY);
+
+  // Rays starting on the edge and leaving it exit at time 0
+  if (tFar <= 0 || tNear > maxDistance) return null;
+
+  // Ray starts inside the rect; one starting on an edge and sliding along it
+  // is only touching (entering rays start at time 0 and are handled below)
+  if (tNear < 0) {
+    const inside = origin.x > rect.x && origin.x < rect.x + rect.width &&
+      origin.y > rect.y && origin.y < rect.y + rect.height;
+    if (!inside) return null;
+
+    return {
+      time: 0,
+      point: { ...origin },
+      normal: normalize({ x: -direction.x, y: -direction.y })
+    };
+  }
+
+  const normal = tNearX > tNearY
+    ? { x: direction.x < 0 ? 1 : -1, y: 0 }
+    : { x: 0, y: direction.y < 0 ? 1 : -1 };
+
+  return {
+    time: tNear,
+    point: {
+      x: origin.x + direction.x * tNear,
+      y: origin.y + direction.y * tNear
+    },
+    normal
+  };
+}
+
+/**
+ * Entry and exit times of a ray along one axis of a box
+ * Rays parallel to the axis span all time if they lie within the slab (edges
+ * included, as for rays crossing it) and miss otherwise
+ */
+function raySlab(origin: number, direction: number, min: number, max: number): [number, number] | null {
+  if (direction === 0) {
+    return origin >= min && origin <= max ? [-Infinity, Infinity] : null;
+  }
+  return [(min - origin) / direction, (max - origin) / direction];
+}
+
+/**
+ * Segment vs AABB test
+ * Returns the hit time as a fraction of the segment (0-1)
+ */
+export function segmentVsAabb(start: Vector2D, end: Vector2D, rect: Rect): RayHit | null {
+  const direction = { x: end.x - start.x, y: end.y - start.y };
+  return rayVsAabb(start, direction, rect, 1);
+}
+
+/**
+ * Ray vs circle test
+ * Returns the hit distance along the (normalized) direction
+ */
+export function rayVsCircle(
+  origin: Vector2D,
+  direction: Vector2D,
+  circle: Circle,
+  maxDistance = Infinity
+): RayHit | null {
+  const ox = origin.x - circle.x;
+  const oy = origin.y - circle.y;
+
+  const a = dot(direction, direction);
+  if (a === 0) return null;
+
+  const b = 2 * (ox * direction.x + oy * direction.y);
+  const c = ox * ox + oy * oy - circle.radius * circle.radius;
+
+  // Ray starts inside the circle
+  if (c < 0) {
+    return {
+      time: 0,
+      point: { ...origin },
+      normal: normalize({ x: -direction.x, y: -direction.y })
+    };
+  }
+
+  // Starting on the edge, only rays heading inwards hit (at time 0)
+  if (c === 0 && b >= 0) return null;
+
+  const discriminant = b * b - 4 * a * c;
+  if (discriminant < 0) return null;
+
+  const t = (-b - Math.sqrt(discriminant)) / (2 * a);
+  if (t < 0 || t > maxDistance) return null;
+
+  const point = {
+    x: origin.x + direction.x * t,
+    y: origin.y + direction.y * t
+  };
+
+  return {
+    time: t,
+    point,
+    normal: {
+      x: (point.x - circle.x) / circle.radius,
+      y: (point.y - circle.y) / circle.radius
+    }
+  };
+}
+
+/**
+ * Segment vs circle test
+ * Returns the hit time as a fraction of the segment (0-1)
+ */
+export function segmentVsCircle(start: Vector2D, end: Vector2D, circle: Circle): RayHit | null {
+  const direction = { x: end.x - start.x, y: end.y - start.y };
+  return rayVsCircle(start, direction, circle, 1);
+}
+
+/**
+ * Segment vs segment test
+ * Returns the hit time as a fraction of the first segment (0-1)
+ */
+export function segmentVsSegment(
+  aStart: Vector2D,
+  aEnd: Vector2D,
+  bStart: Vector2D,
+  bEnd: Vector2D
+): RayHit | null {
+  const r = { x: aEnd.x - aStart.x, y: aEnd.y - aStart.y };
+  const s = { x: bEnd.x - bStart.x, y: bEnd.y - bStart.y };
+
+  const denominator = r.x * s.y - r.y * s.x;
+
+  // Parallel or collinear segments are treated as non-intersecting
+  if (denominator === 0) return null;
+
+  const qp = { x: bStart.x - aStart.x, y: bStart.y - aStart.y };
+  const t = (qp.x * s.y - qp.y * s.x) / denominator;
+  const u = (qp.x * r.y - qp.y * r.x) / denominator;
+
+  if (t < 0 || t > 1 || u < 0 || u > 1) return null;
+
+  // Normal of the second segment, facing against the first segment's direction
+  const length = Math.sqrt(s.x * s.x + s.y * s.y);
+  let normal = { x: -s.y / length, y: s.x / length };
+  if (dot(normal, r) > 0) {
+    normal = { x: -normal.x, y: -normal.y };
+  }
+
+  return {
+    time: t,
+    point: {
+      x: aStart.x + r.x * t,
+      y: aStart.y + r.y * t
+    },
+    normal
+  };
+}
+
+/**
+ * Get the world-space collider rect for an entity
+ * The collider offset is relative to the entity position
+ */
+export function getWorldCollider(entity: { position: Vector2D; collider?: Rect }): Rect | null {
+  if (!entity.collider) return null;
+
+  return {
+    x: entity.position.x + entity.collider.x,
+    y: entity.position.y + entity.collider.y,
+    width: entity.collider.width,
+    height: entity.collider.height
+  };
+}
+
+/**
+ * Push a shape out of a collision using its manifold
+ * `share` controls how much of the correction is applied (1 = all of it)
+ */
+export function separate(shape: Rect | Circle, manifold: CollisionManifold, share = 1): void {
+  shape.x -= manifold.normal.x * manifold.penetration * share;
+  shape.y -= manifold.normal.y * manifold.penetration * share;
+}
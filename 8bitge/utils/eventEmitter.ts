@@ -1,28 +1,97 @@
 /**
- * Simple Event Emitter for the 8BitPixel Game Engine
+ * Typed Event Emitter for the 8BitPixel Game Engine
+ * Supports namespaced wildcard subscriptions (`input:*`, `*`) and listener priorities
  */
 
-export class EventEmitter {
-  private events: Record<string, Function[]> = {};
+/**
+ * Namespaces used by a set of event names (`input:keydown` -> `input`)
+ */
+type EventNamespace<K extends string> = K extends `${infer NS}:${string}` ? NS : never;
+
+/**
+ * Any event name or wildcard pattern accepted by `on()`
+ */
+export type EventName<M> =
+  | (keyof M & string)
+  | `${EventNamespace<keyof M & string>}:*`
+  | '*';
+
+/**
+ * Payload type for an event name or wildcard pattern
+ */
+export type EventPayload<M, K extends string> =
+  K extends keyof M
+    ? M[K]
+    : K extends `${infer NS}:*`
+      ? M[Extract<keyof M, `${NS}:${string}`>]
+      : M[keyof M];
+
+/**
+ * Listener for an event; also receives the name of the event that fired,
+ * which is useful for wildcard subscriptions
+ */
+export type EventListener<M, K extends string> = (data: EventPayload<M, K>, event: keyof M & string) => void;
+
+/**
+ * Function returned by `on()` that removes the listener
+ */
+export type Unsubscribe = () => void;
+
+export interface EventEmitterOptions {
+  /** Event names that something actually emits, used for dev-mode warnings */
+  knownEvents?: readonly string[];
+  /** Warn when subscribing to an event nothing emits (defaults to non-production builds) */
+  warnUnknown?: boolean;
+}
+
+interface ListenerEntry {
+  callback: (data: any, event: string) => void;
+  /** Callback given to once(), which callback wraps; off() matches it too */
+  original?: (data: any, event: string) => void;
+  priority: number;
+  order: number;
+}
+
+export class EventEmitter<M extends Record<string, any> = Record<string, any>> {
+  private events: Record<string, ListenerEntry[]> = {};
+  private knownEvents: Set<string> | null;
+  private knownNamespaces: Set<string> = new Set();
+  private warned: Set<string> = new Set();
+  private warnUnknown: boolean;
+  private nextOrder = 0;
+
+  constructor(options: EventEmitterOptions = {}) {
+    this.knownEvents = options.knownEvents ? new Set(options.knownEvents) : null;
+    this.warnUnknown = options.warnUnknown ?? process.env.NODE_ENV !== 'production';
+
+    this.knownEvents?.forEach(event => {
+      const separator = event.indexOf(':');
+      if (separator > 0) {
+        this.knownNamespaces.add(event.substring(0, separator));
+      }
+    });
+  }
 
   /**
    * Register an event listener
+   * Higher priority listeners run first; equal priorities run in registration order
    */
-  on(event: string, callback: Function): void {
-    if (!this.events[event]) {
-      this.events[event] = [];
-    }
-    this.events[event].push(callback);
+  on<K extends EventName<M>>(event: K, callback: EventListener<M, K>, priority: number = 0): Unsubscribe {
+    return this.addEntry(event, {
+      callback: callback as ListenerEntry['callback'],
+      priority,
+      order: this.nextOrder++
+    });
   }
 
   /**
    * Remove an event listener
    */
-  off(event: string, callback?: Function): void {
+  off<K extends EventName<M>>(event: K, callback?: EventListener<M, K>): void {
     if (!this.events[event]) return;
 
     if (callback) {
-      const index = this.events[event].indexOf(callback);
+      const index = this.events[event].findIndex(entry => entry.callback === callback || entry.original === callback);
       if (index !== -1) {
         this.events[event].splice(index, 1);
       }
@@ -33,14 +102,15 @@ export class EventEmitter {
   }
 
   /**
-   * Emit an event
+   * Emit an event to its listeners and any matching wildcard listeners
    */
-  emit(event: string, data?: any): void {
-    if (!this.events[event]) return;
+  emit<K extends keyof M & string>(event: K, data: M[K]): void {
+    const listeners = this.collectListeners(event);
+    if (listeners.length === 0) return;
 
-    for (const callback of this.events[event]) {
+    for (const listener of listeners) {
       try {
-        callback(data);
+        listener.callback(data, event);
       } catch (error) {
         console.error(`Error in event listener for ${event}:`, error);
       }
@@ -50,12 +120,25 @@ export class EventEmitter {
   /**
    * Register a one-time event listener
    */
-  once(event: string, callback: Function): void {
-    const onceCallback = (data: any) => {
-      this.off(event, onceCallback);
-      callback(data);
-    };
-    this.on(event, onceCallback);
+  once<K extends EventName<M>>(event: K, callback: EventListener<M, K>, priority: number = 0): Unsubscribe {
+    const original = callback as ListenerEntry['callback'];
+    const unsubscribe = this.addEntry(event, {
+      callback: (data, name) => {
+        unsubscribe();
+        original(data, name);
+      },
+      original,
+      priority,
+      order: this.nextOrder++
+    });
+    return unsubscribe;
+  }
+
+  /**
+   * Check if an event has any listeners, including wildcards
+   */
+  hasListeners(event: keyof M & string): boolean {
+    return this.collectListeners(event).length > 0;
   }
 
   /**
@@ -64,4 +147,77 @@ export class EventEmitter {
   clear(): void {
     this.events = {};
   }
+
+  /**
+   * Gather exact, namespace wildcard and global wildcard listeners in priority order
+   */
+  private collectListeners(event: string): ListenerEntry[] {
+    const exact = this.events[event];
+    const separator = event.indexOf(':');
+    const namespaced = separator > 0 ? this.events[`${event.substring(0, separator)}:*`] : undefined;
+    const global = this.events['*'];
+
+    // Fast path: only exact listeners
+    if (!namespaced && !global) {
+      return exact ? [...exact] : [];
+    }
+
+    return [...(exact || []), ...(namespaced || []), ...(global || [])]
+      .sort((a, b) => b.priority - a.priority || a.order - b.order);
+  }
+
+  /**
+   * Add a listener entry in priority order
+   */
+  private addEntry(event: string, entry: ListenerEntry): Unsubscribe {
+    this.checkKnown(event);
+
+    if (!this.events[event]) {
+      this.events[event] = [];
+    }
+
+    // Keep each list sorted so emit() only has to merge
+    const listeners = this.events[event];
+    let index = listeners.length;
+    while (index > 0 && listeners[index - 1].priority < entry.priority) {
+      index--;
+    }
+    listeners.splice(index, 0, entry);
+
+    return () => this.removeEntry(event, entry);
+  }
+
+  /**
+   * Remove a specific listener entry
+   */
+  private removeEntry(event: string, entry: ListenerEntry): void {
+    const listeners = this.events[event];
+    if (!listeners) return;
+
+    const index = listeners.indexOf(entry);
+    if (index !== -1) {
+      listeners.splice(index, 1);
+    }
+  }
+
+  /**
+   * Warn (once) about subscriptions to events that nothing emits
+   */
+  private checkKnown(event: string): void {
+    if (!this.warnUnknown || !this.knownEvents || this.warned.has(event)) return;
+
+    let known: boolean;
+    if (event === '*') {
+      known = true;
+    } else if (event.endsWith(':*')) {
+      known = this.knownNamespaces.has(event.slice(0, -2));
+    } else {
+      known = this.knownEvents.has(event);
+    }
+
+    if (!known) {
+      this.warned.add(event);
+      console.warn(`[8BitGE] Listening for '${event}', but no system emits this event`);
+    }
+  }
 }
@@ -0,0 +1,281 @@
+/**
+ * Gesture recognition for 8BitGE
+ * Turns pointer downs, moves and ups into taps, double-taps, long presses,
+ * drags, pinches and swipes
+ */
+
+import { EventEmitter } from './eventEmitter';
+import { DragGestureEvent, EngineEvents, GestureOptions, SwipeDirection, Vector2D } from '../types';
+
+/** Pointer id used for the mouse; touch identifiers are never negative */
+export const MOUSE_POINTER = -1;
+
+const DEFAULT_GESTURE_OPTIONS: Required<GestureOptions> = {
+  tapTime: 250,
+  tapDistance: 10,
+  doubleTapTime: 300,
+  doubleTapDistance: 30,
+  longPressTime: 500,
+  dragDistance: 10,
+  swipeDistance: 50,
+  swipeTime: 300
+};
+
+interface Pointer {
+  id: number;
+  startX: number;
+  startY: number;
+  startTime: number;
+  x: number;
+  y: number;
+  dragging: boolean;
+  longPressed: boolean;
+  /** Taken over by a pinch */
+  pinched: boolean;
+}
+
+export class GestureRecognizer {
+  private events: EventEmitter<EngineEvents>;
+  private options: Required<GestureOptions>;
+  private pointers: Map<number, Pointer> = new Map();
+  private lastTap: { x: number; y: number; time: number } | null = null;
+  private pinchDistance: number = 0;
+  private swipes: boolean;
+  private onSwipe: ((direction: SwipeDirection) => void) | null;
+  private now: () => number = () => performance.now();
+
+  /**
+   * @param swipes Recognize touch swipes
+   * @param onSwipe Called for each swipe, before its event
+   */
+  constructor(
+    events: EventEmitter<EngineEvents>,
+    options: GestureOptions = {},
+    swipes: boolean = true,
+    onSwipe?: (direction: SwipeDirection) => void
+  ) {
+    this.events = events;
+    this.options = { ...DEFAULT_GESTURE_OPTIONS, ...options };
+    this.swipes = swipes;
+    this.onSwipe = onSwipe || null;
+  }
+
+  /**
+   * Use another clock for gesture timing, in milliseconds (replays use frame time)
+   */
+  setClock(now: (() => number) | null): void {
+    this.now = now || (() => performance.now());
+  }
+
+  /**
+   * Fire long presses that have been held long enough (called each update step)
+   */
+  update(): void {
+    const now = this.now();
+
+    this.pointers.forEach(pointer => {
+      if (pointer.longPressed || pointer.dragging || pointer.pinched) return;
+      if (now - pointer.startTime < this.options.longPressTime) return;
+
+      pointer.longPressed = true;
+      this.events.emit('input:longpress', { id: pointer.id, x: pointer.x, y: pointer.y, duration: now - pointer.startTime });
+    });
+  }
+
+  /**
+   * A pointer went down
+   */
+  pointerDown(id: number, x: number, y: number): void {
+    this.cancel(id);
+
+    const pointer: Pointer = {
+      id, startX: x, startY: y, startTime: this.now(), x, y,
+      dragging: false, longPressed: false, pinched: false
+    };
+    this.pointers.set(id, pointer);
+
+    const touches = this.getTouches();
+    if (touches.length === 2) {
+      // A second finger turns the gesture into a pinch
+      touches.forEach(touch => this.endSingle(touch));
+      this.pinchDistance = this.distance(touches[0], touches[1]);
+    } else if (touches.length > 2) {
+      // Extra fingers during a pinch are ignored
+      pointer.pinched = true;
+    }
+  }
+
+  /**
+   * A pointer moved
+   */
+  pointerMove(id: number, x: number, y: number): void {
+    const pointer = this.pointers.get(id);
+    if (!pointer) return;
+
+    let deltaX = x - pointer.x;
+    let deltaY = y - pointer.y;
+    pointer.x = x;
+    pointer.y = y;
+
+    const touches = this.getTouches();
+    if (touches.length === 2 && id !== MOUSE_POINTER) {
+      const distance = this.distance(touches[0], touches[1]);
+      if (this.pinchDistance > 0) {
+        this.events.emit('input:pinch', {
+          scale: distance / this.pinchDistance,
+          center: { x: (touches[0].x + touches[1].x) / 2, y: (touches[0].y + touches[1].y) / 2 }
+        });
+      }
+      return;
+    }
+    if (touches.length > 2 || pointer.pinched) return;
+
+    if (!pointer.dragging) {
+      if (Math.hypot(x - pointer.startX, y - pointer.startY) < this.options.dragDistance) return;
+
+      pointer.dragging = true;
+      this.events.emit('input:dragstart', this.dragEvent(pointer, 0, 0, pointer.startX, pointer.startY));
+
+      // The first drag covers the movement below the threshold too
+      deltaX = x - pointer.startX;
+      deltaY = y - pointer.startY;
+    }
+
+    this.events.emit('input:drag', this.dragEvent(pointer, deltaX, deltaY));
+  }
+
+  /**
+   * A pointer went up
+   */
+  pointerUp(id: number, x: number, y: number): void {
+    const pointer = this.pointers.get(id);
+    if (!pointer) return;
+
+    pointer.x = x;
+    pointer.y = y;
+    this.pointers.delete(id);
+
+    // Fingers lifting out of a pinch don't tap or swipe
+    if (pointer.pinched) {
+      if (this.getTouches().length < 2) this.pinchDistance = 0;
+      return;
+    }
+
+    const duration = this.now() - pointer.startTime;
+    const distance = Math.hypot(x - pointer.startX, y - pointer.startY);
+
+    if (pointer.dragging) {
+      this.events.emit('input:dragend', this.dragEvent(pointer, 0, 0));
+    }
+
+    if (this.swipes && id !== MOUSE_POINTER && duration <= this.options.swipeTime && distance >= this.options.swipeDistance) {
+      this.emitSwipe(pointer, distance, duration);
+      return;
+    }
+
+    if (!pointer.dragging && !pointer.longPressed && duration <= this.options.tapTime && distance < this.options.tapDistance) {
+      this.emitTap(pointer);
+    }
+  }
+
+  /**
+   * Forget a pointer without recognizing anything (touchcancel)
+   */
+  cancel(id: number): void {
+    const pointer = this.pointers.get(id);
+    if (!pointer) return;
+
+    this.pointers.delete(id);
+    if (this.getTouches().length < 2) this.pinchDistance = 0;
+  }
+
+  /**
+   * Forget every pointer
+   */
+  destroy(): void {
+    Array.from(this.pointers.keys()).forEach(id => this.cancel(id));
+    this.lastTap = null;
+  }
+
+  /**
+   * Emit a tap, and a double-tap when it closely follows another
+   */
+  private emitTap(pointer: Pointer): void {
+    const now = this.now();
+    const event = { id: pointer.id, x: pointer.x, y: pointer.y };
+    this.events.emit('input:tap', event);
+
+    const last = this.lastTap;
+    if (last && now - last.time <= this.options.doubleTapTime &&
+        Math.hypot(pointer.x - last.x, pointer.y - last.y) <= this.options.doubleTapDistance) {
+      this.events.emit('input:doubletap', event);
+      // A third tap starts a new pair
+      this.lastTap = null;
+    } else {
+      this.lastTap = { x: pointer.x, y: pointer.y, time: now };
+    }
+  }
+
+  /**
+   * Emit a swipe in the pointer's main direction
+   */
+  private emitSwipe(pointer: Pointer, distance: number, duration: number): void {
+    const angle = Math.atan2(pointer.y - pointer.startY, pointer.x - pointer.startX) * 180 / Math.PI;
+
+    let direction: SwipeDirection;
+    if (angle > -45 && angle <= 45) {
+      direction = 'right';
+    } else if (angle > 45 && angle <= 135) {
+      direction = 'down';
+    } else if (angle > 135 || angle <= -135) {
+      direction = 'left';
+    } else {
+      direction = 'up';
+    }
+
+    if (this.onSwipe) this.onSwipe(direction);
+
+    this.events.emit('input:swipe', {
+      direction,
+      distance,
+      duration,
+      velocity: distance / (Math.max(duration, 1) / 1000),
+      startX: pointer.startX,
+      startY: pointer.startY,
+      endX: pointer.x,
+      endY: pointer.y
+    });
+  }
+
+  /**
+   * Stop a single-pointer gesture when a pinch takes over
+   */
+  private endSingle(pointer: Pointer): void {
+    if (pointer.dragging) {
+      this.events.emit('input:dragend', this.dragEvent(pointer, 0, 0));
+    }
+    pointer.dragging = false;
+    pointer.pinched = true;
+  }
+
+  /**
+   * Build a drag event for a pointer, at its current position unless given
+   */
+  private dragEvent(pointer: Pointer, deltaX: number, deltaY: number, x: number = pointer.x, y: number = pointer.y): DragGestureEvent {
+    return { id: pointer.id, x, y, startX: pointer.startX, startY: pointer.startY, deltaX, deltaY };
+  }
+
+  /**
+   * Active touch pointers (the mouse never pinches)
+   */
+  private getTouches(): Pointer[] {
+    return Array.from(this.pointers.values()).filter(pointer => pointer.id !== MOUSE_POINTER);
+  }
+
+  /**
+   * Distance between two points
+   */
+  private distance(a: Vector2D, b: Vector2D): number {
+    return Math.hypot(a.x - b.x, a.y - b.y);
+  }
+}
@@ -4,21 +4,45 @@
  */
 
 import { Vector2D } from '../types';
+import { Random, createSeed } from './random';
+
+/** Generator behind random, randomInt and the particle system (unpredictably seeded at load) */
+const sharedRandom = new Random();
+
+/**
+ * Seed the shared random generator (unpredictably when omitted); the same
+ * seed always gives the same sequence
+ */
+export function setRandomSeed(seed: number | string = createSeed()): void {
+  sharedRandom.seed(seed);
+}
+
+/**
+ * Get the seed the shared random generator was last seeded with
+ */
+export function getRandomSeed(): number {
+  return sharedRandom.getSeed();
+}
+
+/**
+ * Get the shared random generator, for pick, shuffle, weighted and gaussian
+ */
+export function getRandom(): Random {
+  return sharedRandom;
+}
 
 /**
- * Generate a random number between min and max (inclusive)
+ * Generate a random number between min and max (defaults to 0..1)
  */
-export function random(min: number, max: number): number {
-  return Math.random() * (max - min) + min;
+export function random(min: number = 0, max: number = 1): number {
+  return sharedRandom.float(min, max);
 }
 
 /**
  * Generate a random integer between min and max (inclusive)
  */
 export function randomInt(min: number, max: number): number {
-  min = Math.ceil(min);
-  max = Math.floor(max);
-  return Math.floor(Math.random() * (max - min + 1)) + min;
+  return sharedRandom.int(min, max);
 }
 
 /**
@@ -204,7 +228,7 @@ export function lerpVectors(v1: Vector2D, v2: Vector2D, t: number): Vector2D {
  */
 export function randomPointInCircle(center: Vector2D, radius: number): Vector2D {
   const angle = random(0, Math.PI * 2);
-  const r = radius * Math.sqrt(Math.random()); // Account for distribution
+  const r = radius * Math.sqrt(sharedRandom.next()); // Account for distribution
   
   return {
     x: center.x + r * Math.cos(angle),
@@ -0,0 +1,39 @@
+import { describe, expect, test } from 'bun:test';
+import { Random } from './random';
+
+describe('Random', () => {
+  test('the same seed gives the same sequence', () => {
+    const a = new Random('level-3');
+    const b = new Random('level-3');
+    expect([a.next(), a.int(1, 6), a.gaussian()]).toEqual([b.next(), b.int(1, 6), b.gaussian()]);
+  });
+
+  test('restoring a state resumes the sequence', () => {
+    const rng = new Random(42);
+    rng.next();
+    const state = rng.getState();
+    const expected = [rng.next(), rng.next()];
+
+    const restored = new Random(1);
+    restored.setState(state);
+    expect([restored.next(), restored.next()]).toEqual(expected);
+  });
+
+  test('restoring a state keeps a pending gaussian value', () => {
+    const rng = new Random(7);
+    rng.gaussian(); // Leaves the second value of the pair pending
+    const state = rng.getState();
+    const expected = [rng.gaussian(), rng.gaussian(), rng.gaussian()];
+
+    const restored = new Random(1);
+    restored.gaussian();
+    restored.setState(state);
+    expect([restored.gaussian(), restored.gaussian(), restored.gaussian()]).toEqual(expected);
+
+    // A state saved without one clears the restored generator's
+    const clean = new Random(7).getState();
+    restored.gaussian();
+    restored.setState(clean);
+    expect(restored.gaussian()).toBe(new Random(7).gaussian());
+  });
+});
@@ -0,0 +1,196 @@
+/**
+ * Seeded random numbers for 8BitGE
+ * A splittable xoshiro128** generator: the same seed always gives the same
+ * sequence, so levels, replays and daily challenges can be reproduced
+ */
+
+/**
+ * Hash a string to a 32-bit seed (FNV-1a)
+ */
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Seed shared by every player of a game on a day (UTC), for daily challenges
+ */
+export function getDailySeed(gameId: string, date: Date = new Date()): number {
+  return hashSeed(`${gameId}:${date.toISOString().slice(0, 10)}`);
+}
+
+/**
+ * A fresh unpredictable seed
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+export class Random {
+  private state: Uint32Array = new Uint32Array(4);
+  private seedValue: number = 0;
+  /** Second value from the last Box-Muller pair */
+  private spare: number | null = null;
+
+  /**
+   * @param seed Number or string to seed with (unpredictable when omitted)
+   */
+  constructor(seed: number | string = createSeed()) {
+    this.seed(seed);
+  }
+
+  /**
+   * Restart the sequence from a seed
+   */
+  seed(seed: number | string): void {
+    this.seedValue = typeof seed === 'string' ? hashSeed(seed) : seed >>> 0;
+    this.spare = null;
+
+    // Expand the seed into the four state words with splitmix32
+    let x = this.seedValue;
+    for (let i = 0; i < 4; i++) {
+      x = (x + 0x9e3779b9) >>> 0;
+      let z = x;
+      z = Math.imul(z ^ (z >>> 16), 0x85ebca6b);
+      z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35);
+      this.state[i] = (z ^ (z >>> 16)) >>> 0;
+    }
+  }
+
+  /**
+   * Get the seed the generator was last seeded with
+   */
+  getSeed(): number {
+    return this.seedValue;
+  }
+
+  /**
+   * Get the generator's position in its sequence, to resume it later
+   * The four state words, followed by the pending gaussian value if there is one
+   */
+  getState(): number[] {
+    const state = Array.from(this.state);
+    return this.spare !== null ? [...state, this.spare] : state;
+  }
+
+  /**
+   * Resume from a state saved with getState
+   */
+  setState(state: number[]): void {
+    this.state.set(state.slice(0, 4));
+    this.spare = state.length > 4 ? state[4] : null;
+  }
+
+  /**
+   * Next 32-bit unsigned integer
+   */
+  nextUint32(): number {
+    const s = this.state;
+    const result = Math.imul(rotl(Math.imul(s[1], 5), 7), 9) >>> 0;
+    const t = s[1] << 9;
+
+    s[2] ^= s[0];
+    s[3] ^= s[1];
+    s[1] ^= s[2];
+    s[0] ^= s[3];
+    s[2] ^= t;
+    s[3] = rotl(s[3], 11);
+
+    return result;
+  }
+
+  /**
+   * Next number in [0, 1)
+   */
+  next(): number {
+    return this.nextUint32() / 4294967296;
+  }
+
+  /**
+   * Random number between min and max (defaults to 0..1)
+   */
+  float(min: number = 0, max: number = 1): number {
+    return this.next() * (max - min) + min;
+  }
+
+  /**
+   * Random integer between min and max (inclusive)
+   */
+  int(min: number, max: number): number {
+    min = Math.ceil(min);
+    max = Math.floor(max);
+    return Math.floor(this.next() * (max - min + 1)) + min;
+  }
+
+  /**
+   * Random item of a list
+   */
+  pick<T>(items: readonly T[]): T {
+    if (items.length === 0) {
+      throw new Error('[8BitGE] Cannot pick from an empty list');
+    }
+    return items[Math.floor(this.next() * items.length)];
+  }
+
+  /**
+   * Shuffle a list in place (Fisher-Yates) and return it
+   */
+  shuffle<T>(items: T[]): T[] {
+    for (let i = items.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      [items[i], items[j]] = [items[j], items[i]];
+    }
+    return items;
+  }
+
+  /**
+   * Random item of a list, each item as likely as its weight
+   */
+  weighted<T>(items: readonly T[], weights: readonly number[]): T {
+    const total = items.reduce((sum, _, i) => sum + Math.max(0, weights[i] ?? 0), 0);
+    if (total <= 0) return this.pick(items);
+
+    let roll = this.next() * total;
+    for (let i = 0; i < items.length; i++) {
+      roll -= Math.max(0, weights[i] ?? 0);
+      if (roll < 0) return items[i];
+    }
+    return items[items.length - 1];
+  }
+
+  /**
+   * Normally distributed number (Box-Muller)
+   */
+  gaussian(mean: number = 0, deviation: number = 1): number {
+    if (this.spare !== null) {
+      const value = this.spare;
+      this.spare = null;
+      return mean + value * deviation;
+    }
+
+    // 1 - next() keeps the logarithm away from 0
+    const radius = Math.sqrt(-2 * Math.log(1 - this.next()));
+    const angle = 2 * Math.PI * this.next();
+    this.spare = radius * Math.sin(angle);
+    return mean + radius * Math.cos(angle) * deviation;
+  }
+
+  /**
+   * Create an independent generator seeded from this one, so one system's
+   * draws don't shift another's (e.g. level layout vs. particle effects)
+   */
+  split(): Random {
+    return new Random(this.nextUint32());
+  }
+}
+
+/**
+ * Rotate a 32-bit value left
+ */
+function rotl(value: number, bits: number): number {
+  return ((value << bits) | (value >>> (32 - bits))) >>> 0;
+}
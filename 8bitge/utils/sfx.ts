@@ -0,0 +1,281 @@
+/**
+ * Procedural sound effects for 8BitGE
+ * An sfxr-style synthesizer that renders chiptune blips, lasers and explosions
+ * from a handful of parameters, with seedable presets
+ */
+
+import { SfxParams, SfxPreset, SfxSource, SfxWaveform } from '../types';
+
+export const DEFAULT_SFX_PARAMS: SfxParams = {
+  waveform: 'square',
+  attack: 0,
+  sustain: 0.1,
+  decay: 0.2,
+  punch: 0,
+  frequency: 440,
+  minFrequency: 20,
+  slide: 0,
+  deltaSlide: 0,
+  vibratoDepth: 0,
+  vibratoSpeed: 0,
+  arpeggio: 1,
+  arpeggioTime: 0,
+  duty: 0.5,
+  dutySweep: 0,
+  lowPass: 0,
+  lowPassSweep: 0,
+  lowPassResonance: 0,
+  highPass: 0,
+  highPassSweep: 0,
+  volume: 0.5,
+  seed: 0
+};
+
+/** Noise values per waveform period, as in sfxr */
+const NOISE_STEPS = 32;
+
+/**
+ * Small seeded PRNG (mulberry32) returning values in [0, 1)
+ */
+function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Fill in missing parameters, or build a preset from its name
+ */
+export function resolveSfxParams(source: SfxSource, seed: number = 0): SfxParams {
+  if (typeof source === 'string') {
+    return createSfxPreset(source, seed);
+  }
+  return { ...DEFAULT_SFX_PARAMS, ...source };
+}
+
+/**
+ * Create parameters for a preset family
+ * Each seed gives a different variation; the same seed always gives the same sound
+ */
+export function createSfxPreset(preset: SfxPreset, seed: number = 0): SfxParams {
+  const rng = createRng(seed);
+  const range = (min: number, max: number) => min + rng() * (max - min);
+  const pick = <T>(items: T[]): T => items[Math.floor(rng() * items.length)];
+  const params: SfxParams = { ...DEFAULT_SFX_PARAMS, seed };
+
+  switch (preset) {
+    case 'coin':
+      params.frequency = range(900, 1700);
+      params.sustain = range(0.02, 0.08);
+      params.punch = range(0.3, 0.6);
+      params.decay = range(0.1, 0.3);
+      params.arpeggio = range(1.3, 1.6);
+      params.arpeggioTime = range(0.04, 0.09);
+      break;
+
+    case 'laser':
+      params.waveform = pick<SfxWaveform>(['square', 'square', 'saw', 'triangle']);
+      params.frequency = range(500, 1500);
+      params.minFrequency = range(80, 200);
+      params.slide = -range(4, 12);
+      params.duty = range(0.2, 0.5);
+      params.dutySweep = range(-0.5, 0.5);
+      params.sustain = range(0.05, 0.15);
+      params.decay = range(0.05, 0.25);
+      if (rng() < 0.3) {
+        params.highPass = range(100, 400);
+      }
+      break;
+
+    case 'explosion':
+      params.waveform = 'noise';
+      params.frequency = range(60, 400);
+      params.slide = -range(0.5, 2);
+      params.sustain = range(0.1, 0.3);
+      params.punch = range(0.2, 0.6);
+      params.decay = range(0.3, 0.7);
+      params.lowPass = range(1000, 4000);
+      params.lowPassSweep = -range(500, 2000);
+      if (rng() < 0.5) {
+        params.vibratoDepth = range(0.1, 0.3);
+        params.vibratoSpeed = range(5, 20);
+      }
+      break;
+
+    case 'powerup':
+      params.waveform = pick<SfxWaveform>(['square', 'saw']);
+      params.frequency = range(300, 700);
+      params.slide = range(2, 5);
+      params.duty = range(0.3, 0.6);
+      params.sustain = range(0.1, 0.3);
+      params.decay = range(0.1, 0.4);
+      if (rng() < 0.5) {
+        params.vibratoDepth = range(0.05, 0.15);
+        params.vibratoSpeed = range(8, 16);
+      }
+      break;
+
+    case 'hit':
+      params.waveform = pick<SfxWaveform>(['square', 'saw', 'noise']);
+      params.frequency = range(200, 800);
+      params.minFrequency = 40;
+      params.slide = -range(5, 10);
+      params.sustain = range(0.02, 0.06);
+      params.decay = range(0.05, 0.2);
+      params.highPass = rng() < 0.5 ? range(50, 300) : 0;
+      break;
+
+    case 'jump':
+      params.frequency = range(250, 500);
+      params.slide = range(2, 4);
+      params.duty = range(0.3, 0.5);
+      params.sustain = range(0.05, 0.15);
+      params.decay = range(0.05, 0.2);
+      params.highPass = rng() < 0.5 ? range(50, 300) : 0;
+      break;
+
+    case 'blip':
+      params.waveform = pick<SfxWaveform>(['square', 'saw']);
+      params.frequency = range(400, 1200);
+      params.duty = range(0.3, 0.5);
+      params.sustain = range(0.02, 0.05);
+      params.decay = range(0.02, 0.06);
+      params.highPass = 100;
+      break;
+  }
+
+  return params;
+}
+
+/**
+ * Render a sound effect to mono samples in -1..1
+ */
+export function generateSfx(source: SfxSource, sampleRate: number = 44100): Float32Array {
+  const p = resolveSfxParams(source);
+  const total = Math.max(1, Math.ceil((p.attack + p.sustain + p.decay) * sampleRate));
+  const samples = new Float32Array(total);
+  const rng = createRng(p.seed);
+
+  const noise = new Float32Array(NOISE_STEPS);
+  const refreshNoise = () => {
+    for (let i = 0; i < NOISE_STEPS; i++) noise[i] = rng() * 2 - 1;
+  };
+  refreshNoise();
+
+  let frequency = p.frequency;
+  let slide = p.slide;
+  let arpeggiated = false;
+  let phase = 0;
+
+  // State-variable low-pass and one-pole high-pass filters
+  let low = 0;
+  let band = 0;
+  let highOut = 0;
+  let highIn = 0;
+  const damping = 1.4 * (1 - Math.min(Math.max(p.lowPassResonance, 0), 1)) + 0.1;
+
+  let length = total;
+
+  for (let i = 0; i < total; i++) {
+    const t = i / sampleRate;
+
+    // Frequency slide, stopping once it falls out of range (keeping a sample, as empty buffers can't be created)
+    slide += p.deltaSlide / sampleRate;
+    frequency *= Math.pow(2, slide / sampleRate);
+    if (frequency < p.minFrequency && slide < 0) {
+      length = Math.max(i, 1);
+      break;
+    }
+
+    if (!arpeggiated && p.arpeggio !== 1 && t >= p.arpeggioTime) {
+      frequency *= p.arpeggio;
+      arpeggiated = true;
+    }
+
+    const vibrato = p.vibratoDepth > 0 ? 1 + Math.sin(2 * Math.PI * p.vibratoSpeed * t) * p.vibratoDepth : 1;
+    phase += Math.min(frequency * vibrato, sampleRate / 2) / sampleRate;
+    if (phase >= 1) {
+      phase %= 1;
+      if (p.waveform === 'noise') refreshNoise();
+    }
+
+    let sample: number;
+    switch (p.waveform) {
+      case 'square': {
+        const duty = Math.min(Math.max(p.duty + p.dutySweep * t, 0.01), 0.99);
+        sample = phase < duty ? 1 : -1;
+        break;
+      }
+      case 'saw':
+        sample = 2 * phase - 1;
+        break;
+      case 'triangle':
+        sample = phase < 0.5 ? 4 * phase - 1 : 3 - 4 * phase;
+        break;
+      case 'noise':
+      default:
+        sample = noise[Math.floor(phase * NOISE_STEPS)];
+        break;
+    }
+
+    if (p.lowPass > 0) {
+      // Kept below a sixth of the sample rate, where the filter stays stable
+      const cutoff = Math.min(Math.max(p.lowPass + p.lowPassSweep * t, 10), sampleRate / 6);
+      const f = 2 * Math.sin(Math.PI * cutoff / sampleRate);
+      low += f * band;
+      band += f * (sample - low - damping * band);
+      sample = low;
+    }
+
+    if (p.highPass > 0) {
+      const cutoff = Math.max(p.highPass + p.highPassSweep * t, 0);
+      const a = 1 / (1 + 2 * Math.PI * cutoff / sampleRate);
+      highOut = a * (highOut + sample - highIn);
+      highIn = sample;
+      sample = highOut;
+    }
+
+    samples[i] = Math.min(Math.max(sample * envelope(p, t) * p.volume, -1), 1);
+  }
+
+  return length < total ? samples.slice(0, length) : samples;
+}
+
+/**
+ * Render a sound effect into an AudioBuffer
+ * Uses the context's sample rate; returns null where Web Audio is unavailable
+ */
+export function createSfxBuffer(source: SfxSource, context?: BaseAudioContext | null): AudioBuffer | null {
+  const sampleRate = context ? context.sampleRate : 44100;
+  const samples = generateSfx(source, sampleRate);
+
+  let buffer: AudioBuffer;
+  if (context) {
+    buffer = context.createBuffer(1, samples.length, sampleRate);
+  } else if (typeof AudioBuffer !== 'undefined') {
+    buffer = new AudioBuffer({ length: samples.length, numberOfChannels: 1, sampleRate });
+  } else {
+    return null;
+  }
+
+  buffer.getChannelData(0).set(samples);
+  return buffer;
+}
+
+/**
+ * Envelope level at a time: linear attack, sustain with punch, linear decay
+ */
+function envelope(p: SfxParams, t: number): number {
+  if (t < p.attack) {
+    return t / p.attack;
+  }
+  if (t < p.attack + p.sustain) {
+    return 1 + p.punch * (1 - (t - p.attack) / p.sustain);
+  }
+  return p.decay > 0 ? Math.max(0, 1 - (t - p.attack - p.sustain) / p.decay) : 0;
+}
@@ -4,11 +4,12 @@ import { useEffect, useState } from "react"
 import Link from "next/link"
 import { Navbar } from "@/components/navbar"
 import { Game } from "@/lib/games"
-import { ArrowLeft, Maximize2, Minimize2, Home, RefreshCcw, HelpCircle } from "lucide-react"
+import { ArrowLeft, Maximize2, Minimize2, Home, RefreshCcw, HelpCircle, CalendarDays } from "lucide-react"
 import { GameLoader } from "@/components/game-loader"
 import { GameRulesModal } from "@/components/game-rules-modal"
 import { Button } from "@/components/ui/button"
 import { getGameById } from "@/lib/games"
+import { AssetManager, getDailySeed, setRandomSeed } from "@/8bitge"
 
 interface GamePlayClientProps {
   game: Game
@@ -16,17 +17,35 @@ interface GamePlayClientProps {
 
 export function GamePlayClient({ game }: GamePlayClientProps) {
   const [isLoading, setIsLoading] = useState(true)
+  const [loadProgress, setLoadProgress] = useState(0)
+  const [loadCount, setLoadCount] = useState(0)
   const [isFullscreen, setIsFullscreen] = useState(false)
   const [showControls, setShowControls] = useState(true)
   const [showRules, setShowRules] = useState(false)
+  const [dailyChallenge, setDailyChallenge] = useState(false)
   
+  // Preload the game's assets, showing real progress
   useEffect(() => {
-    const timer = setTimeout(() => {
+    const assets = new AssetManager()
+    let cancelled = false
+
+    setIsLoading(true)
+    setLoadProgress(0)
+
+    assets.load(game?.assets || [], ({ progress }) => {
+      if (!cancelled) setLoadProgress(progress)
+    }).then(() => {
+      if (cancelled) return
+      // Seed before the game mounts, so every daily challenger gets the same levels
+      setRandomSeed(dailyChallenge && game ? getDailySeed(game.id) : undefined)
       setIsLoading(false)
-    }, 1500)
+    })
 
-    return () => clearTimeout(timer)
-  }, [])
+    return () => {
+      cancelled = true
+      assets.unloadAll()
+    }
+  }, [game, loadCount, dailyChallenge])
 
   // Handle fullscreen mode
   const toggleFullscreen = () => {
@@ -36,9 +55,12 @@ export function GamePlayClient({ game }: GamePlayClientProps) {
   }
   // Handle game reload
   const reloadGame = () => {
-    setIsLoading(true)
-    // Use a slightly longer delay for component games to ensure they fully reset
-    setTimeout(() => setIsLoading(false), game.hasComponent ? 1500 : 1000)
+    // Unmounts the game while assets reload (instantly, from cache) so it fully resets
+    setLoadCount(count => count + 1)
+  }
+  // Switching the daily challenge on or off reloads the game with the new seed
+  const toggleDailyChallenge = () => {
+    setDailyChallenge(daily => !daily)
   }
 
   const gameData = game // Assuming game data is directly available in the game prop
@@ -48,7 +70,13 @@ export function GamePlayClient({ game }: GamePlayClientProps) {
     return (
       <div className="flex flex-col items-center justify-center min-h-screen p-4">
         <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-cyan-500 mb-4"></div>
-        <p className="text-gray-400">Loading game...</p>
+        <p className="text-gray-400">Loading game... {Math.round(loadProgress * 100)}%</p>
+        <div className="w-48 h-2 mt-3 bg-gray-800 rounded-full overflow-hidden">
+          <div
+            className="h-full bg-cyan-500 transition-all duration-200"
+            style={{ width: `${loadProgress * 100}%` }}
+          />
+        </div>
       </div>
     )
   }
@@ -97,6 +125,22 @@ export function GamePlayClient({ game }: GamePlayClientProps) {
                   {game.title}
                 </h1>
                 
+                {dailyChallenge && (
+                  <span className={`text-xs font-medium text-amber-400 border border-amber-500/40 rounded px-2 py-1 mr-2 ${isFullscreen ? 'hidden sm:inline' : ''}`}>
+                    Daily Challenge · {new Date().toISOString().slice(0, 10)}
+                  </span>
+                )}
+                
+                {game.hasComponent && (
+                  <button
+                    onClick={toggleDailyChallenge}
+                    className={`p-2 transition-colors ${dailyChallenge ? 'text-amber-400 hover:text-amber-300' : 'text-gray-400 hover:text-cyan-400'}`}
+                    title={dailyChallenge ? "Leave Daily Challenge" : "Daily Challenge: same levels for everyone today"}
+                  >
+                    <CalendarDays className="w-5 h-5" />
+                  </button>
+                )}
+                
                 <button
                   onClick={reloadGame}
                   className="p-2 text-gray-400 hover:text-cyan-400 transition-colors"
@@ -1,6 +1,7 @@
 "use client"
 
 import { useState, useEffect, useRef } from 'react'
+import { random } from '@/8bitge'
 
 export function BreakTheIceGame() {
   const [grid, setGrid] = useState<string[][]>([])
@@ -76,7 +77,7 @@ export function BreakTheIceGame() {
       const row: string[] = []
       for (let j = 0; j < size; j++) {
         // Different types of ice blocks with varying thicknesses
-        const iceType = Math.floor(Math.random() * 3) + 1 // 1, 2, or 3 thickness
+        const iceType = Math.floor(random() * 3) + 1 // 1, 2, or 3 thickness
         row.push(`❄️${iceType}`)
       }
       newGrid.push(row)
@@ -85,8 +86,8 @@ export function BreakTheIceGame() {
     // Add some obstacles
     const obstacleCount = Math.min(3 + level, 8)
     for (let i = 0; i < obstacleCount; i++) {
-      const x = Math.floor(Math.random() * size)
-      const y = Math.floor(Math.random() * size)
+      const x = Math.floor(random() * size)
+      const y = Math.floor(random() * size)
       
       // Don't overwrite existing obstacles
       if (newGrid[y][x] !== '🧊') {
@@ -100,8 +101,8 @@ export function BreakTheIceGame() {
       let attempts = 0
       
       while (!placed && attempts < 20) {
-        const x = Math.floor(Math.random() * size)
-        const y = Math.floor(Math.random() * size)
+        const x = Math.floor(random() * size)
+        const y = Math.floor(random() * size)
         
         // Don't place on obstacles
         if (newGrid[y][x] !== '🧊') {
@@ -1,6 +1,7 @@
 "use client"
 
 import { useState, useEffect, useRef } from 'react'
+import { random } from '@/8bitge'
 
 export function CatMazesGame() {
   const [level, setLevel] = useState(1)
@@ -99,8 +100,8 @@ export function CatMazesGame() {
     // Use a simplified version of Prim's algorithm for maze generation
     
     // Start with a grid full of walls
-    let startX = Math.floor(Math.random() * (size-2)) + 1
-    let startY = Math.floor(Math.random() * (size-2)) + 1
+    let startX = Math.floor(random() * (size-2)) + 1
+    let startY = Math.floor(random() * (size-2)) + 1
     
     // Mark the starting cell as a passage
     newGrid[startY][startX] = '⬜'
@@ -116,7 +117,7 @@ export function CatMazesGame() {
     // While there are walls in the list
     while (walls.length > 0) {
       // Pick a random wall
-      const randomIndex = Math.floor(Math.random() * walls.length)
+      const randomIndex = Math.floor(random() * walls.length)
       const wall = walls[randomIndex]
       walls.splice(randomIndex, 1)
       
@@ -155,8 +156,8 @@ export function CatMazesGame() {
     // Place player at a random empty spot
     let playerX, playerY
     do {
-      playerX = Math.floor(Math.random() * size)
-      playerY = Math.floor(Math.random() * size)
+      playerX = Math.floor(random() * size)
+      playerY = Math.floor(random() * size)
     } while (newGrid[playerY][playerX] !== '⬜')
     
     newGrid[playerY][playerX] = '😺'
@@ -170,8 +171,8 @@ export function CatMazesGame() {
     for (let i = 0; i < 20; i++) {
       let testX, testY
       do {
-        testX = Math.floor(Math.random() * size)
-        testY = Math.floor(Math.random() * size)
+        testX = Math.floor(random() * size)
+        testY = Math.floor(random() * size)
       } while (newGrid[testY][testX] !== '⬜')
       
       const distance = Math.abs(testX - playerX) + Math.abs(testY - playerY)
@@ -193,8 +194,8 @@ export function CatMazesGame() {
     
     while (treatsPlaced < treatCount && attempts < 100) {
       attempts++
-      const treatX = Math.floor(Math.random() * size)
-      const treatY = Math.floor(Math.random() * size)
+      const treatX = Math.floor(random() * size)
+      const treatY = Math.floor(random() * size)
       
       // Don't place on player, exit or wall
       if (newGrid[treatY][treatX] === '⬜') {
@@ -1,7 +1,42 @@
 "use client"
 
 import { useState, useEffect, useRef } from 'react'
-import { createGame, GameStatus, ParticleBlendMode, Vector2D } from '@/8bitge'
+import { createGame, GameStatus, MusicStem, ParticleBlendMode, random, Sequencer, SongData, Vector2D } from '@/8bitge'
+
+// Layers of the song's NES voices; higher levels bring in the drums and the lead
+const cyberPongStems: Record<string, MusicStem> = {
+  arpeggio: { channels: [1] },
+  bass: { channels: [2] },
+  drums: { channels: [3], volume: ({ level = 1 }) => level >= 2 ? 1 : 0 },
+  lead: { channels: [0], volume: ({ level = 1 }) => level >= 3 ? 1 : 0 }
+}
+
+interface CyberPongState {
+  gameOver: boolean
+  paddlePosition: number // Percentage from left
+  ballPosition: Vector2D // Percentage coordinates
+  ballDirection: Vector2D // Movement per frame
+  computerPaddlePosition: number
+  score: number
+  level: number
+  highScore: number
+}
+
+/**
+ * State of a game about to start
+ */
+function createCyberPongState(highScore: number = 0): CyberPongState {
+  return {
+    gameOver: false,
+    paddlePosition: 50,
+    ballPosition: { x: 50, y: 50 },
+    ballDirection: { x: 2, y: 3 },
+    computerPaddlePosition: 50,
+    score: 0,
+    level: 1,
+    highScore
+  }
+}
 
 export function CyberPongGame() {
   // Game state
@@ -12,22 +47,20 @@ export function CyberPongGame() {
   const [level, setLevel] = useState(1)
   const [showRules, setShowRules] = useState(true)
   
-  // Game elements
-  const [paddlePosition, setPaddlePosition] = useState(50) // Percentage from left
-  const [ballPosition, setBallPosition] = useState({ x: 50, y: 50 }) // Percentage coordinates
-  const [ballDirection, setBallDirection] = useState({ x: 2, y: 3 }) // Movement per frame
-  const [computerPaddlePosition, setComputerPaddlePosition] = useState(50)
-  const [paddleSize, setPaddleSize] = useState(20) // Paddle width in percentage
+  const paddleSize = 20 // Paddle width in percentage
   
   // Canvas and timing refs
   const gameCanvasRef = useRef<HTMLDivElement>(null)
   const animationRef = useRef<number>(0)
-  const lastFrameTimeRef = useRef<number>(0)
   const gameEngineRef = useRef<any>(null)
+  // The engine's listeners outlive the render that created them, so the
+  // running game keeps its state here (the canvas draws from it) and mirrors
+  // what the page shows into React state
+  const liveRef = useRef<CyberPongState>(createCyberPongState())
   
   // Game settings
-  const ballSpeed = 0.2 + (level * 0.05)
-  const computerSpeed = 0.8 + (level * 0.1)
+  const getBallSpeed = () => 0.2 + (liveRef.current.level * 0.05)
+  const getComputerSpeed = () => 0.8 + (liveRef.current.level * 0.1)
   
   // Initialize game engine and game state
   useEffect(() => {
@@ -39,79 +72,111 @@ export function CyberPongGame() {
         width: 800,
         height: 600,
         pixelPerfect: true,
-        responsive: true
+        responsive: true,
+        audioOptions: {
+          // Generated chiptune effects, so the game needs no audio files
+          sfx: {
+            hit: 'hit',
+            wall: 'blip',
+            levelup: 'powerup',
+            gameover: 'explosion',
+            score: 'coin'
+          }
+        }
       });
       
       gameEngineRef.current = engine;
       
+      // Start a fresh game with the high score from localStorage
+      const savedHighScore = parseInt(localStorage.getItem('cyberpong-highscore') || '0', 10) || 0;
+      liveRef.current = createCyberPongState(savedHighScore);
+      setHighScore(savedHighScore);
+      
       // Set up game events
+      // Speeds are per 60fps frame, and the engine steps in seconds
       engine.on('update', ({ deltaTime }) => {
-        updateGameState(deltaTime);
+        updateGameState(deltaTime * 60);
       });
       
-      engine.on('render', ({ context }) => {
-        if (!context) return;
-        
+      engine.on('render', ({ context, width, height }) => {
         // Clear the canvas with futuristic background
-        renderBackground(context);
+        renderBackground(context, width, height);
         
         // Render game elements
-        renderGame(context);
+        renderGame(context, width, height);
       });
       
       // Handle mouse/touch input through the engine
-      engine.on('input:move', (e: any) => {
-        if (e.normalized) {
-          setPaddlePosition(e.normalized.x * 100);
+      const movePaddle = (x: number) => {
+        const width = gameCanvasRef.current?.clientWidth;
+        if (width) {
+          liveRef.current.paddlePosition = Math.max(0, Math.min(100, (x / width) * 100));
         }
-      });
+      };
+      engine.on('input:mousemove', ({ x }) => movePaddle(x));
+      engine.on('input:touchmove', ({ x }) => movePaddle(x));
       
       // Start the game engine
       engine.start();
       
-      // Load high score from localStorage
-      const savedHighScore = localStorage.getItem('cyberpong-highscore');
-      if (savedHighScore) {
-        setHighScore(parseInt(savedHighScore, 10));
-      }
+      // Start the music once its song is loaded (preloaded by the arcade page); its layers follow the level
+      engine.audio.setMusicParameter('level', 1);
+      engine.assets.load([{ id: 'theme', type: 'json', url: '/music/cyber-pong.json' }]).then(() => {
+        const theme = engine.assets.getJSON<SongData>('theme');
+        if (!theme || gameEngineRef.current !== engine) return;
+        engine.audio.addCue('theme', { song: Sequencer.parseSong(theme), stems: cyberPongStems });
+        engine.audio.playCue('theme', { volume: 0.5, quantize: 'none' });
+      });
       
       // Create initial particle effects
       createInitialEffects();
       
       return () => {
-        // Cleanup when component unmounts
+        // Cleanup when component unmounts or the game ends
         engine.end();
+        engine.destroy();
         if (animationRef.current) {
           cancelAnimationFrame(animationRef.current);
         }
+        if (gameEngineRef.current === engine) {
+          gameEngineRef.current = null;
+        }
       };
     }
   }, [gameStarted, gameOver]);
   
+  // Bring in more music layers as the level rises
+  useEffect(() => {
+    gameEngineRef.current?.audio.setMusicParameter('level', level);
+  }, [level]);
+  
   // Update game state with physics and collision detection
   const updateGameState = (deltaTime: number) => {
-    if (!gameStarted || gameOver || !gameEngineRef.current) return;
+    const live = liveRef.current
+    if (live.gameOver || !gameEngineRef.current) return;
+    
+    const ballSpeed = getBallSpeed();
+    const direction = live.ballDirection;
     
     // Update ball position
     const newBallPos = {
-      x: ballPosition.x + ballDirection.x * ballSpeed * deltaTime,
-      y: ballPosition.y + ballDirection.y * ballSpeed * deltaTime
+      x: live.ballPosition.x + direction.x * ballSpeed * deltaTime,
+      y: live.ballPosition.y + direction.y * ballSpeed * deltaTime
     };
     
     // Check for collisions with walls (left/right)
     if (newBallPos.x <= 0 || newBallPos.x >= 100) {
-      setBallDirection(prev => ({ ...prev, x: -prev.x }));
+      direction.x = -direction.x;
       newBallPos.x = newBallPos.x <= 0 ? 0 : 100;
       createWallHitEffect(newBallPos);
-      gameEngineRef.current.audio.play('wall');
+      gameEngineRef.current.audio.playSound('wall', { pan: newBallPos.x / 50 - 1, pitchVariation: 1 });
     }
     
     // Check for collision with player paddle
     const paddleHeight = 3;
-    const ballSize = 2;
     if (newBallPos.y >= 90 - paddleHeight && newBallPos.y <= 90) {
-      const paddleLeft = paddlePosition - (paddleSize / 2);
-      const paddleRight = paddlePosition + (paddleSize / 2);
+      const paddleLeft = live.paddlePosition - (paddleSize / 2);
+      const paddleRight = live.paddlePosition + (paddleSize / 2);
       
       if (newBallPos.x >= paddleLeft && newBallPos.x <= paddleRight) {
         // Calculate angle of bounce based on hit position
@@ -121,106 +186,119 @@ export function CyberPongGame() {
         const rad = (bounceAngle * Math.PI) / 180;
         
         // Update ball direction based on bounce angle
-        setBallDirection({
+        live.ballDirection = {
           x: Math.sin(rad) * (ballSpeed + 0.05),
           y: -Math.cos(rad) * (ballSpeed + 0.05)
-        });
+        };
         
         // Move ball above paddle to prevent sticking
         newBallPos.y = 89 - paddleHeight;
         
         // Score points
-        setScore(prevScore => prevScore + 10);
+        live.score += 10;
+        setScore(live.score);
         
         // Create particle effect
         createPaddleHitEffect(newBallPos);
-        gameEngineRef.current.audio.play('hit');
+        gameEngineRef.current.audio.playSound('hit', { pan: newBallPos.x / 50 - 1, pitchVariation: 1 });
         
         // Level up after every 100 points
-        if ((score + 10) % 100 === 0) {
-          setLevel(prevLevel => prevLevel + 1);
-          gameEngineRef.current.audio.play('levelup');
+        if (live.score % 100 === 0) {
+          live.level += 1;
+          setLevel(live.level);
+          gameEngineRef.current.audio.playSound('levelup');
         }
       }
     }
     
     // Check for collision with computer paddle
     if (newBallPos.y <= 10 + paddleHeight && newBallPos.y >= 10) {
-      const computerPaddleLeft = computerPaddlePosition - (paddleSize / 2);
-      const computerPaddleRight = computerPaddlePosition + (paddleSize / 2);
+      const computerPaddleLeft = live.computerPaddlePosition - (paddleSize / 2);
+      const computerPaddleRight = live.computerPaddlePosition + (paddleSize / 2);
       
       if (newBallPos.x >= computerPaddleLeft && newBallPos.x <= computerPaddleRight) {
         // Reflect ball direction
-        setBallDirection(prev => ({ ...prev, y: Math.abs(prev.y) }));
+        live.ballDirection.y = Math.abs(live.ballDirection.y);
         
         // Move ball below computer paddle to prevent sticking
         newBallPos.y = 10 + paddleHeight;
         
         // Create particle effect
         createComputerPaddleHitEffect(newBallPos);
-        gameEngineRef.current.audio.play('hit');
+        gameEngineRef.current.audio.playSound('hit', { pan: newBallPos.x / 50 - 1, pitchVariation: 1 });
       }
     }
     
     // Check for scoring (ball past player paddle)
     if (newBallPos.y >= 100) {
       // Game over
-      gameOver();
-      gameEngineRef.current.audio.play('gameover');
+      live.ballPosition = newBallPos;
+      gameEngineRef.current.audio.playSound('gameover');
+      endGame();
       return;
     }
     
     // Top boundary - computer misses
     if (newBallPos.y <= 0) {
-      setBallDirection(prev => ({ ...prev, y: Math.abs(prev.y) }));
+      live.ballDirection.y = Math.abs(live.ballDirection.y);
       newBallPos.y = 0;
-      setScore(prevScore => prevScore + 25); // Bonus for getting past computer
+      live.score += 25; // Bonus for getting past computer
+      setScore(live.score);
       createWallHitEffect(newBallPos);
-      gameEngineRef.current.audio.play('score');
+      gameEngineRef.current.audio.playSound('score');
     }
     
     // Update computer paddle AI
     updateComputerPaddle(deltaTime, newBallPos);
     
     // Update state with new positions
-    setBallPosition(newBallPos);
+    live.ballPosition = newBallPos;
   };
   
   // AI for computer paddle
   const updateComputerPaddle = (deltaTime: number, ballPos: Vector2D) => {
-    const targetX = ballDirection.y < 0 ? ballPos.x : 50; // Follow ball only when coming toward computer
+    const live = liveRef.current
+    const targetX = live.ballDirection.y < 0 ? ballPos.x : 50; // Follow ball only when coming toward computer
     
     // Add some imperfection to the AI based on level (higher levels = smarter computer)
-    const aiAccuracy = Math.min(0.9, 0.4 + (level * 0.05));
-    const randomOffset = (Math.random() - 0.5) * (1 - aiAccuracy) * 20;
+    const aiAccuracy = Math.min(0.9, 0.4 + (live.level * 0.05));
+    const randomOffset = random(-0.5, 0.5) * (1 - aiAccuracy) * 20;
     const target = targetX + randomOffset;
     
     // Move computer paddle toward target
-    const moveAmount = computerSpeed * deltaTime;
+    const moveAmount = getComputerSpeed() * deltaTime;
     
-    if (computerPaddlePosition < target) {
-      setComputerPaddlePosition(prev => Math.min(prev + moveAmount, target));
+    if (live.computerPaddlePosition < target) {
+      live.computerPaddlePosition = Math.min(live.computerPaddlePosition + moveAmount, target);
     } else {
-      setComputerPaddlePosition(prev => Math.max(prev - moveAmount, target));
+      live.computerPaddlePosition = Math.max(live.computerPaddlePosition - moveAmount, target);
     }
   };
   
   // Game over handling
   const endGame = () => {
+    const live = liveRef.current
+    if (live.gameOver) return;
+    
+    live.gameOver = true;
     setGameOver(true);
     
     // Update high score if needed
-    if (score > highScore) {
-      setHighScore(score);
-      localStorage.setItem('cyberpong-highscore', score.toString());
+    if (live.score > live.highScore) {
+      live.highScore = live.score;
+      setHighScore(live.score);
+      localStorage.setItem('cyberpong-highscore', live.score.toString());
     }
     
     // Create explosion effect
     if (gameEngineRef.current) {
-      gameEngineRef.current.particles.createEmitterFromPreset('gameOverExplosion', 'explosion', {
+      const engine = gameEngineRef.current;
+      engine.end(live.score);
+      
+      engine.particles.createEmitterFromPreset('gameOverExplosion', 'explosion', {
         position: { 
-          x: ballPosition.x * gameEngineRef.current.canvas.width / 100,
-          y: ballPosition.y * gameEngineRef.current.canvas.height / 100
+          x: live.ballPosition.x * engine.getConfig().width / 100,
+          y: live.ballPosition.y * engine.getConfig().height / 100
         },
         scale: 3,
         color: ['#ff0088', '#00ffff']
@@ -230,13 +308,10 @@ export function CyberPongGame() {
   
   // Restart game
   const restartGame = () => {
+    // The live state is reset when the engine starts
     setGameOver(false);
     setScore(0);
     setLevel(1);
-    setBallPosition({ x: 50, y: 50 });
-    setBallDirection({ x: 2, y: 3 });
-    setPaddlePosition(50);
-    setComputerPaddlePosition(50);
     
     // Short timeout to ensure state is reset before game starts again
     setTimeout(() => {
@@ -256,8 +331,8 @@ export function CyberPongGame() {
     
     const engine = gameEngineRef.current;
     const canvasPos = {
-      x: position.x * engine.canvas.width / 100,
-      y: position.y * engine.canvas.height / 100
+      x: position.x * engine.getConfig().width / 100,
+      y: position.y * engine.getConfig().height / 100
     };
     
     // Create sparkle effect on paddle hit
@@ -273,8 +348,8 @@ export function CyberPongGame() {
     
     const engine = gameEngineRef.current;
     const canvasPos = {
-      x: position.x * engine.canvas.width / 100,
-      y: position.y * engine.canvas.height / 100
+      x: position.x * engine.getConfig().width / 100,
+      y: position.y * engine.getConfig().height / 100
     };
     
     // Create effect for computer paddle hit
@@ -290,8 +365,8 @@ export function CyberPongGame() {
     
     const engine = gameEngineRef.current;
     const canvasPos = {
-      x: position.x * engine.canvas.width / 100,
-      y: position.y * engine.canvas.height / 100
+      x: position.x * engine.getConfig().width / 100,
+      y: position.y * engine.getConfig().height / 100
     };
     
     // Small explosion when hitting walls
@@ -310,8 +385,8 @@ export function CyberPongGame() {
     // Create ambient effects for the cyberpunk aesthetic
     engine.particles.createEmitterFromPreset('ambientGlow', 'sparkles', {
       position: { 
-        x: engine.canvas.width / 2,
-        y: engine.canvas.height / 2
+        x: engine.getConfig().width / 2,
+        y: engine.getConfig().height / 2
       },
       color: ['#0088ff', '#00ffaa', '#ff00ff'],
       scale: 3
@@ -319,9 +394,7 @@ export function CyberPongGame() {
   };
   
   // Rendering functions
-  const renderBackground = (ctx: CanvasRenderingContext2D) => {
-    const { width, height } = ctx.canvas;
-    
+  const renderBackground = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
     // Create cyberpunk gradient background
     const bgGradient = ctx.createLinearGradient(0, 0, 0, height);
     bgGradient.addColorStop(0, '#111122');
@@ -372,12 +445,12 @@ export function CyberPongGame() {
     ctx.strokeRect(2, 2, width - 4, height - 4);
   };
   
-  const renderGame = (ctx: CanvasRenderingContext2D) => {
-    const { width, height } = ctx.canvas;
+  const renderGame = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+    const live = liveRef.current
     
     // Draw player paddle
     const paddleWidth = (paddleSize / 100) * width;
-    const playerPaddleX = (paddlePosition / 100) * width - (paddleWidth / 2);
+    const playerPaddleX = (live.paddlePosition / 100) * width - (paddleWidth / 2);
     const playerPaddleY = height * 0.9;
     const paddleHeight = height * 0.03;
     
@@ -389,7 +462,7 @@ export function CyberPongGame() {
     ctx.shadowBlur = 0;
     
     // Draw computer paddle
-    const computerPaddleX = (computerPaddlePosition / 100) * width - (paddleWidth / 2);
+    const computerPaddleX = (live.computerPaddlePosition / 100) * width - (paddleWidth / 2);
     const computerPaddleY = height * 0.1;
     
     ctx.fillStyle = '#ff00ff';
@@ -400,8 +473,8 @@ export function CyberPongGame() {
     
     // Draw the ball
     const ballSize = width * 0.02;
-    const ballX = (ballPosition.x / 100) * width - (ballSize / 2);
-    const ballY = (ballPosition.y / 100) * height - (ballSize / 2);
+    const ballX = (live.ballPosition.x / 100) * width - (ballSize / 2);
+    const ballY = (live.ballPosition.y / 100) * height - (ballSize / 2);
     
     // Create radial gradient for glowing ball
     const ballGradient = ctx.createRadialGradient(
@@ -424,11 +497,11 @@ export function CyberPongGame() {
     ctx.fillStyle = '#00ffff';
     ctx.font = '20px "Orbitron", sans-serif';
     ctx.textAlign = 'left';
-    ctx.fillText(`SCORE: ${score}`, 20, height - 20);
+    ctx.fillText(`SCORE: ${live.score}`, 20, height - 20);
     ctx.textAlign = 'right';
-    ctx.fillText(`LEVEL: ${level}`, width - 20, height - 20);
+    ctx.fillText(`LEVEL: ${live.level}`, width - 20, height - 20);
     ctx.textAlign = 'center';
-    ctx.fillText(`HIGH SCORE: ${highScore}`, width / 2, 30);
+    ctx.fillText(`HIGH SCORE: ${live.highScore}`, width / 2, 30);
   };
   
   return (
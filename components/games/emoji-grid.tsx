@@ -1,6 +1,7 @@
 "use client"
 
 import { useState, useEffect, useRef } from 'react'
+import { random } from '@/8bitge'
 
 export function EmojiGridGame() {
   const [grid, setGrid] = useState<string[][]>([])
@@ -62,10 +63,10 @@ export function EmojiGridGame() {
       for (let j = 0; j < size; j++) {
         // Select a random category then a random emoji from that category
         const categories = Object.keys(emojiGroups)
-        const randomCategoryIndex = Math.floor(Math.random() * categories.length)
+        const randomCategoryIndex = Math.floor(random() * categories.length)
         const category = categories[randomCategoryIndex] as keyof typeof emojiGroups
         const categoryEmojis = emojiGroups[category]
-        const randomEmojiIndex = Math.floor(Math.random() * categoryEmojis.length)
+        const randomEmojiIndex = Math.floor(random() * categoryEmojis.length)
         row.push(categoryEmojis[randomEmojiIndex])
       }
       newGrid.push(row)
@@ -211,9 +212,9 @@ export function EmojiGridGame() {
       selectedEmojis.forEach(({row, col}) => {
         // Select from random emoji category
         const categories = Object.keys(emojiGroups);
-        const randomCategory = categories[Math.floor(Math.random() * categories.length)] as keyof typeof emojiGroups;
+        const randomCategory = categories[Math.floor(random() * categories.length)] as keyof typeof emojiGroups;
         const categoryEmojis = emojiGroups[randomCategory];
-        const randomEmoji = categoryEmojis[Math.floor(Math.random() * categoryEmojis.length)];
+        const randomEmoji = categoryEmojis[Math.floor(random() * categoryEmojis.length)];
         newGrid[row][col] = randomEmoji;
       });
       
@@ -1,22 +1,30 @@
 "use client"
 
 import { useState, useEffect, useRef } from 'react'
-import { createGame, GameStatus, ParticleBlendMode } from '@/8bitge'
+import { createGame, GameStatus, ParticleBlendMode, random, Sequencer, SongData } from '@/8bitge'
+
+interface Obstacle {
+  lane: number
+  y: number
+  type: string
+  collected: boolean
+}
 
 export function PixelRushGame() {
   const [gameStarted, setGameStarted] = useState(false)
   const [gameOver, setGameOver] = useState(false)
   const [score, setScore] = useState(0)
   const [highScore, setHighScore] = useState(0)
-  const [playerPosition, setPlayerPosition] = useState(2) // Position on a scale of 0-4 (5 lanes)
-  const [obstacles, setObstacles] = useState<{lane: number, y: number, type: string, collected: boolean}[]>([])
   const [showRules, setShowRules] = useState(true)
   const [speed, setSpeed] = useState(5) // Game speed
   
   const gameRef = useRef<HTMLDivElement>(null)
-  const animationRef = useRef<number>(0)
-  const lastFrameTimeRef = useRef<number>(0)
   const gameEngineRef = useRef<any>(null)
+  // The engine's listeners outlive the render that created them, so the
+  // running game keeps its state here (the canvas draws from it) and mirrors
+  // what the page shows into React state
+  // playerPosition is on a scale of 0-4 (5 lanes)
+  const liveRef = useRef({ gameOver: false, playerPosition: 2, obstacles: [] as Obstacle[], score: 0, speed: 5 })
   
   // Game items and their properties
   const items = {
@@ -37,14 +45,29 @@ export function PixelRushGame() {
         height: 600,
         pixelPerfect: true,
         fps: 60,
-        responsive: true
+        responsive: true,
+        bindings: {
+          actions: {
+            moveLeft: ['arrowleft', 'a', { type: 'swipe', direction: 'left' }, { type: 'gamepad', button: 14 }],
+            moveRight: ['arrowright', 'd', { type: 'swipe', direction: 'right' }, { type: 'gamepad', button: 15 }]
+          }
+        }
       });
       
       gameEngineRef.current = engine;
+      liveRef.current = { gameOver: false, playerPosition: 2, obstacles: [], score: 0, speed: 5 };
       
       // Set up game events
+      // The engine steps at a fixed rate, so spawning and movement
+      // behave the same regardless of display refresh rate
       engine.on('update', ({ deltaTime }) => {
-        // Game update logic is handled in our own update function
+        if (liveRef.current.gameOver) return;
+        
+        if (engine.input.isActionJustPressed('moveLeft')) movePlayer('left');
+        if (engine.input.isActionJustPressed('moveRight')) movePlayer('right');
+        
+        // Obstacle movement and collision detection work in milliseconds
+        updateGameState(deltaTime * 1000);
       });
       
       engine.on('render', ({ context }) => {
@@ -58,65 +81,53 @@ export function PixelRushGame() {
         renderGame(context);
       });
       
-      // Start the engine
+      // Start the engine, then the music once its song has loaded (Pixel Rush isn't in the
+      // arcade catalog, so nothing preloads it)
       engine.start();
+      engine.assets.load([{ id: 'theme', type: 'json', url: '/music/pixel-rush.json' }]).then(() => {
+        const theme = engine.assets.getJSON<SongData>('theme');
+        if (!theme || gameEngineRef.current !== engine) return;
+        engine.audio.addSong('theme', Sequencer.parseSong(theme));
+        engine.audio.playMusic('theme', 0.6);
+      });
       
       // Reset state
-      setPlayerPosition(2);
-      setObstacles([]);
       setScore(0);
       setSpeed(5);
-      startGameLoop();
       
       // Cleanup
       return () => {
-        if (animationRef.current) {
-          cancelAnimationFrame(animationRef.current);
-        }
-        
-        if (gameEngineRef.current) {
-          // Clean up engine
+        // Stops the loop, music and input listeners
+        engine.destroy();
+        if (gameEngineRef.current === engine) {
           gameEngineRef.current = null;
         }
       }
     }
   }, [gameStarted, gameOver]);
   
-  // Game loop
-  const startGameLoop = () => {
-    lastFrameTimeRef.current = performance.now()
-    
-    const gameLoop = (currentTime: number) => {
-      const deltaTime = currentTime - lastFrameTimeRef.current
-      lastFrameTimeRef.current = currentTime
-      
-      // Handle obstacle movement and collision detection
-      updateGameState(deltaTime)
-      
-      // Continue loop if game is still active
-      if (gameStarted && !gameOver) {
-        animationRef.current = requestAnimationFrame(gameLoop)
-      }
-    }
-    
-    // Start the loop
-    animationRef.current = requestAnimationFrame(gameLoop)
-  }
+  // Speed the music up along with the game
+  useEffect(() => {
+    gameEngineRef.current?.audio.getSequencer()?.setTempoScale(1 + (speed - 5) * 0.05);
+  }, [speed]);
   
   // Update game state every frame
   const updateGameState = (deltaTime: number) => {
+    const live = liveRef.current
+    const { speed } = live
+    
     // Move obstacles down
-    const updatedObstacles = obstacles.map(obstacle => ({
+    const updatedObstacles = live.obstacles.map(obstacle => ({
       ...obstacle,
       y: obstacle.y + speed * (deltaTime / 100)
     }))
     
     // Add new obstacles occasionally
-    if (Math.random() < 0.03) {
-      const lane = Math.floor(Math.random() * 5)
-      const type = Math.random() < 0.7 ? 'obstacle' : 
-                  Math.random() < 0.85 ? 'coin' : 
-                  Math.random() < 0.95 ? 'powerup' : 'danger'
+    if (random() < 0.03) {
+      const lane = Math.floor(random() * 5)
+      const type = random() < 0.7 ? 'obstacle' : 
+                  random() < 0.85 ? 'coin' : 
+                  random() < 0.95 ? 'powerup' : 'danger'
       
       updatedObstacles.push({
         lane,
@@ -127,8 +138,8 @@ export function PixelRushGame() {
     }
     
     // Check for collisions and remove offscreen obstacles
-    const playerLane = playerPosition
-    const newObstacles = []
+    const playerLane = live.playerPosition
+    const newObstacles: Obstacle[] = []
     let scoreIncrement = 0
     let hitObstacle = false
     
@@ -147,7 +158,8 @@ export function PixelRushGame() {
             
             // If powerup, increase speed slightly
             if (obstacle.type === 'powerup') {
-              setSpeed(prev => Math.min(prev + 0.5, 12))
+              live.speed = Math.min(live.speed + 0.5, 12)
+              setSpeed(live.speed)
             }
           }
         }
@@ -160,14 +172,15 @@ export function PixelRushGame() {
     
     // Update score
     if (scoreIncrement > 0) {
-      setScore(prev => prev + scoreIncrement)
+      live.score += scoreIncrement
+      setScore(live.score)
     }
     
     // End game if obstacle hit
     if (hitObstacle) {
       endGame()
     } else {
-      setObstacles(newObstacles)
+      live.obstacles = newObstacles
     }
     
     // Add particle effects when collecting items
@@ -188,15 +201,21 @@ export function PixelRushGame() {
   
   // End game and update high score if needed
   const endGame = () => {
+    const live = liveRef.current
+    if (live.gameOver) return;
+    
+    live.gameOver = true;
     setGameOver(true);
-    setHighScore(prev => Math.max(prev, score));
+    setHighScore(prev => Math.max(prev, live.score));
     
-    // Add explosion effect
     if (gameEngineRef.current) {
       const engine = gameEngineRef.current;
+      engine.end(live.score);
+      
+      // Add explosion effect
       engine.particles.createEmitterFromPreset('gameover', 'explosion', {
         position: { 
-          x: engine.getConfig().width * (playerPosition / 5),
+          x: engine.getConfig().width * (live.playerPosition / 5),
           y: engine.getConfig().height * 0.85
         },
         color: ['#ff5500', '#ffcc00'],
@@ -205,28 +224,15 @@ export function PixelRushGame() {
     }
   }
   
-  // Handle controls - now using engine inputs when available
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    if (!gameStarted || gameOver) return;
-    
-    switch (e.key) {
-      case 'ArrowLeft':
-        setPlayerPosition(prev => Math.max(0, prev - 1));
-        break;
-      case 'ArrowRight':
-        setPlayerPosition(prev => Math.min(4, prev + 1));
-        break;
-    }
-  }
-  
   // Move player left or right
   const movePlayer = (direction: 'left' | 'right') => {
-    if (!gameStarted || gameOver) return;
+    const live = liveRef.current
+    if (!gameStarted || live.gameOver) return;
     
     if (direction === 'left') {
-      setPlayerPosition(prev => Math.max(0, prev - 1));
+      live.playerPosition = Math.max(0, live.playerPosition - 1);
     } else {
-      setPlayerPosition(prev => Math.min(4, prev + 1));
+      live.playerPosition = Math.min(4, live.playerPosition + 1);
     }
   }
   
@@ -235,6 +241,7 @@ export function PixelRushGame() {
     if (!gameEngineRef.current) return;
     
     const engine = gameEngineRef.current;
+    const { playerPosition, obstacles, score } = liveRef.current;
     const width = engine.getConfig().width;
     const height = engine.getConfig().height;
     
@@ -308,7 +315,7 @@ export function PixelRushGame() {
       <div className="space-y-4 text-sm">
         <h3 className="font-bold">How To Play:</h3>
         <ul className="list-disc pl-5 space-y-1">
-          <li>Use left and right arrow keys to move between lanes</li>
+          <li>Use the arrow keys, A and D, swipes or a gamepad to move between lanes</li>
           <li>Avoid obstacles like cacti (🌵) and fire (🔥)</li>
           <li>Collect stars (⭐) for 10 points each</li>
           <li>Collect power stars (🌟) for 25 points and speed boost</li>
@@ -334,8 +341,7 @@ export function PixelRushGame() {
           <div 
             ref={gameRef}
             className="relative bg-gray-950 border border-gray-800 rounded-lg w-full max-w-md aspect-[5/6] overflow-hidden"
-            tabIndex={0} 
-            onKeyDown={handleKeyDown}
+            tabIndex={0}
           >
             {/* Game over message */}
             {gameOver && (
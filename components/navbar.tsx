@@ -2,11 +2,13 @@
 
 import { useState, useEffect } from "react"
 import Link from "next/link"
-import { Menu, X, Gamepad2 } from "lucide-react"
+import { Menu, X, Gamepad2, UserCog } from "lucide-react"
+import { ProfileSettings } from "./profile-settings"
 
 export function Navbar() {
   const [isMenuOpen, setIsMenuOpen] = useState(false)
   const [scrolled, setScrolled] = useState(false)
+  const [isProfileOpen, setIsProfileOpen] = useState(false)
 
   useEffect(() => {
     const handleScroll = () => {
@@ -40,6 +42,13 @@ export function Navbar() {
             <Link href="#about" className="text-gray-300 hover:text-cyan-400 transition-colors font-medium">
               About
             </Link>
+            <button
+              onClick={() => setIsProfileOpen(true)}
+              className="flex items-center text-gray-300 hover:text-cyan-400 transition-colors font-medium"
+            >
+              <UserCog size={18} className="mr-1" />
+              Profile
+            </button>
           </div>
           <div className="md:hidden flex items-center">
             <button
@@ -70,9 +79,20 @@ export function Navbar() {
             >
               About
             </Link>
+            <button
+              className="block w-full text-left px-3 py-2 text-gray-300 hover:text-white font-medium"
+              onClick={() => {
+                setIsMenuOpen(false)
+                setIsProfileOpen(true)
+              }}
+            >
+              Profile
+            </button>
           </div>
         </div>
       )}
+
+      <ProfileSettings isOpen={isProfileOpen} onClose={() => setIsProfileOpen(false)} />
     </nav>
   )
 }
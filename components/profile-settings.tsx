@@ -0,0 +1,141 @@
+"use client"
+
+import { useRef, useState } from "react"
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "./ui/dialog"
+import { Button } from "./ui/button"
+import { Switch } from "./ui/switch"
+import { Label } from "./ui/label"
+import { Download, Upload, UserCog } from "lucide-react"
+import { ProfileSystem } from "@/8bitge"
+import { getAllGames } from "@/lib/games"
+
+interface ProfileSettingsProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+/**
+ * Create a profile service covering every game's own best-score keys
+ */
+async function createProfileSystem(): Promise<ProfileSystem> {
+  const games = await getAllGames()
+  return new ProfileSystem({ scoreKeys: games.flatMap(game => game.scoreKeys || []) })
+}
+
+export function ProfileSettings({ isOpen, onClose }: ProfileSettingsProps) {
+  const fileInput = useRef<HTMLInputElement>(null)
+  const [compress, setCompress] = useState(false)
+  const [overwrite, setOverwrite] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [message, setMessage] = useState<{ text: string; error: boolean } | null>(null)
+
+  const handleExport = async () => {
+    setBusy(true)
+    setMessage(null)
+    try {
+      const profiles = await createProfileSystem()
+      const blob = await profiles.exportProfile(compress)
+      const date = new Date().toISOString().slice(0, 10)
+      const extension = blob.type === "application/gzip" ? "json.gz" : "json"
+
+      const url = URL.createObjectURL(blob)
+      const link = document.createElement("a")
+      link.href = url
+      link.download = `8bitpixel-profile-${date}.${extension}`
+      link.click()
+      // Revoking right away can cancel the download before it starts
+      setTimeout(() => URL.revokeObjectURL(url), 0)
+
+      setMessage({ text: "Profile exported. Import it on your other device to carry your progress over.", error: false })
+    } catch (error) {
+      setMessage({ text: (error as Error).message.replace("[8BitGE] ", ""), error: true })
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleImport = async (file: File) => {
+    setBusy(true)
+    setMessage(null)
+    try {
+      const profiles = await createProfileSystem()
+      const result = await profiles.importProfile(file, { overwrite })
+      setMessage({
+        text: `Imported ${result.scores} scores, ${result.achievements} achievements and ${result.values} saved values` +
+          (result.conflicts ? ` (kept this device's copy of ${result.conflicts}).` : ".") +
+          " Reloading…",
+        error: false
+      })
+      // Running games hold their data in memory
+      setTimeout(() => window.location.reload(), 1500)
+    } catch (error) {
+      setMessage({ text: (error as Error).message.replace("[8BitGE] ", ""), error: true })
+      setBusy(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md bg-gray-900 border border-gray-800 text-white">
+        <DialogHeader className="border-b border-gray-800 pb-2">
+          <DialogTitle className="flex items-center text-cyan-400">
+            <UserCog size={20} className="mr-2" />
+            Player Profile
+          </DialogTitle>
+          <DialogDescription className="text-gray-400">
+            Move your scores, achievements and saved games to another browser or device.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6">
+          <div className="space-y-3">
+            <h3 className="text-lg font-semibold text-cyan-400">Export</h3>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="profile-compress" className="text-gray-300">Compress the file</Label>
+              <Switch id="profile-compress" checked={compress} onCheckedChange={setCompress} />
+            </div>
+            <Button onClick={handleExport} disabled={busy} className="w-full bg-cyan-600 hover:bg-cyan-700">
+              <Download size={16} className="mr-2" />
+              Export Profile
+            </Button>
+          </div>
+
+          <div className="space-y-3">
+            <h3 className="text-lg font-semibold text-cyan-400">Import</h3>
+            <p className="text-sm text-gray-400">
+              Best scores and achievements are combined, and the newer copy of each save slot is kept.
+            </p>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="profile-overwrite" className="text-gray-300">Replace this device&apos;s other game data</Label>
+              <Switch id="profile-overwrite" checked={overwrite} onCheckedChange={setOverwrite} />
+            </div>
+            <input
+              ref={fileInput}
+              type="file"
+              accept=".json,.gz,application/json,application/gzip"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0]
+                e.target.value = ""
+                if (file) handleImport(file)
+              }}
+            />
+            <Button
+              variant="outline"
+              onClick={() => fileInput.current?.click()}
+              disabled={busy}
+              className="w-full border-cyan-800 text-cyan-400 hover:bg-cyan-950"
+            >
+              <Upload size={16} className="mr-2" />
+              Import Profile
+            </Button>
+          </div>
+
+          {message && (
+            <p className={`text-sm ${message.error ? "text-red-400" : "text-green-400"}`}>{message.text}</p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -3,6 +3,8 @@
  * Handles game registration, retrieval, and metadata
  */
 
+import type { AssetManifest } from '@/8bitge';
+
 // Game type definitions
 export interface GameRule {
   title: string;
@@ -55,6 +57,10 @@ export interface Game {
   usesGameEngine?: boolean;
   externalUrl?: string;
   data?: GameData;
+  /** Assets preloaded (with progress) before the game component mounts */
+  assets?: AssetManifest;
+  /** localStorage keys the game keeps its own best scores in, carried in player profiles */
+  scoreKeys?: string[];
 }
 
 // Game data definitions
@@ -321,6 +327,8 @@ const gamesCatalog: Game[] = [
     dateAdded: "2023-09-18",
     hasComponent: true,
     usesGameEngine: true,
+    assets: [{ id: "theme", type: "json", url: "/music/cyber-pong.json" }],
+    scoreKeys: ["cyberpong-highscore"],
     data: {
       title: "Cyber Pong",
       shortDescription: "Futuristic pong game with neon graphics",